@@ -0,0 +1,267 @@
+import { encodeFunctionData, erc20Abi, formatUnits, parseUnits, type Address } from "viem";
+import { getPublicClient, getAccount, isPaperMode, USDC_BASE } from "./config.js";
+import { getAuction, getCurrentBlock } from "./auction-data.js";
+import { sendAndConfirm } from "./tx-manager.js";
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+import { validateShape } from "./storage/validate.js";
+
+const SWEEP_INTERVAL_MS = 60_000;
+const USDC_DECIMALS = 6;
+
+/**
+ * USDC allowances granted to auction contracts. Strategies and armed bids
+ * register what they will spend while they wait, so the approve is mined
+ * long before the bid window and the bid goes out as a single transaction.
+ * Once an auction has ended and nothing needs it, the allowance is revoked.
+ */
+export interface AllowanceRecord {
+  /** Auction contract allowed to pull USDC */
+  spender: string;
+  /** USDC each consumer still intends to bid, keyed by consumer ("strategy", "bid-job") */
+  needs: Record<string, number>;
+  status: "pending" | "approved" | "revoked" | "failed";
+  /** Last allowance read from chain, raw 6-decimal units */
+  onchainRaw: string | null;
+  endBlock: number | null;
+  txHashes: string[];
+  updatedAt: number;
+  error: string | null;
+}
+
+// Keyed by lowercased spender address
+const allowances = new Map<string, AllowanceRecord>();
+// One approve/revoke at a time per spender
+const syncing = new Map<string, Promise<void>>();
+
+registerCollector(() => ({
+  section: "Allowances",
+  data: Array.from(allowances.values()),
+  key: (a: AllowanceRecord) => a.spender,
+}));
+
+registerSchema("Allowances", {
+  migrations: [],
+  validate: (record) =>
+    validateShape(record, {
+      spender: "string",
+      needs: "object",
+      status: ["pending", "approved", "revoked", "failed"],
+      onchainRaw: "string?",
+      endBlock: "number?",
+      txHashes: "array",
+      updatedAt: "number",
+      error: "string?",
+    }),
+});
+
+// ─── Public API ───
+
+export function getAllowances(): AllowanceRecord[] {
+  return Array.from(allowances.values());
+}
+
+/** Restore from persisted state */
+export function setAllowances(records: AllowanceRecord[]): void {
+  for (const r of records) allowances.set(r.spender.toLowerCase(), r);
+}
+
+/**
+ * Record that `consumer` will bid `amountUsdc` on this auction and approve
+ * the combined amount in the background. Safe to call repeatedly.
+ */
+export function requestAllowance(
+  spender: string,
+  consumer: string,
+  amountUsdc: number,
+  endBlock: number | null = null
+): void {
+  // Paper bids never pull real USDC, so there is nothing to approve
+  if (isPaperMode()) return;
+  const record = getOrCreate(spender);
+  record.needs[consumer] = amountUsdc;
+  if (endBlock) record.endBlock = endBlock;
+  if (record.status === "revoked" || record.status === "failed") record.status = "pending";
+  record.updatedAt = Date.now();
+  markDirty();
+
+  sync(record).catch(() => {
+    // Logged and recorded by sync
+  });
+}
+
+/** The consumer no longer needs the allowance; it is revoked once the auction ends */
+export function releaseAllowance(spender: string, consumer: string): void {
+  const record = allowances.get(spender.toLowerCase());
+  if (!record || !(consumer in record.needs)) return;
+  delete record.needs[consumer];
+  record.updatedAt = Date.now();
+  markDirty();
+}
+
+/** Drop every need and set the allowance to zero now, whether or not the auction has ended */
+export async function revokeAllowance(spender: string): Promise<AllowanceRecord> {
+  const record = allowances.get(spender.toLowerCase());
+  if (!record) throw new Error(`No tracked allowance for ${spender}`);
+  record.needs = {};
+  markDirty();
+  await serialized(record, () => revoke(record));
+  return record;
+}
+
+/** Re-read every tracked allowance from chain */
+export async function refreshAllowances(): Promise<AllowanceRecord[]> {
+  await Promise.all(
+    getAllowances().map(async (record) => {
+      try {
+        record.onchainRaw = (await readAllowance(record.spender)).toString();
+      } catch {
+        // Keep the last observed value
+      }
+    })
+  );
+  return getAllowances();
+}
+
+/** Start the background sweep that tops up active allowances and revokes ended ones */
+export function startAllowanceManager(): void {
+  console.log(`[allowances] Started (${allowances.size} tracked)`);
+  const sweep = () => {
+    sweepAllowances().catch((err) => console.error("[allowances] Sweep error:", err.message));
+  };
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS);
+}
+
+// ─── Internals ───
+
+function getOrCreate(spender: string): AllowanceRecord {
+  const key = spender.toLowerCase();
+  let record = allowances.get(key);
+  if (!record) {
+    record = {
+      spender,
+      needs: {},
+      status: "pending",
+      onchainRaw: null,
+      endBlock: null,
+      txHashes: [],
+      updatedAt: Date.now(),
+      error: null,
+    };
+    allowances.set(key, record);
+  }
+  return record;
+}
+
+function totalNeeded(record: AllowanceRecord): bigint {
+  const usdc = Object.values(record.needs).reduce((a, b) => a + b, 0);
+  return parseUnits(String(usdc), USDC_DECIMALS);
+}
+
+function readAllowance(spender: string): Promise<bigint> {
+  return getPublicClient().readContract({
+    address: USDC_BASE,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [getAccount().address, spender as Address],
+  });
+}
+
+function serialized(record: AllowanceRecord, fn: () => Promise<void>): Promise<void> {
+  const key = record.spender.toLowerCase();
+  const run = (syncing.get(key) ?? Promise.resolve()).then(fn, fn);
+  const tail = run.catch(() => {});
+  syncing.set(key, tail);
+  tail.then(() => {
+    if (syncing.get(key) === tail) syncing.delete(key);
+  });
+  return run;
+}
+
+/** Make the on-chain allowance cover every registered need */
+function sync(record: AllowanceRecord): Promise<void> {
+  return serialized(record, async () => {
+    const needed = totalNeeded(record);
+    if (needed === 0n) return;
+
+    try {
+      const current = await readAllowance(record.spender);
+      record.onchainRaw = current.toString();
+      if (current >= needed) {
+        record.status = "approved";
+        record.error = null;
+        return;
+      }
+
+      console.log(`[allowances:${record.spender.slice(0, 8)}] Approving ${formatUnits(needed, USDC_DECIMALS)} USDC`);
+      const receipt = await sendAndConfirm({
+        to: USDC_BASE,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [record.spender as Address, needed] }),
+        label: `pre-approve ${record.spender.slice(0, 10)}`,
+      });
+      record.txHashes.push(receipt.transactionHash);
+      record.onchainRaw = needed.toString();
+      record.status = "approved";
+      record.error = null;
+    } catch (err: any) {
+      record.status = "failed";
+      record.error = (err.shortMessage || err.message || String(err)).slice(0, 200);
+      console.error(`[allowances:${record.spender.slice(0, 8)}] Approve failed: ${record.error}`);
+      throw err;
+    } finally {
+      record.updatedAt = Date.now();
+      markDirty();
+    }
+  });
+}
+
+async function revoke(record: AllowanceRecord): Promise<void> {
+  try {
+    const current = await readAllowance(record.spender);
+    if (current > 0n) {
+      console.log(`[allowances:${record.spender.slice(0, 8)}] Revoking ${formatUnits(current, USDC_DECIMALS)} USDC`);
+      const receipt = await sendAndConfirm({
+        to: USDC_BASE,
+        data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [record.spender as Address, 0n] }),
+        label: `revoke ${record.spender.slice(0, 10)}`,
+      });
+      record.txHashes.push(receipt.transactionHash);
+    }
+    record.onchainRaw = "0";
+    record.status = "revoked";
+    record.error = null;
+  } catch (err: any) {
+    record.error = (err.shortMessage || err.message || String(err)).slice(0, 200);
+    console.error(`[allowances:${record.spender.slice(0, 8)}] Revoke failed: ${record.error}`);
+  } finally {
+    record.updatedAt = Date.now();
+    markDirty();
+  }
+}
+
+async function sweepAllowances(): Promise<void> {
+  const open = getAllowances().filter((r) => r.status !== "revoked");
+  if (open.length === 0) return;
+  const { blockNumber } = await getCurrentBlock();
+
+  for (const record of open) {
+    if (record.endBlock === null) {
+      try {
+        record.endBlock = (await getAuction(record.spender)).endBlock;
+        markDirty();
+      } catch {
+        // Unknown end — try again next sweep
+      }
+    }
+    const ended = record.endBlock !== null && blockNumber >= record.endBlock;
+
+    if (ended) {
+      // Nothing can be bid once the auction is over, whatever is still registered
+      record.needs = {};
+      await serialized(record, () => revoke(record));
+    } else if (Object.keys(record.needs).length > 0 && record.status !== "approved") {
+      // Retry failed or interrupted approvals
+      await sync(record).catch(() => {});
+    }
+  }
+}
@@ -1,27 +1,276 @@
 import { FLOW_BID_BASE_URL } from "./config.js";
+import {
+  createCircuitBreaker,
+  createTokenBucket,
+  requestJson,
+  type CircuitState,
+  type RequestPolicy,
+} from "./http.js";
 
 const BASE_URL = FLOW_BID_BASE_URL;
 
-async function fetchJson<T>(path: string, init?: RequestInit): Promise<T> {
-  const url = `${BASE_URL}${path}`;
-  const res = await fetch(url, {
-    ...init,
-    headers: {
-      "Content-Type": "application/json",
-      ...init?.headers,
+// --- Transport ---
+
+// Hot-loop reads get short timeouts so one hung request can't stall a strategy
+const POLICIES = {
+  block: { timeoutMs: 3_000, retries: 2 },
+  auction: { timeoutMs: 5_000, retries: 2 },
+  list: { timeoutMs: 10_000, retries: 2 },
+  build: { timeoutMs: 10_000, retries: 0 },
+} satisfies Record<string, RequestPolicy>;
+
+// One limiter and breaker for every module that talks to Flow.bid
+const RATE_LIMIT_PER_SECOND = Number(process.env.FLOW_BID_RATE_LIMIT) || 10;
+const limiter = createTokenBucket(RATE_LIMIT_PER_SECOND * 2, RATE_LIMIT_PER_SECOND);
+const breaker = createCircuitBreaker("Flow.bid API", 5, 15_000);
+
+async function fetchJson<T>(path: string, policy: RequestPolicy, init?: RequestInit): Promise<T> {
+  return requestJson<T>(
+    `${BASE_URL}${path}`,
+    {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...init?.headers,
+      },
+    },
+    { policy, limiter, breaker, errorPrefix: "Flow.bid API error" }
+  );
+}
+
+export interface ApiHealth {
+  circuit: CircuitState;
+  rateLimitPerSecond: number;
+  tokensAvailable: number;
+}
+
+export function getApiHealth(): ApiHealth {
+  return {
+    circuit: breaker.getState(),
+    rateLimitPerSecond: RATE_LIMIT_PER_SECOND,
+    tokensAvailable: limiter.available(),
+  };
+}
+
+// --- Errors ---
+
+/** The API answered, but not in the shape this client understands */
+export class ApiShapeError extends Error {
+  constructor(
+    readonly endpoint: string,
+    readonly problems: string[]
+  ) {
+    super(`Flow.bid API response from ${endpoint} has an unexpected shape: ${problems.slice(0, 5).join("; ")}`);
+    this.name = "ApiShapeError";
+  }
+}
+
+/** JSON.stringify replacer for models with bigint fields (serialized as decimal strings) */
+export function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+// --- Response validation ---
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? value.slice(0, 40) + "…" : value);
+  return typeof value;
+}
+
+/** API encodes "no value" as missing, null, "" or "None" */
+function isAbsent(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || value === "None";
+}
+
+/**
+ * Typed field accessors over one raw response object. Each accessor
+ * normalizes the value (numeric strings → number/bigint) and records a
+ * problem instead of throwing, so one error lists every drifted field.
+ */
+function fieldReader(raw: unknown, path: string, problems: string[]) {
+  const isObject = raw !== null && typeof raw === "object" && !Array.isArray(raw);
+  if (!isObject) problems.push(`${path}: expected object, got ${describe(raw)}`);
+  const obj = (isObject ? raw : {}) as Record<string, unknown>;
+
+  const fail = <T>(field: string, expected: string, fallback: T): T => {
+    problems.push(`${path}.${field}: expected ${expected}, got ${describe(obj[field])}`);
+    return fallback;
+  };
+
+  const toBigInt = (value: unknown): bigint | undefined => {
+    if (typeof value === "bigint") return value;
+    if (typeof value === "number" && Number.isSafeInteger(value)) return BigInt(value);
+    if (typeof value === "string" && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+    return undefined;
+  };
+
+  const toInt = (value: unknown): number | undefined => {
+    if (typeof value === "number" && Number.isInteger(value)) return value;
+    if (typeof value === "string" && /^-?\d+$/.test(value.trim())) return parseInt(value, 10);
+    return undefined;
+  };
+
+  return {
+    raw: obj,
+
+    string(field: string): string {
+      const v = obj[field];
+      return typeof v === "string" ? v : fail(field, "string", "");
+    },
+
+    optString(field: string): string | null {
+      const v = obj[field];
+      if (isAbsent(v)) return null;
+      return typeof v === "string" ? v : fail(field, "string", null);
+    },
+
+    int(field: string): number {
+      return toInt(obj[field]) ?? fail(field, "integer", 0);
     },
+
+    optInt(field: string): number | null {
+      if (isAbsent(obj[field])) return null;
+      return toInt(obj[field]) ?? fail(field, "integer", null);
+    },
+
+    /** Integer amount or Q96 price; required */
+    bigint(field: string): bigint {
+      return toBigInt(obj[field]) ?? fail(field, "integer string", 0n);
+    },
+
+    /** Integer amount or Q96 price; absent (and zero, when zeroIsAbsent) → null */
+    optBigint(field: string, zeroIsAbsent = false): bigint | null {
+      if (isAbsent(obj[field])) return null;
+      const v = toBigInt(obj[field]);
+      if (v === undefined) return fail(field, "integer string", null);
+      return zeroIsAbsent && v === 0n ? null : v;
+    },
+
+    optBoolean(field: string): boolean {
+      const v = obj[field];
+      if (isAbsent(v)) return false;
+      return typeof v === "boolean" ? v : fail(field, "boolean", false);
+    },
+
+    /** List of strings; absent → empty */
+    optStringList(field: string): string[] {
+      const v = obj[field];
+      if (isAbsent(v)) return [];
+      return Array.isArray(v) && v.every((item) => typeof item === "string") ? v : fail(field, "string array", []);
+    },
+  };
+}
+
+type FieldReader = ReturnType<typeof fieldReader>;
+
+/** Parse one object; throws ApiShapeError listing every problem */
+function parseOne<T>(endpoint: string, raw: unknown, parse: (r: FieldReader) => T): T {
+  const problems: string[] = [];
+  const result = parse(fieldReader(raw, "response", problems));
+  if (problems.length > 0) throw new ApiShapeError(endpoint, problems);
+  return result;
+}
+
+/**
+ * Parse `raw[key]` as a list. Malformed items are dropped with a warning;
+ * if every item is malformed the API shape has drifted and we throw.
+ */
+function parseList<T>(endpoint: string, raw: unknown, key: string, parse: (r: FieldReader) => T): T[] {
+  const items = raw !== null && typeof raw === "object" ? (raw as Record<string, unknown>)[key] : undefined;
+  if (!Array.isArray(items)) {
+    throw new ApiShapeError(endpoint, [`response.${key}: expected array, got ${describe(items)}`]);
+  }
+
+  const parsed: T[] = [];
+  const rejected: string[] = [];
+  items.forEach((item, i) => {
+    const problems: string[] = [];
+    const result = parse(fieldReader(item, `${key}[${i}]`, problems));
+    if (problems.length === 0) parsed.push(result);
+    else rejected.push(...problems);
   });
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Flow.bid API error ${res.status}: ${body}`);
+
+  if (items.length > 0 && parsed.length === 0) throw new ApiShapeError(endpoint, rejected);
+  if (rejected.length > 0) {
+    console.warn(`[api] ${endpoint}: dropped ${items.length - parsed.length} malformed item(s): ${rejected[0]}`);
   }
-  return res.json() as Promise<T>;
+  return parsed;
+}
+
+// --- Models ---
+
+/**
+ * Auction economics shared by the launch list and the auction detail
+ * endpoint. Prices are Q96 fixed-point; amounts are raw integer units
+ * (token decimals for supply, 6 decimals for USDC).
+ */
+export interface AuctionFields {
+  startBlock: number;
+  endBlock: number | null;
+  claimBlock: number | null;
+  /** Q96 floor price, 0n when unknown */
+  floorPrice: bigint;
+  /** Q96 clearing price, null until a bid clears */
+  clearingPrice: bigint | null;
+  tokenDecimals: number;
+  totalSupply: bigint;
+  auctionAmount: bigint;
+  requiredCurrencyRaised: bigint;
+  currencyRaised: bigint;
+}
+
+export interface AuctionInfo extends AuctionFields {
+  auctionAddress: string | null;
+  tokenSymbol: string | null;
+  tokenName: string | null;
+}
+
+export interface Launch extends AuctionFields {
+  auction: string;
+  token: string;
+  tokenName: string;
+  tokenSymbol: string;
+  isGraduated: boolean;
+  deployer: string | null;
+}
+
+export interface AuctionBid {
+  owner: string | null;
+  /** Q96 max price */
+  maxPrice: bigint;
+  /** Raw USDC amount (6 decimals) */
+  amountBid: bigint;
+  submittedAtBlock: number | null;
 }
 
-// --- Types ---
+export interface UserBid {
+  auction: string;
+  bidId: string;
+  /** Q96 max price, null when the API omits it */
+  maxPrice: bigint | null;
+  amountBid: bigint;
+  isFilled: boolean;
+  hasClaimedTokens: boolean;
+  hasExited: boolean;
+}
 
+export interface CurrentBlock {
+  blockNumber: number;
+  timestamp: number;
+}
+
+/**
+ * Safety assessment. Advisory: the verdict and warnings are shown before a
+ * bid, by `auction safety` and by `info`; other fields pass through as-is.
+ */
 export interface SafetyResponse {
   [key: string]: unknown;
+  /** Overall verdict as the API words it; null when it gives none */
+  riskLevel: string | null;
+  /** Human-readable findings, empty when there are none */
+  warnings: string[];
 }
 
 export interface BuildBidTxParams {
@@ -30,107 +279,197 @@ export interface BuildBidTxParams {
   maxFdvUsd: number;
   amount: number;
   currencyPriceUsd?: number;
+  /**
+   * Highest FDV the bid may move up to when maxFdvUsd aligns at or below the
+   * reference price (default maxFdvUsd). Strategies pass the user's max here,
+   * since their maxFdvUsd is only the current attempt's target. Not sent to the API.
+   */
+  capFdvUsd?: number;
+}
+
+export interface TxStep {
+  to: string;
+  data: string;
+  value: bigint;
+  description: string | null;
 }
 
 export interface BuildBidTxResult {
-  steps?: Array<{
-    to: string;
-    data: string;
-    value?: string;
-    gasLimit?: string;
-  }>;
-  transactions?: Array<{
-    to: string;
-    data: string;
-    value?: string;
-    step?: number;
-    description?: string;
-  }>;
+  /** Transactions to send in order (approve, then bid). The API has returned these as `steps` and as `transactions`. */
+  steps: TxStep[];
   params: {
     maxFdvUsd: number;
     currencyPriceUsd: number;
-    maxPriceQ96Aligned: string;
+    maxPriceQ96Aligned: bigint;
     amount: number;
-    amountRaw: string;
+    amountRaw: bigint;
     currencyAddress: string;
   };
 }
 
-export interface AuctionInfo {
-  auctionAddress: string;
-  startBlock: number;
-  [key: string]: unknown;
+// --- Parsers ---
+// Known fields are normalized; unknown fields from the API are kept so
+// pass-through routes keep serving everything the UI reads.
+
+function auctionFields(r: FieldReader): AuctionFields {
+  return {
+    startBlock: r.int("startBlock"),
+    endBlock: r.optInt("endBlock"),
+    claimBlock: r.optInt("claimBlock"),
+    floorPrice: r.optBigint("floorPrice") ?? 0n,
+    clearingPrice: r.optBigint("clearingPrice", true),
+    tokenDecimals: r.optInt("tokenDecimals") ?? 18,
+    totalSupply: r.optBigint("totalSupply") ?? 0n,
+    auctionAmount: r.optBigint("auctionAmount") ?? 0n,
+    requiredCurrencyRaised: r.optBigint("requiredCurrencyRaised") ?? 0n,
+    currencyRaised: r.optBigint("currencyRaised") ?? 0n,
+  };
 }
 
-export interface AuctionBid {
-  [key: string]: unknown;
+function parseAuctionInfo(r: FieldReader): AuctionInfo {
+  return {
+    ...r.raw,
+    ...auctionFields(r),
+    auctionAddress: r.optString("auctionAddress"),
+    tokenSymbol: r.optString("tokenSymbol"),
+    tokenName: r.optString("tokenName"),
+  };
 }
 
-export interface CurrentBlock {
-  blockNumber: number;
-  timestamp: number;
-  [key: string]: unknown;
+function parseLaunch(r: FieldReader): Launch {
+  return {
+    ...r.raw,
+    ...auctionFields(r),
+    auction: r.string("auction"),
+    token: r.string("token"),
+    tokenName: r.string("tokenName"),
+    tokenSymbol: r.string("tokenSymbol"),
+    isGraduated: r.optBoolean("isGraduated"),
+    deployer: r.optString("deployer"),
+  };
 }
 
-export interface UserBid {
-  [key: string]: unknown;
+function parseAuctionBid(r: FieldReader): AuctionBid {
+  return {
+    ...r.raw,
+    owner: r.optString("owner"),
+    maxPrice: r.bigint("maxPrice"),
+    amountBid: r.optBigint("amountBid") ?? 0n,
+    submittedAtBlock: r.optInt("submittedAtBlock"),
+  };
 }
 
-export interface Launch {
-  id: string;
-  auction: string;
-  token: string;
-  tokenName: string;
-  tokenSymbol: string;
-  startBlock: string;
-  endBlock: string;
-  clearingPrice: string | null;
-  requiredCurrencyRaised: string;
-  currencyRaised: string | null;
-  isGraduated: boolean;
-  deployer: string;
-  metadata: string;
-  [key: string]: unknown;
+function parseUserBid(r: FieldReader): UserBid {
+  return {
+    ...r.raw,
+    auction: r.string("auction"),
+    bidId: r.optString("bidId") ?? String(r.optInt("bidId") ?? 0),
+    maxPrice: r.optBigint("maxPrice"),
+    amountBid: r.optBigint("amountBid") ?? 0n,
+    isFilled: r.optBoolean("isFilled"),
+    hasClaimedTokens: r.optBoolean("hasClaimedTokens"),
+    hasExited: r.optBoolean("hasExited"),
+  };
 }
 
-export interface LaunchesResponse {
-  launches: Launch[];
+function parseSafety(r: FieldReader): SafetyResponse {
+  return {
+    ...r.raw,
+    riskLevel: r.optString("riskLevel"),
+    warnings: r.optStringList("warnings"),
+  };
+}
+
+function parseCurrentBlock(r: FieldReader): CurrentBlock {
+  return {
+    ...r.raw,
+    blockNumber: r.int("blockNumber"),
+    timestamp: r.int("timestamp"),
+  };
+}
+
+function parseTxStep(raw: unknown, path: string, problems: string[]): TxStep {
+  const r = fieldReader(raw, path, problems);
+  return {
+    to: r.string("to"),
+    data: r.string("data"),
+    value: r.optBigint("value") ?? 0n,
+    description: r.optString("description"),
+  };
+}
+
+function parseBuildBidTx(r: FieldReader, problems: string[]): BuildBidTxResult {
+  // See AUCTION-NOTES.md: the API renamed `steps` to `transactions` once already
+  const rawSteps = r.raw.steps ?? r.raw.transactions;
+  let steps: TxStep[] = [];
+  if (Array.isArray(rawSteps) && rawSteps.length > 0) {
+    steps = rawSteps.map((step, i) => parseTxStep(step, `steps[${i}]`, problems));
+  } else {
+    problems.push(`response: expected a non-empty "steps" or "transactions" array, got ${describe(rawSteps)}`);
+  }
+
+  const p = fieldReader(r.raw.params, "params", problems);
+  const num = (field: string): number => {
+    const v = p.raw[field];
+    const n = typeof v === "string" ? Number(v) : v;
+    if (typeof n === "number" && Number.isFinite(n)) return n;
+    problems.push(`params.${field}: expected number, got ${describe(v)}`);
+    return 0;
+  };
+
+  return {
+    steps,
+    params: {
+      maxFdvUsd: num("maxFdvUsd"),
+      currencyPriceUsd: num("currencyPriceUsd"),
+      maxPriceQ96Aligned: p.bigint("maxPriceQ96Aligned"),
+      amount: num("amount"),
+      amountRaw: p.bigint("amountRaw"),
+      currencyAddress: p.string("currencyAddress"),
+    },
+  };
 }
 
 // --- API Functions ---
 
 export async function getLaunches(): Promise<Launch[]> {
-  const data = await fetchJson<LaunchesResponse>("/launches");
-  return data.launches;
+  return parseList("/launches", await fetchJson<unknown>("/launches", POLICIES.list), "launches", parseLaunch);
 }
 
 export async function getSafety(auctionAddress: string): Promise<SafetyResponse> {
-  return fetchJson<SafetyResponse>(`/launches/${auctionAddress}/safety`);
+  const endpoint = `/launches/${auctionAddress}/safety`;
+  return parseOne(endpoint, await fetchJson<unknown>(endpoint, POLICIES.list), parseSafety);
 }
 
 export async function buildBidTx(params: BuildBidTxParams): Promise<BuildBidTxResult> {
-  return fetchJson<BuildBidTxResult>("/bids/build-tx", {
+  const { bidder, auctionAddress, maxFdvUsd, amount, currencyPriceUsd } = params;
+  const raw = await fetchJson<unknown>("/bids/build-tx", POLICIES.build, {
     method: "POST",
-    body: JSON.stringify(params),
+    body: JSON.stringify({ bidder, auctionAddress, maxFdvUsd, amount, currencyPriceUsd }),
   });
+  const problems: string[] = [];
+  const result = parseBuildBidTx(fieldReader(raw, "response", problems), problems);
+  if (problems.length > 0) throw new ApiShapeError("/bids/build-tx", problems);
+  return result;
 }
 
 export async function getAuction(auctionAddress: string): Promise<AuctionInfo> {
-  return fetchJson<AuctionInfo>(`/launches/${auctionAddress}`);
+  const endpoint = `/launches/${auctionAddress}`;
+  return parseOne(endpoint, await fetchJson<unknown>(endpoint, POLICIES.auction), parseAuctionInfo);
 }
 
 export async function getAuctionBids(auctionAddress: string): Promise<AuctionBid[]> {
-  const data = await fetchJson<{ bids: AuctionBid[] }>(`/launches/${auctionAddress}/bids`);
-  return data.bids;
+  const endpoint = `/launches/${auctionAddress}/bids`;
+  return parseList(endpoint, await fetchJson<unknown>(endpoint, POLICIES.auction), "bids", parseAuctionBid);
 }
 
 export async function getCurrentBlock(): Promise<CurrentBlock> {
-  return fetchJson<CurrentBlock>("/block/current");
+  return parseOne("/block/current", await fetchJson<unknown>("/block/current", POLICIES.block), parseCurrentBlock);
 }
 
 export async function getUserBids(address: string): Promise<UserBid[]> {
-  const data = await fetchJson<{ bids: UserBid[] }>(`/user/${address}/bids`);
-  return data.bids;
+  const endpoint = `/user/${address}/bids`;
+  return parseList(endpoint, await fetchJson<unknown>(endpoint, POLICIES.list), "bids", parseUserBid);
 }
 
 // --- Launch ---
@@ -145,15 +484,15 @@ export interface BuildLaunchTxParams {
 export interface BuildLaunchTxResult {
   to: string;
   data: string;
-  value: string;
+  value: bigint;
   predictedTokenAddress: string;
   predictedAuctionAddress: string | null;
   feePreference: number;
   auctionTiming: {
-    currentBlock: string;
-    startBlock: string;
-    endBlock: string;
-    claimBlock: string;
+    currentBlock: number;
+    startBlock: number;
+    endBlock: number;
+    claimBlock: number;
   };
 }
 
@@ -170,7 +509,7 @@ export interface BuildClaimTxResult {
     description: string;
     to: string;
     data: string;
-    value: string;
+    value: bigint;
   };
   params: {
     auctionAddress: string;
@@ -181,16 +520,57 @@ export interface BuildClaimTxResult {
   note?: string;
 }
 
+function parseClaimTx(r: FieldReader, problems: string[]): BuildClaimTxResult {
+  const tx = parseTxStep(r.raw.transaction, "transaction", problems);
+  const p = fieldReader(r.raw.params, "params", problems);
+  return {
+    transaction: { ...tx, description: tx.description ?? "" },
+    params: {
+      auctionAddress: p.string("auctionAddress"),
+      bidId: p.optString("bidId") ?? String(p.optInt("bidId") ?? 0),
+      claimMethod: p.string("claimMethod"),
+      isGraduated: p.optBoolean("isGraduated"),
+    },
+    note: r.optString("note") ?? undefined,
+  };
+}
+
+function parseLaunchTx(r: FieldReader, problems: string[]): BuildLaunchTxResult {
+  const timing = fieldReader(r.raw.auctionTiming, "auctionTiming", problems);
+  return {
+    to: r.string("to"),
+    data: r.string("data"),
+    value: r.optBigint("value") ?? 0n,
+    predictedTokenAddress: r.string("predictedTokenAddress"),
+    predictedAuctionAddress: r.optString("predictedAuctionAddress"),
+    feePreference: r.optInt("feePreference") ?? 0,
+    auctionTiming: {
+      currentBlock: timing.int("currentBlock"),
+      startBlock: timing.int("startBlock"),
+      endBlock: timing.int("endBlock"),
+      claimBlock: timing.int("claimBlock"),
+    },
+  };
+}
+
 export async function buildClaimTx(params: BuildClaimTxParams): Promise<BuildClaimTxResult> {
-  return fetchJson<BuildClaimTxResult>("/claims/build-tx", {
+  const raw = await fetchJson<unknown>("/claims/build-tx", POLICIES.build, {
     method: "POST",
     body: JSON.stringify(params),
   });
+  const problems: string[] = [];
+  const result = parseClaimTx(fieldReader(raw, "response", problems), problems);
+  if (problems.length > 0) throw new ApiShapeError("/claims/build-tx", problems);
+  return result;
 }
 
 export async function buildLaunchTx(params: BuildLaunchTxParams): Promise<BuildLaunchTxResult> {
-  return fetchJson<BuildLaunchTxResult>("/launches/build-tx", {
+  const raw = await fetchJson<unknown>("/launches/build-tx", POLICIES.build, {
     method: "POST",
     body: JSON.stringify(params),
   });
+  const problems: string[] = [];
+  const result = parseLaunchTx(fieldReader(raw, "response", problems), problems);
+  if (problems.length > 0) throw new ApiShapeError("/launches/build-tx", problems);
+  return result;
 }
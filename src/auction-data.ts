@@ -0,0 +1,327 @@
+import * as api from "./api.js";
+import type { AuctionBid, AuctionInfo, CurrentBlock, Launch } from "./api.js";
+import { HttpStatusError } from "./http.js";
+import { mergeAuctionState, readAuctionState, readCurrentBlock } from "./onchain.js";
+
+// ─── Shared auction data: coalesced, per-block cached reads with subscriptions ───
+//
+// Every in-process consumer (web UI routes, strategies, bid jobs, readiness and
+// graduation monitors) reads auction data through here. Concurrent reads of the
+// same resource share one request, auction reads are cached until the block
+// advances, and long-lived consumers subscribe to a single shared poller per
+// auction instead of running their own loops. When the Flow.bid API is down,
+// the current block and auction state are read from chain instead.
+
+const BLOCK_TTL_MS = 1_000; // Half a Base block — keeps block lag under one block
+const LAUNCHES_TTL_MS = 30_000; // The launch list is heavy and changes slowly
+const AUCTION_FEED_INTERVAL_MS = 2_000; // Match Base block time
+const LAUNCHES_FEED_INTERVAL_MS = 60_000;
+const ENTRY_MAX_AGE_MS = 5 * 60_000; // Drop entries nobody has read for a while
+
+interface CacheEntry<T> {
+  value: T;
+  /** Block the value was fetched at; null for time-based entries */
+  block: number | null;
+  fetchedAt: number;
+}
+
+const cache = new Map<string, CacheEntry<unknown>>();
+const inflight = new Map<string, Promise<unknown>>();
+const stats = { hits: 0, misses: 0, coalesced: 0, chainFallbacks: 0 };
+// Last auction read from the API, kept past cache expiry for the economics the chain lacks
+const lastApiAuction = new Map<string, AuctionInfo>();
+let apiDownSince: number | null = null;
+
+export interface AuctionDataStats {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  chainFallbacks: number;
+  /** When reads started falling back to chain, null while the API is healthy */
+  apiDownSince: number | null;
+  cachedEntries: number;
+  auctionFeeds: number;
+  subscribers: number;
+}
+
+export function getAuctionDataStats(): AuctionDataStats {
+  let subscribers = launchListeners.size;
+  for (const feed of feeds.values()) subscribers += feed.subscribers.size;
+  return {
+    ...stats,
+    apiDownSince,
+    cachedEntries: cache.size,
+    auctionFeeds: feeds.size,
+    subscribers,
+  };
+}
+
+// ─── Coalescing & caching ───
+
+/** Share one in-flight request between every caller asking for the same key */
+function coalesce<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  const pending = inflight.get(key);
+  if (pending) {
+    stats.coalesced++;
+    return pending as Promise<T>;
+  }
+  stats.misses++;
+  const request = fetcher().finally(() => inflight.delete(key));
+  inflight.set(key, request);
+  return request;
+}
+
+function store<T>(key: string, value: T, block: number | null): T {
+  const now = Date.now();
+  for (const [k, entry] of cache) {
+    if (now - entry.fetchedAt > ENTRY_MAX_AGE_MS) cache.delete(k);
+  }
+  cache.set(key, { value, block, fetchedAt: now });
+  return value;
+}
+
+function lookup<T>(key: string, fresh: (entry: CacheEntry<unknown>) => boolean): T | undefined {
+  const entry = cache.get(key);
+  if (entry && fresh(entry)) {
+    stats.hits++;
+    return entry.value as T;
+  }
+  return undefined;
+}
+
+/** Cached until the chain moves past the block the value was read at */
+async function perBlock<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+  let blockNumber: number | null;
+  try {
+    blockNumber = (await getCurrentBlock()).blockNumber;
+  } catch {
+    // Without a block number there's no way to tell if the entry is stale
+    blockNumber = null;
+  }
+
+  if (blockNumber !== null) {
+    const hit = lookup<T>(key, (e) => e.block !== null && e.block >= blockNumber!);
+    if (hit !== undefined) return hit;
+  }
+  return coalesce(key, async () => store(key, await fetcher(), blockNumber));
+}
+
+// ─── Chain fallback ───
+
+/** A 4xx means the API is up and rejected the request — reading chain won't help */
+function isApiOutage(err: unknown): boolean {
+  return !(err instanceof HttpStatusError && !err.retryable);
+}
+
+async function withChainFallback<T>(what: string, fromApi: () => Promise<T>, fromChain: () => Promise<T>): Promise<T> {
+  let apiErr: Error;
+  try {
+    const value = await fromApi();
+    if (apiDownSince !== null) {
+      console.log(`[auction-data] Flow.bid API recovered after ${Math.round((Date.now() - apiDownSince) / 1000)}s`);
+      apiDownSince = null;
+    }
+    return value;
+  } catch (err: any) {
+    if (!isApiOutage(err)) throw err;
+    apiErr = err;
+  }
+
+  if (apiDownSince === null) {
+    apiDownSince = Date.now();
+    console.error(`[auction-data] Flow.bid API unavailable (${apiErr.message}) — falling back to on-chain reads`);
+  }
+  stats.chainFallbacks++;
+  try {
+    return await fromChain();
+  } catch (chainErr: any) {
+    throw new Error(`${what} unavailable: API: ${apiErr.message}; chain: ${chainErr.shortMessage ?? chainErr.message}`);
+  }
+}
+
+// ─── Reads (drop-in replacements for the api.ts getters) ───
+
+export async function getCurrentBlock(): Promise<CurrentBlock> {
+  const hit = lookup<CurrentBlock>("block", (e) => Date.now() - e.fetchedAt < BLOCK_TTL_MS);
+  if (hit) return hit;
+  return coalesce("block", async () => {
+    const block = await withChainFallback("Current block", api.getCurrentBlock, readCurrentBlock);
+    return store("block", block, block.blockNumber);
+  });
+}
+
+export function getAuction(auctionAddress: string): Promise<AuctionInfo> {
+  const addr = auctionAddress.toLowerCase();
+  return perBlock(`auction:${addr}`, () =>
+    withChainFallback(
+      "Auction state",
+      async () => {
+        const info = await api.getAuction(auctionAddress);
+        lastApiAuction.set(addr, info);
+        return info;
+      },
+      async () => mergeAuctionState(await readAuctionState(auctionAddress), lastApiAuction.get(addr) ?? null)
+    )
+  );
+}
+
+export function getAuctionBids(auctionAddress: string): Promise<AuctionBid[]> {
+  const addr = auctionAddress.toLowerCase();
+  return perBlock(`bids:${addr}`, () => api.getAuctionBids(auctionAddress));
+}
+
+export async function getLaunches(): Promise<Launch[]> {
+  const hit = lookup<Launch[]>("launches", (e) => Date.now() - e.fetchedAt < LAUNCHES_TTL_MS);
+  if (hit) return hit;
+  return coalesce("launches", async () => store("launches", await api.getLaunches(), null));
+}
+
+// ─── Auction feeds ───
+
+export interface AuctionSnapshot {
+  block: CurrentBlock;
+  auction: AuctionInfo;
+  /** Only fetched while at least one subscriber asked for bids */
+  bids: AuctionBid[] | null;
+}
+
+export type AuctionListener = (snapshot: AuctionSnapshot) => void | Promise<void>;
+
+interface AuctionSubscriber {
+  listener: AuctionListener;
+  withBids: boolean;
+}
+
+interface AuctionFeed {
+  auctionAddress: string;
+  subscribers: Set<AuctionSubscriber>;
+  timer: ReturnType<typeof setInterval>;
+  last: AuctionSnapshot | null;
+  polling: boolean;
+  failing: boolean;
+}
+
+const feeds = new Map<string, AuctionFeed>();
+
+/**
+ * Receive a snapshot of the auction once per new block. All subscribers of
+ * an auction share one poller, which stops when the last one unsubscribes.
+ * Returns the unsubscribe function.
+ */
+export function subscribeAuction(
+  auctionAddress: string,
+  listener: AuctionListener,
+  options: { withBids?: boolean } = {}
+): () => void {
+  const key = auctionAddress.toLowerCase();
+  const subscriber: AuctionSubscriber = { listener, withBids: options.withBids ?? false };
+
+  let feed = feeds.get(key);
+  if (!feed) {
+    const created: AuctionFeed = {
+      auctionAddress,
+      subscribers: new Set(),
+      timer: setInterval(() => pollFeed(created), AUCTION_FEED_INTERVAL_MS),
+      last: null,
+      polling: false,
+      failing: false,
+    };
+    feeds.set(key, created);
+    feed = created;
+    setImmediate(() => pollFeed(created));
+  } else if (feed.last && (feed.last.bids || !subscriber.withBids)) {
+    // Late joiners get the current snapshot instead of waiting a block
+    const snapshot = feed.last;
+    setImmediate(() => notify(feed!, subscriber, snapshot));
+  }
+  feed.subscribers.add(subscriber);
+
+  return () => {
+    const current = feeds.get(key);
+    if (!current) return;
+    current.subscribers.delete(subscriber);
+    if (current.subscribers.size === 0) {
+      clearInterval(current.timer);
+      feeds.delete(key);
+    }
+  };
+}
+
+async function pollFeed(feed: AuctionFeed): Promise<void> {
+  if (feed.polling || feed.subscribers.size === 0) return;
+  feed.polling = true;
+  try {
+    const block = await getCurrentBlock();
+    if (feed.last && block.blockNumber <= feed.last.block.blockNumber) return;
+
+    const withBids = [...feed.subscribers].some((s) => s.withBids);
+    const [auction, bids] = await Promise.all([
+      getAuction(feed.auctionAddress),
+      withBids ? getAuctionBids(feed.auctionAddress) : Promise.resolve(null),
+    ]);
+    if (feed.failing) console.log(`[auction-data:${feed.auctionAddress.slice(0, 8)}] Feed recovered`);
+    feed.failing = false;
+
+    const snapshot: AuctionSnapshot = { block, auction, bids };
+    feed.last = snapshot;
+    for (const subscriber of feed.subscribers) notify(feed, subscriber, snapshot);
+  } catch (err: any) {
+    // Log once per outage; the next tick retries
+    if (!feed.failing) console.error(`[auction-data:${feed.auctionAddress.slice(0, 8)}] Feed error: ${err.message}`);
+    feed.failing = true;
+  } finally {
+    feed.polling = false;
+  }
+}
+
+function notify(feed: AuctionFeed, subscriber: AuctionSubscriber, snapshot: AuctionSnapshot): void {
+  if (!feed.subscribers.has(subscriber)) return;
+  Promise.resolve()
+    .then(() => subscriber.listener(snapshot))
+    .catch((err: any) => {
+      console.error(`[auction-data:${feed.auctionAddress.slice(0, 8)}] Subscriber error: ${err.message}`);
+    });
+}
+
+// ─── Launch feed ───
+
+export type LaunchesListener = (launches: Launch[]) => void | Promise<void>;
+
+const launchListeners = new Set<LaunchesListener>();
+let launchTimer: ReturnType<typeof setInterval> | null = null;
+let launchPolling = false;
+
+/** Receive the launch list every minute through one shared poller */
+export function subscribeLaunches(listener: LaunchesListener): () => void {
+  launchListeners.add(listener);
+  if (!launchTimer) {
+    launchTimer = setInterval(pollLaunches, LAUNCHES_FEED_INTERVAL_MS);
+  }
+
+  return () => {
+    launchListeners.delete(listener);
+    if (launchListeners.size === 0 && launchTimer) {
+      clearInterval(launchTimer);
+      launchTimer = null;
+    }
+  };
+}
+
+async function pollLaunches(): Promise<void> {
+  if (launchPolling) return;
+  launchPolling = true;
+  try {
+    const launches = await getLaunches();
+    for (const listener of launchListeners) {
+      try {
+        await listener(launches);
+      } catch (err: any) {
+        console.error(`[auction-data] Launch subscriber error: ${err.message}`);
+      }
+    }
+  } catch {
+    // Transient error, try again next poll
+  } finally {
+    launchPolling = false;
+  }
+}
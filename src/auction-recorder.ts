@@ -0,0 +1,251 @@
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { fileURLToPath } from "url";
+import { jsonReplacer, type AuctionBid, type AuctionInfo, type CurrentBlock } from "./api.js";
+import { getCurrentBlock, subscribeAuction, type AuctionSnapshot } from "./auction-data.js";
+import { readBidConfig } from "./onchain.js";
+import { getStrategies } from "./strategy.js";
+
+// ─── Auction recorder ───
+//
+// Writes one line per block of auction state to
+// data/recordings/<auction>-<first block>.jsonl while an auction runs. The
+// first line is a header. Each block line carries the auction info, and the
+// full bid book only when it changed since the line before; the loader
+// carries the last book forward. Recordings feed the replay harness in
+// replay.ts, which re-runs bid strategies against them.
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+export const RECORDINGS_DIR = path.join(__dirname, "..", "data", "recordings");
+
+const AUTO_RECORD_INTERVAL_MS = 30_000;
+
+export interface RecordingHeader {
+  type: "header";
+  /** 1: every line has the bid book; 2: only lines where it changed */
+  version: 1 | 2;
+  auctionAddress: string;
+  /** Q96 tick spacing, so replayed bids align like real ones; null when the read failed */
+  tickSpacing: string | null;
+  recordedAt: number;
+}
+
+export interface RecordedBlock {
+  type: "block";
+  block: CurrentBlock;
+  auction: AuctionInfo;
+  bids: AuctionBid[] | null;
+}
+
+export interface Recording {
+  file: string;
+  header: RecordingHeader;
+  /** In block order */
+  blocks: RecordedBlock[];
+}
+
+export interface ActiveRecording {
+  auctionAddress: string;
+  file: string;
+  startedAt: number;
+  blocks: number;
+  lastBlock: number | null;
+  endBlock: number | null;
+}
+
+export interface RecordingFile {
+  file: string;
+  bytes: number;
+  modifiedAt: number;
+}
+
+// Keyed by lowercased auction address; lastBook is the bid book last written, serialized
+const active = new Map<string, { info: ActiveRecording; unsubscribe: () => void; lastBook: string | null }>();
+// Auctions whose recording ran to the end — the auto-recorder leaves them alone
+const finished = new Set<string>();
+
+// ─── Public API ───
+
+export function getActiveRecordings(): ActiveRecording[] {
+  return Array.from(active.values()).map((r) => r.info);
+}
+
+/**
+ * Start recording an auction. Stops by itself one block after the end block,
+ * so the last line carries the final clearing price. Safe to call repeatedly.
+ */
+export async function startRecording(auctionAddress: string): Promise<ActiveRecording> {
+  const key = auctionAddress.toLowerCase();
+  const existing = active.get(key);
+  if (existing) return existing.info;
+
+  const [block, tickSpacing] = await Promise.all([
+    getCurrentBlock(),
+    readBidConfig(auctionAddress)
+      .then((c) => c.tickSpacing.toString())
+      .catch(() => null),
+  ]);
+
+  fs.mkdirSync(RECORDINGS_DIR, { recursive: true });
+  const file = path.join(RECORDINGS_DIR, `${key}-${block.blockNumber}.jsonl`);
+  const header: RecordingHeader = { type: "header", version: 2, auctionAddress, tickSpacing, recordedAt: Date.now() };
+  fs.writeFileSync(file, JSON.stringify(header) + "\n");
+
+  const info: ActiveRecording = {
+    auctionAddress,
+    file,
+    startedAt: Date.now(),
+    blocks: 0,
+    lastBlock: null,
+    endBlock: null,
+  };
+  const unsubscribe = subscribeAuction(auctionAddress, (snapshot) => record(key, snapshot), { withBids: true });
+  active.set(key, { info, unsubscribe, lastBook: null });
+  console.log(`[recorder:${auctionAddress.slice(0, 8)}] Recording to ${path.basename(file)}`);
+  return info;
+}
+
+export function stopRecording(auctionAddress: string): ActiveRecording | null {
+  const key = auctionAddress.toLowerCase();
+  const recording = active.get(key);
+  if (!recording) return null;
+  recording.unsubscribe();
+  active.delete(key);
+  console.log(
+    `[recorder:${auctionAddress.slice(0, 8)}] Stopped after ${recording.info.blocks} blocks (${path.basename(recording.info.file)})`
+  );
+  return recording.info;
+}
+
+/** Recording files on disk, newest first */
+export function listRecordingFiles(): RecordingFile[] {
+  if (!fs.existsSync(RECORDINGS_DIR)) return [];
+  return fs
+    .readdirSync(RECORDINGS_DIR)
+    .filter((name) => name.endsWith(".jsonl"))
+    .map((name) => {
+      const stat = fs.statSync(path.join(RECORDINGS_DIR, name));
+      return { file: name, bytes: stat.size, modifiedAt: stat.mtimeMs };
+    })
+    .sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+/**
+ * Load a recording by path, or by file name inside the recordings directory.
+ * Reads line by line, so a long auction never sits in memory as one string.
+ */
+export async function loadRecording(file: string): Promise<Recording> {
+  const resolved = fs.existsSync(file) ? file : path.join(RECORDINGS_DIR, file);
+  if (!fs.existsSync(resolved)) throw new Error(`Recording not found: ${file}`);
+  const name = path.basename(resolved);
+
+  const lines = readline.createInterface({ input: fs.createReadStream(resolved, "utf-8"), crlfDelay: Infinity });
+  let header: RecordingHeader | null = null;
+  const blocks: RecordedBlock[] = [];
+  let bids: AuctionBid[] | null = null;
+  let lineNo = 0;
+  let torn: number | null = null;
+  try {
+    for await (const line of lines) {
+      lineNo++;
+      if (!line) continue;
+      if (!header) {
+        const parsed = JSON.parse(line) as RecordingHeader | null;
+        if (parsed?.type !== "header" || (parsed.version !== 1 && parsed.version !== 2)) {
+          throw new Error(`${name} is not an auction recording`);
+        }
+        header = parsed;
+        continue;
+      }
+      // A crash mid-write leaves a torn last line; anything else is corruption
+      if (torn !== null) throw new Error(`${name}: unreadable line ${torn}`);
+      try {
+        const block = reviveBlock(JSON.parse(line), bids);
+        bids = block.bids;
+        blocks.push(block);
+      } catch {
+        torn = lineNo;
+      }
+    }
+  } catch (err) {
+    if (err instanceof SyntaxError) throw new Error(`${name} is not an auction recording`);
+    throw err;
+  } finally {
+    lines.close();
+  }
+  if (!header) throw new Error(`${name} is not an auction recording`);
+  if (blocks.length === 0) throw new Error(`${name} has no recorded blocks`);
+  blocks.sort((a, b) => a.block.blockNumber - b.block.blockNumber);
+  return { file: resolved, header, blocks };
+}
+
+/**
+ * Record every auction a bid strategy is running on (RECORD_AUCTIONS=1),
+ * checking for new strategies every 30s.
+ */
+export function startAutoRecorder(): void {
+  console.log("[recorder] Auto-recording auctions with active strategies");
+  const sweep = () => {
+    for (const s of getStrategies()) {
+      if (s.status !== "waiting" && s.status !== "watching" && s.status !== "bidding") continue;
+      const key = s.auctionAddress.toLowerCase();
+      if (active.has(key) || finished.has(key)) continue;
+      startRecording(s.auctionAddress).catch((err: any) =>
+        console.error(`[recorder:${s.auctionAddress.slice(0, 8)}] Could not start: ${err.message}`)
+      );
+    }
+  };
+  sweep();
+  setInterval(sweep, AUTO_RECORD_INTERVAL_MS);
+}
+
+// ─── Internals ───
+
+function record(key: string, snapshot: AuctionSnapshot): void {
+  const recording = active.get(key);
+  if (!recording) return;
+  const { info } = recording;
+
+  // Most blocks bring no new bids — leave the book out unless it changed
+  const book = JSON.stringify(snapshot.bids, jsonReplacer);
+  const line: Partial<RecordedBlock> = { type: "block", block: snapshot.block, auction: snapshot.auction };
+  if (book !== recording.lastBook) {
+    line.bids = snapshot.bids;
+    recording.lastBook = book;
+  }
+  fs.appendFileSync(info.file, JSON.stringify(line, jsonReplacer) + "\n");
+  info.blocks++;
+  info.lastBlock = snapshot.block.blockNumber;
+  info.endBlock = snapshot.auction.endBlock;
+
+  if (info.endBlock !== null && snapshot.block.blockNumber > info.endBlock) {
+    finished.add(key);
+    stopRecording(info.auctionAddress);
+  }
+}
+
+/** A line without a bids field kept the previous line's book */
+function reviveBlock(raw: any, previousBids: AuctionBid[] | null): RecordedBlock {
+  if (raw?.type !== "block") throw new Error("Not a block line");
+  const a = raw.auction;
+  return {
+    type: "block",
+    block: raw.block,
+    auction: {
+      ...a,
+      floorPrice: BigInt(a.floorPrice),
+      clearingPrice: a.clearingPrice === null ? null : BigInt(a.clearingPrice),
+      totalSupply: BigInt(a.totalSupply),
+      auctionAmount: BigInt(a.auctionAmount),
+      requiredCurrencyRaised: BigInt(a.requiredCurrencyRaised),
+      currencyRaised: BigInt(a.currencyRaised),
+    },
+    bids: !("bids" in raw)
+      ? previousBids
+      : raw.bids === null
+      ? null
+      : raw.bids.map((b: any) => ({ ...b, maxPrice: BigInt(b.maxPrice), amountBid: BigInt(b.amountBid) })),
+  };
+}
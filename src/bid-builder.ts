@@ -0,0 +1,224 @@
+import { encodeFunctionData, erc20Abi, getAddress, parseUnits, type Address } from "viem";
+import { getPublicClient, USDC_BASE } from "./config.js";
+import type { AuctionFields, BuildBidTxParams, BuildBidTxResult, TxStep } from "./api.js";
+import { CCA_AUCTION_ABI, readBidConfig } from "./onchain.js";
+
+// ─── Local bid transaction builder ───
+//
+// Encodes approve + submitBid against the auction contract directly, so a
+// bid never depends on /bids/build-tx. Prices are aligned to the auction's
+// tick grid here, and a price that lands on or below the reference price
+// moves up exactly one tick instead of re-quoting a higher FDV — unless that
+// tick is worth more than the caller's cap (capFdvUsd, else maxFdvUsd), in
+// which case the bid is refused.
+
+const USDC_DECIMALS = 6;
+
+// ─── Q96 ↔ FDV ───
+
+/**
+ * Convert a Q96 price to implied FDV in USD.
+ *
+ * The Q96 clearing/floor prices are linearly proportional to token price.
+ * We derive the conversion factor from the floor price and the minimum raise:
+ *   floor_FDV = (requiredCurrencyRaised / auctionAmount) * totalSupply
+ *   implied_FDV = clearingPrice * (floor_FDV / floorPrice)
+ */
+export function q96ToFdv(q96Price: bigint, auction: AuctionFields): number {
+  const { floorPrice, requiredCurrencyRaised, auctionAmount, totalSupply, tokenDecimals } = auction;
+  if (floorPrice <= 0n) return 0;
+  if (auctionAmount <= 0n || totalSupply <= 0n || requiredCurrencyRaised <= 0n) return 0;
+
+  const currencyDecimals = USDC_DECIMALS;
+
+  // Convert to human-readable units
+  const requiredRaisedHuman = Number(requiredCurrencyRaised) / 10 ** currencyDecimals;
+  const auctionAmountHuman = Number(auctionAmount) / 10 ** tokenDecimals;
+  const totalSupplyHuman = Number(totalSupply) / 10 ** tokenDecimals;
+
+  const floorFdv = (requiredRaisedHuman / auctionAmountHuman) * totalSupplyHuman;
+  return Number(q96Price) * (floorFdv / Number(floorPrice));
+}
+
+/**
+ * Inverse of q96ToFdv, in integer math so the result is exact to the wei:
+ *   q96 = fdv * floorPrice / floor_FDV
+ *       = fdv_micro * floorPrice * auctionAmount / (requiredCurrencyRaised * totalSupply)
+ * (token decimals cancel out). Rounds down, like the contract's tick alignment.
+ */
+export function fdvToQ96(fdvUsd: number, auction: AuctionFields): bigint {
+  const { floorPrice, requiredCurrencyRaised, auctionAmount, totalSupply } = auction;
+  if (floorPrice <= 0n || auctionAmount <= 0n || totalSupply <= 0n || requiredCurrencyRaised <= 0n) {
+    throw new Error("Auction economics unknown — cannot convert FDV to a Q96 price");
+  }
+  if (!Number.isFinite(fdvUsd) || fdvUsd <= 0) throw new Error(`Invalid FDV: ${fdvUsd}`);
+
+  const fdvMicro = BigInt(Math.round(fdvUsd * 10 ** USDC_DECIMALS));
+  return (fdvMicro * floorPrice * auctionAmount) / (requiredCurrencyRaised * totalSupply);
+}
+
+// ─── Tick grid ───
+
+/** Highest valid tick at or below the price */
+export function alignToTick(q96Price: bigint, tickSpacing: bigint): bigint {
+  return (q96Price / tickSpacing) * tickSpacing;
+}
+
+/** Lowest valid tick strictly above the price */
+export function nextTickAbove(q96Price: bigint, tickSpacing: bigint): bigint {
+  return alignToTick(q96Price, tickSpacing) + tickSpacing;
+}
+
+// ─── Building ───
+
+/** The lowest biddable tick is worth more than the max FDV the caller allowed */
+export class BidAboveMaxFdvError extends Error {
+  constructor(
+    readonly maxFdvUsd: number,
+    readonly requiredFdvUsd: number,
+    readonly requiredPriceQ96: bigint
+  ) {
+    super(
+      `Lowest biddable tick is at $${requiredFdvUsd.toLocaleString()} FDV, above the max of $${maxFdvUsd.toLocaleString()} — bid refused`
+    );
+    this.name = "BidAboveMaxFdvError";
+  }
+}
+
+/** Price the bid had to beat: the clearing price, or the floor before the first clear */
+export function bidReferencePrice(auction: AuctionFields): bigint {
+  return auction.clearingPrice && auction.clearingPrice > auction.floorPrice ? auction.clearingPrice : auction.floorPrice;
+}
+
+export interface TickPrice {
+  maxPriceQ96: bigint;
+  bumpedToTick: boolean;
+  referencePrice: bigint;
+}
+
+/**
+ * Tick price for a bid at `maxFdvUsd`: aligned down to the grid, or one tick
+ * above the reference when that lands at or below it. Shared by the live
+ * builder and replay so both refuse the same bids.
+ */
+export function priceBidTick(
+  maxFdvUsd: number,
+  capFdvUsd: number,
+  auction: AuctionFields,
+  tickSpacing: bigint,
+  currencyPriceUsd = 1
+): TickPrice {
+  const referencePrice = bidReferencePrice(auction);
+  let maxPriceQ96 = alignToTick(fdvToQ96(maxFdvUsd / currencyPriceUsd, auction), tickSpacing);
+  const bumpedToTick = maxPriceQ96 <= referencePrice;
+  if (bumpedToTick) {
+    maxPriceQ96 = nextTickAbove(referencePrice, tickSpacing);
+    const bumpedFdv = Math.round(q96ToFdv(maxPriceQ96, auction) * currencyPriceUsd);
+    if (bumpedFdv > capFdvUsd) throw new BidAboveMaxFdvError(capFdvUsd, bumpedFdv, maxPriceQ96);
+  }
+  return { maxPriceQ96, bumpedToTick, referencePrice };
+}
+
+export interface LocalBidBuild extends BuildBidTxResult {
+  /** Requested price aligned to a tick at or below the reference, so it was moved one tick above it */
+  bumpedToTick: boolean;
+  /** Price the bid had to beat: the clearing price, or the floor before the first clear */
+  referencePrice: bigint;
+  tickSpacing: bigint;
+}
+
+/**
+ * Build approve (when the allowance is short) and submitBid transactions.
+ * The FDV reported in params.maxFdvUsd is the FDV of the aligned tick,
+ * which can differ slightly from the requested one. It is only above it
+ * when the bid moved up a tick, and never above capFdvUsd (default maxFdvUsd).
+ * Throws BidAboveMaxFdvError when only a tick above the cap would bid.
+ */
+export async function buildBidLocally(params: BuildBidTxParams, auction: AuctionFields): Promise<LocalBidBuild> {
+  const auctionAddress = getAddress(params.auctionAddress);
+  const bidder = getAddress(params.bidder);
+  const { tickSpacing, currency } = await readBidConfig(auctionAddress);
+  if (currency.toLowerCase() !== USDC_BASE.toLowerCase()) {
+    // FDV math assumes a USDC-denominated auction
+    throw new Error(`Auction currency ${currency} is not USDC`);
+  }
+
+  const currencyPriceUsd = params.currencyPriceUsd ?? 1;
+  const { maxPriceQ96, bumpedToTick, referencePrice } = priceBidTick(
+    params.maxFdvUsd,
+    params.capFdvUsd ?? params.maxFdvUsd,
+    auction,
+    tickSpacing,
+    currencyPriceUsd
+  );
+
+  const amountRaw = parseUnits(String(params.amount), USDC_DECIMALS);
+  const steps: TxStep[] = [];
+
+  const allowance = await getPublicClient().readContract({
+    address: currency,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [bidder, auctionAddress],
+  });
+  if (allowance < amountRaw) {
+    steps.push({
+      to: currency,
+      data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [auctionAddress, amountRaw] }),
+      value: 0n,
+      description: `Approve ${params.amount} USDC`,
+    });
+  }
+
+  steps.push({
+    to: auctionAddress,
+    data: encodeFunctionData({
+      abi: CCA_AUCTION_ABI,
+      functionName: "submitBid",
+      args: [maxPriceQ96, amountRaw, bidder, "0x"],
+    }),
+    value: 0n,
+    description: `Bid ${params.amount} USDC`,
+  });
+
+  return {
+    steps,
+    params: {
+      maxFdvUsd: Math.round(q96ToFdv(maxPriceQ96, auction) * currencyPriceUsd),
+      currencyPriceUsd,
+      maxPriceQ96Aligned: maxPriceQ96,
+      amount: params.amount,
+      amountRaw,
+      currencyAddress: currency as Address,
+    },
+    bumpedToTick,
+    referencePrice,
+    tickSpacing,
+  };
+}
+
+// ─── Cross-check ───
+
+/**
+ * Compare a local build with the remote builder's answer for the same FDV.
+ * Returns a description of the difference, or null when they agree to
+ * within one tick (the remote builder may round the other way).
+ */
+export function compareWithRemote(local: LocalBidBuild, remote: BuildBidTxResult): string | null {
+  const problems: string[] = [];
+  const gap = local.params.maxPriceQ96Aligned - remote.params.maxPriceQ96Aligned;
+  if ((gap < 0n ? -gap : gap) > local.tickSpacing) {
+    problems.push(`Q96 local ${local.params.maxPriceQ96Aligned} vs remote ${remote.params.maxPriceQ96Aligned}`);
+  }
+  if (local.params.amountRaw !== remote.params.amountRaw) {
+    problems.push(`amount local ${local.params.amountRaw} vs remote ${remote.params.amountRaw}`);
+  }
+  if (local.params.currencyAddress.toLowerCase() !== remote.params.currencyAddress.toLowerCase()) {
+    problems.push(`currency local ${local.params.currencyAddress} vs remote ${remote.params.currencyAddress}`);
+  }
+  const remoteBid = remote.steps[remote.steps.length - 1];
+  if (remoteBid && remoteBid.to.toLowerCase() !== local.steps[local.steps.length - 1].to.toLowerCase()) {
+    problems.push(`bid target local ${local.steps[local.steps.length - 1].to} vs remote ${remoteBid.to}`);
+  }
+  return problems.length > 0 ? problems.join("; ") : null;
+}
@@ -0,0 +1,206 @@
+import { subscribeAuction } from "./auction-data.js";
+import { submitBid } from "./bid.js";
+import { releaseAllowance, requestAllowance } from "./allowances.js";
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+import { validateShape } from "./storage/validate.js";
+
+/**
+ * Durable armed-bid jobs. Each job waits for its auction's start block and
+ * then submits a single bid. Jobs are persisted, so a restart re-creates the
+ * start-block watcher instead of leaving an armed bid that never fires.
+ */
+export interface BidJob {
+  auctionAddress: string;
+  bidder: string;
+  maxFdvUsd: number;
+  amount: number;
+  status: "armed" | "submitting" | "succeeded" | "failed" | "cancelled";
+  startBlock: number | null;
+  createdAt: number;
+  settledAt: number | null;
+  txHashes: string[];
+  actualFdv: number | null;
+  error: string | null;
+}
+
+export type BidJobListener = (job: BidJob) => void;
+
+// One job per auction, keyed by auction address (re-arming replaces it)
+const jobs = new Map<string, BidJob>();
+const unsubscribers = new Map<string, () => void>();
+let settledListener: BidJobListener | null = null;
+
+registerCollector(() => ({
+  section: "Bid Jobs",
+  data: Array.from(jobs.values()),
+  key: (j: BidJob) => j.auctionAddress,
+}));
+
+registerSchema("Bid Jobs", {
+  migrations: [],
+  validate: (record) =>
+    validateShape(record, {
+      auctionAddress: "string",
+      bidder: "string",
+      maxFdvUsd: "number",
+      amount: "number",
+      status: ["armed", "submitting", "succeeded", "failed", "cancelled"],
+      startBlock: "number?",
+      createdAt: "number",
+      settledAt: "number?",
+      txHashes: "array",
+      actualFdv: "number?",
+      error: "string?",
+    }),
+});
+
+// ─── Public API ───
+
+export function getBidJobs(): BidJob[] {
+  return Array.from(jobs.values());
+}
+
+export function getBidJob(auctionAddress: string): BidJob | undefined {
+  return jobs.get(auctionAddress);
+}
+
+export function isJobActive(job: BidJob): boolean {
+  return job.status === "armed" || job.status === "submitting";
+}
+
+/** Called once per job when it reaches a terminal status */
+export function onBidJobSettled(listener: BidJobListener): void {
+  settledListener = listener;
+}
+
+/** Arm a bid for auction start, replacing any earlier job for the same auction */
+export function armBidJob(params: {
+  auctionAddress: string;
+  bidder: string;
+  maxFdvUsd: number;
+  amount: number;
+}): BidJob {
+  const existing = jobs.get(params.auctionAddress);
+  if (existing?.status === "submitting") {
+    throw new Error("A bid for this auction is already being submitted");
+  }
+  stopWatcher(params.auctionAddress);
+
+  const job: BidJob = {
+    ...params,
+    status: "armed",
+    startBlock: null,
+    createdAt: Date.now(),
+    settledAt: null,
+    txHashes: [],
+    actualFdv: null,
+    error: null,
+  };
+  jobs.set(job.auctionAddress, job);
+  markDirty();
+  console.log(`[bid-jobs:${job.auctionAddress.slice(0, 8)}] Armed ${job.amount} USDC @ $${job.maxFdvUsd} FDV`);
+
+  requestAllowance(job.auctionAddress, "bid-job", job.amount);
+  startWatcher(job);
+  return job;
+}
+
+/** Cancel an armed job. A job already submitting can't be recalled. */
+export function cancelBidJob(auctionAddress: string): boolean {
+  const job = jobs.get(auctionAddress);
+  if (!job || job.status !== "armed") return false;
+  stopWatcher(auctionAddress);
+  settle(job, "cancelled", {});
+  return true;
+}
+
+/** Restore jobs from persisted state */
+export function setBidJobs(states: BidJob[]): void {
+  for (const j of states) {
+    jobs.set(j.auctionAddress, j);
+  }
+}
+
+/** Re-create start-block watchers for jobs that were armed when the server stopped */
+export function resumeBidJobs(): void {
+  for (const job of jobs.values()) {
+    if (job.status === "armed") {
+      console.log(`[bid-jobs:${job.auctionAddress.slice(0, 8)}] Resuming armed bid`);
+      startWatcher(job);
+    } else if (job.status === "submitting") {
+      // The bid may or may not have landed — never resubmit blindly
+      settle(job, "failed", {
+        error: "Interrupted by restart during submission — check your bids before re-arming",
+      });
+    }
+  }
+}
+
+// ─── Watcher ───
+
+function startWatcher(job: BidJob): void {
+  const unsubscribe = subscribeAuction(job.auctionAddress, async ({ auction, block }) => {
+    if (job.status !== "armed") return;
+
+    if (job.startBlock === null) {
+      if (!auction.startBlock) {
+        stopWatcher(job.auctionAddress);
+        settle(job, "failed", { error: "Auction has no startBlock defined" });
+        return;
+      }
+      job.startBlock = auction.startBlock;
+      markDirty();
+    }
+
+    if (block.blockNumber < job.startBlock) return;
+
+    stopWatcher(job.auctionAddress);
+    await fire(job);
+  });
+
+  unsubscribers.set(job.auctionAddress, unsubscribe);
+}
+
+function stopWatcher(auctionAddress: string): void {
+  const unsubscribe = unsubscribers.get(auctionAddress);
+  if (unsubscribe) {
+    unsubscribe();
+    unsubscribers.delete(auctionAddress);
+  }
+}
+
+async function fire(job: BidJob): Promise<void> {
+  if (job.status !== "armed") return;
+  job.status = "submitting";
+  markDirty();
+  console.log(`[bid-jobs:${job.auctionAddress.slice(0, 8)}] Start block ${job.startBlock} reached — submitting bid`);
+
+  try {
+    const result = await submitBid({
+      bidder: job.bidder,
+      auctionAddress: job.auctionAddress,
+      maxFdvUsd: job.maxFdvUsd,
+      amount: job.amount,
+    });
+    settle(job, "succeeded", { txHashes: result.txHashes, actualFdv: result.actualFdv });
+  } catch (err: any) {
+    settle(job, "failed", { error: err.message || String(err) });
+  }
+}
+
+function settle(
+  job: BidJob,
+  status: "succeeded" | "failed" | "cancelled",
+  outcome: { txHashes?: string[]; actualFdv?: number; error?: string }
+): void {
+  job.status = status;
+  job.settledAt = Date.now();
+  if (outcome.txHashes) job.txHashes = outcome.txHashes;
+  if (outcome.actualFdv !== undefined) job.actualFdv = outcome.actualFdv;
+  if (outcome.error !== undefined) job.error = outcome.error;
+  releaseAllowance(job.auctionAddress, "bid-job");
+  markDirty();
+
+  console.log(`[bid-jobs:${job.auctionAddress.slice(0, 8)}] ${status}${job.error ? `: ${job.error}` : ""}`);
+  settledListener?.(job);
+}
@@ -0,0 +1,183 @@
+// ─── Bid pricing policies for the bidding phase of runStrategy ───
+
+export type PricingPolicyName = "fixed-premium" | "trend" | "max-willingness";
+
+export const PRICING_POLICIES: readonly PricingPolicyName[] = ["fixed-premium", "trend", "max-willingness"];
+
+export interface PricingConfig {
+  policy: PricingPolicyName;
+  /** Premium over the predicted clearing FDV, as a fraction (0.15 = 15%) */
+  premium?: number;
+}
+
+/** One bid from the auction's bid book, converted to USD */
+export interface BookBid {
+  fdv: number;
+  amountUsd: number;
+}
+
+export interface PricingContext {
+  impliedFdv: number;
+  fdvHistory: number[];
+  totalBids: number;
+  blocksLeft: number;
+  minFdvUsd: number;
+  maxFdvUsd: number;
+  bidBook: BookBid[];
+  /** Fraction of total supply sold in the auction (auctionAmount / totalSupply), 0 if unknown */
+  supplyShare: number;
+}
+
+export interface PriceQuote {
+  targetFdv: number;
+  predictedFdv: number;
+  reason: string;
+}
+
+const DEFAULT_PREMIUM: Record<PricingPolicyName, number> = {
+  "fixed-premium": 0.15,
+  trend: 0.05,
+  "max-willingness": 0,
+};
+
+// fdvHistory is sampled once per watching poll (10s ≈ 5 Base blocks)
+const BLOCKS_PER_OBSERVATION = 5;
+// Below this many bids the book is too thin to infer a clearing price from
+const MIN_BOOK_BIDS = 3;
+
+const ALIASES: Record<string, PricingPolicyName> = {
+  fixed: "fixed-premium",
+  "fixed-premium": "fixed-premium",
+  trend: "trend",
+  max: "max-willingness",
+  "max-willingness": "max-willingness",
+};
+
+/**
+ * Parse a pricing spec like "trend", "fixed:20" or "max".
+ * The optional number after ":" is the premium in percent.
+ */
+export function parsePricing(input: string): PricingConfig {
+  const [name, premiumStr] = input.trim().toLowerCase().split(":");
+  const policy = ALIASES[name];
+  if (!policy) {
+    throw new Error(`Unknown pricing policy "${name}" — use fixed[:pct], trend[:pct] or max`);
+  }
+  if (premiumStr === undefined) return { policy };
+
+  const pct = Number(premiumStr);
+  if (!Number.isFinite(pct) || pct < 0 || pct > 500) {
+    throw new Error(`Invalid premium "${premiumStr}" — expected a percentage between 0 and 500`);
+  }
+  return { policy, premium: pct / 100 };
+}
+
+export function describePricing(config: PricingConfig | undefined): string {
+  const { policy, premium } = config ?? { policy: "fixed-premium" };
+  const pct = Math.round((premium ?? DEFAULT_PREMIUM[policy]) * 100);
+  return policy === "max-willingness" ? policy : `${policy} +${pct}%`;
+}
+
+export function priceBid(config: PricingConfig | undefined, ctx: PricingContext): PriceQuote {
+  const policy = config?.policy ?? "fixed-premium";
+  const premium = config?.premium ?? DEFAULT_PREMIUM[policy];
+
+  switch (policy) {
+    case "fixed-premium":
+      return fixedPremium(ctx, premium);
+    case "trend":
+      return trendExtrapolation(ctx, premium);
+    case "max-willingness":
+      return maxWillingness(ctx);
+  }
+}
+
+// ─── Policies ───
+
+/** Original behaviour: a fixed premium over the current clearing FDV */
+function fixedPremium(ctx: PricingContext, premium: number): PriceQuote {
+  if (ctx.impliedFdv > 0) {
+    return {
+      targetFdv: Math.min(Math.ceil(ctx.impliedFdv * (1 + premium)), ctx.maxFdvUsd),
+      predictedFdv: ctx.impliedFdv,
+      reason: `clearing +${Math.round(premium * 100)}%`,
+    };
+  }
+  // No clearing data — bid at floor + 5% buffer
+  return {
+    targetFdv: Math.ceil(ctx.minFdvUsd * 1.05),
+    predictedFdv: 0,
+    reason: "no clearing data, floor +5%",
+  };
+}
+
+/** Predict the final clearing FDV from the trend and the bid book, then add a small premium */
+function trendExtrapolation(ctx: PricingContext, premium: number): PriceQuote {
+  const predicted = predictClearingFdv(ctx);
+  if (predicted <= 0) return fixedPremium(ctx, DEFAULT_PREMIUM["fixed-premium"]);
+
+  const target = Math.max(Math.ceil(predicted * (1 + premium)), Math.ceil(ctx.minFdvUsd * 1.05));
+  return {
+    targetFdv: Math.min(target, ctx.maxFdvUsd),
+    predictedFdv: Math.round(predicted),
+    reason: `predicted clearing $${Math.round(predicted)} +${Math.round(premium * 100)}%`,
+  };
+}
+
+/**
+ * Bid our full willingness to pay. Clearing auctions charge every winner the
+ * clearing price, so bidding the true max never costs more than bidding lower.
+ */
+function maxWillingness(ctx: PricingContext): PriceQuote {
+  return {
+    targetFdv: ctx.maxFdvUsd,
+    predictedFdv: Math.round(predictClearingFdv(ctx)),
+    reason: "max willingness",
+  };
+}
+
+// ─── Prediction ───
+
+/** Best estimate of the final clearing FDV: the highest of current, trend and bid-book signals */
+export function predictClearingFdv(ctx: PricingContext): number {
+  return Math.max(ctx.impliedFdv, extrapolateTrend(ctx.fdvHistory, ctx.blocksLeft), bookClearingFdv(ctx));
+}
+
+/** Least-squares slope over fdvHistory, projected forward to the auction end (rising trends only) */
+function extrapolateTrend(history: number[], blocksLeft: number): number {
+  const points = history.filter((v) => v > 0);
+  if (points.length < 3) return 0;
+
+  const n = points.length;
+  const meanX = (n - 1) / 2;
+  const meanY = points.reduce((a, b) => a + b, 0) / n;
+  let num = 0;
+  let den = 0;
+  points.forEach((y, x) => {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) ** 2;
+  });
+  const slope = num / den;
+  const last = points[n - 1];
+  if (slope <= 0) return last;
+
+  return last + slope * (blocksLeft / BLOCKS_PER_OBSERVATION);
+}
+
+/**
+ * Clearing FDV implied by the bid book: the highest FDV at which the demand
+ * from bids at or above it buys the whole auction supply.
+ */
+function bookClearingFdv(ctx: PricingContext): number {
+  if (ctx.supplyShare <= 0 || ctx.totalBids < MIN_BOOK_BIDS || ctx.bidBook.length < MIN_BOOK_BIDS) return 0;
+
+  const bids = [...ctx.bidBook].filter((b) => b.fdv > 0 && b.amountUsd > 0).sort((a, b) => b.fdv - a.fdv);
+  let demandUsd = 0;
+  let best = 0;
+  for (const bid of bids) {
+    demandUsd += bid.amountUsd;
+    // Demand D at FDV F buys D / F of total supply, so it fills the auction while F <= D / supplyShare
+    best = Math.max(best, Math.min(bid.fdv, demandUsd / ctx.supplyShare));
+  }
+  return best;
+}
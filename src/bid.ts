@@ -1,117 +1,173 @@
-import { type Hash } from "viem";
-import { getPublicClient, getWalletClient, getAccount } from "./config.js";
-import { buildBidTx, getAuction, getSafety, type BuildBidTxParams } from "./api.js";
+import { type Address, type Hash, type Hex } from "viem";
+import { getPublicClient, getAccount, isPaperMode } from "./config.js";
+import {
+  buildBidTx,
+  getSafety,
+  type AuctionInfo,
+  type BuildBidTxParams,
+  type BuildBidTxResult,
+  type TxStep,
+} from "./api.js";
+import { getAuction } from "./auction-data.js";
+import { BidAboveMaxFdvError, buildBidLocally, compareWithRemote, type LocalBidBuild } from "./bid-builder.js";
+import { sendTx, waitForTx, type SentTx, type Urgency } from "./tx-manager.js";
+import { AuctionEndedError, BidBelowClearingPriceError, decodeRevert } from "./reverts.js";
 import { baseScanTxUrl } from "./utils.js";
+import { recordPaperBid } from "./paper.js";
 
-interface BidResult {
+export interface BidResult {
   txHashes: Hash[];
   links: string[];
   actualFdv: number;
+  maxPriceQ96: string;
 }
 
-export async function submitBid(params: BuildBidTxParams): Promise<BidResult> {
+// The bid can't be gas-estimated while its approve is still pending
+const PIPELINED_BID_GAS = 1_000_000n;
+
+/**
+ * Build, simulate and send a bid. Approve and bid go out back to back on
+ * consecutive nonces instead of waiting for the approve to mine first.
+ */
+export async function submitBid(params: BuildBidTxParams, options: { urgency?: Urgency } = {}): Promise<BidResult> {
+  const urgency = options.urgency ?? "high";
   // Run safety check first
   console.log("Running safety check...");
   const safety = await getSafety(params.auctionAddress);
-  console.log("Safety assessment:", JSON.stringify(safety, null, 2));
+  console.log(`Safety assessment: ${safety.riskLevel ?? "no verdict"}`);
+  for (const warning of safety.warnings) console.log(`  ⚠ ${warning}`);
 
-  // Fetch auction info to get floor price for Q96 alignment check
+  // Fetch auction info for the Q96 conversion and the price the bid must beat
   const auctionInfo = await getAuction(params.auctionAddress);
-  const floorPrice = (auctionInfo as any).floorPrice || "0";
-  const clearingPrice = (auctionInfo as any).clearingPrice || "0";
-  const referencePrice = clearingPrice !== "0" && clearingPrice !== "None" ? clearingPrice : floorPrice;
-
-  // Build transactions — retry with higher FDV if Q96 aligns to floor/clearing
-  let bidFdv = params.maxFdvUsd;
-  let result = await buildBidTx({ ...params, maxFdvUsd: bidFdv });
-  const MAX_ALIGNMENT_RETRIES = 5;
-
-  for (let attempt = 0; attempt < MAX_ALIGNMENT_RETRIES; attempt++) {
-    const aligned = result.params.maxPriceQ96Aligned;
-    console.log(`  Q96 aligned: ${aligned}, floor: ${floorPrice}, clearing: ${clearingPrice}`);
-
-    if (BigInt(aligned) > BigInt(referencePrice)) {
-      break; // Q96 is strictly above — good to go
-    }
-
-    // Q96 rounded down to floor/clearing — bump FDV and rebuild
-    bidFdv = Math.ceil(bidFdv * 1.15);
-    console.log(`  Q96 ${aligned} <= reference ${referencePrice} — bumping FDV to $${bidFdv} and rebuilding`);
-    result = await buildBidTx({ ...params, maxFdvUsd: bidFdv });
-  }
+  const result = await buildBid(params, auctionInfo);
+  const bidFdv = result.params.maxFdvUsd;
 
-  const steps = result.steps || (result as any).transactions || [];
+  const steps = result.steps;
 
   console.log(`\nBid parameters:`);
-  console.log(`  Max FDV:  $${bidFdv}${bidFdv !== params.maxFdvUsd ? ` (bumped from $${params.maxFdvUsd})` : ""}`);
+  console.log(`  Max FDV:  $${bidFdv}${bidFdv !== params.maxFdvUsd ? ` (tick-aligned from $${params.maxFdvUsd})` : ""}`);
   console.log(`  Amount:   ${params.amount} USDC`);
   console.log(`  Auction:  ${params.auctionAddress}`);
   console.log(`  Currency: ${result.params.currencyAddress}`);
   console.log(`  Q96:      ${result.params.maxPriceQ96Aligned}`);
   console.log(`  Steps:    ${steps.length} transaction(s)`);
 
-  const walletClient = getWalletClient();
-  const publicClient = getPublicClient();
-  const account = getAccount();
-  const txHashes: Hash[] = [];
-  const links: string[] = [];
+  if (isPaperMode()) {
+    // Same checks as a live bid, then escrow the USDC in the virtual ledger
+    await simulateBid(steps[steps.length - 1]);
+    const paper = recordPaperBid({
+      auctionAddress: params.auctionAddress,
+      amount: params.amount,
+      maxPriceQ96: result.params.maxPriceQ96Aligned,
+      maxFdvUsd: bidFdv,
+    });
+    console.log(`\nPaper bid recorded (nothing broadcast): ${paper.id}`);
+    return { txHashes: [paper.id as Hash], links: [], actualFdv: bidFdv, maxPriceQ96: paper.maxPriceQ96 };
+  }
 
-  // Submit transactions sequentially
+  const sent: SentTx[] = [];
+
+  // Broadcast every step without waiting in between — the nonces keep them in order
   for (let i = 0; i < steps.length; i++) {
     const step = steps[i];
     const isLastStep = i === steps.length - 1;
     console.log(`\nSubmitting transaction ${i + 1}/${steps.length}${isLastStep ? " (bid)" : " (approve)"}...`);
 
     // Simulate the bid tx (last step) before sending — catches reverts without wasting gas
-    // Only block on auction-level errors; allowance errors are expected race conditions
-    // since the approve tx was just confirmed and RPC may not reflect it yet
-    if (isLastStep && steps.length > 1) {
-      try {
-        await publicClient.call({
-          to: step.to as `0x${string}`,
-          data: step.data as `0x${string}`,
-          value: step.value ? BigInt(step.value) : 0n,
-          account: account.address,
-        });
-        console.log("  Simulation passed");
-      } catch (simErr: any) {
-        const simMsg = simErr.message || String(simErr);
-        if (simMsg.includes("0x5f259e52") || simMsg.includes("BidMustBeAboveClearingPrice")) {
-          throw new Error("BidMustBeAboveClearingPrice — simulation rejected bid (Q96 price still too low)");
-        }
-        if (simMsg.includes("0xa0e92984") || simMsg.includes("AuctionEnded")) {
-          throw new Error("AuctionEnded — auction is no longer accepting bids");
-        }
-        // Allowance/balance errors after a fresh approve are RPC race conditions — proceed anyway
-        console.log(`  Simulation warning (proceeding): ${simMsg.slice(0, 150)}`);
-      }
-    }
+    if (isLastStep) await simulateBid(step);
+
+    const tx = await sendTx({
+      to: step.to as Address,
+      data: step.data as Hex,
+      value: step.value,
+      gas: isLastStep && steps.length > 1 ? PIPELINED_BID_GAS : undefined,
+      urgency,
+      label: isLastStep ? "bid" : "approve",
+    });
+    console.log(`  TX hash: ${tx.hash}`);
+    console.log(`  ${baseScanTxUrl(tx.hash)}`);
+    sent.push(tx);
+  }
+
+  console.log("  Waiting for confirmation...");
+  const receipts = await Promise.all(sent.map((tx) => waitForTx(tx)));
+  // A replacement may have mined instead of the original hash
+  const txHashes = receipts.map((r) => r.transactionHash);
+  const links = txHashes.map(baseScanTxUrl);
+  console.log(`  Confirmed in block ${receipts[receipts.length - 1].blockNumber}`);
 
-    const hash = await walletClient.sendTransaction({
+  console.log("\nBid submitted successfully!");
+  return { txHashes, links, actualFdv: bidFdv, maxPriceQ96: result.params.maxPriceQ96Aligned.toString() };
+}
+
+/**
+ * Simulate the bid step. Only auction-level errors block the bid; allowance
+ * errors are expected when the approve tx is still pending (or, in paper
+ * mode, was never sent).
+ */
+async function simulateBid(step: TxStep): Promise<void> {
+  try {
+    await getPublicClient().call({
       to: step.to as `0x${string}`,
       data: step.data as `0x${string}`,
-      value: step.value ? BigInt(step.value) : 0n,
-      account,
-      chain: walletClient.chain,
-      gas: 1_000_000n,
+      value: step.value,
+      account: getAccount().address,
     });
+    console.log("  Simulation passed");
+  } catch (simErr: any) {
+    const revert = decodeRevert(simErr, "bid simulation");
+    if (revert instanceof BidBelowClearingPriceError || revert instanceof AuctionEndedError) {
+      throw revert;
+    }
+    const simMsg = revert?.message ?? (simErr.message || String(simErr));
+    console.log(`  Simulation warning (proceeding): ${simMsg.slice(0, 150)}`);
+  }
+}
 
-    console.log(`  TX hash: ${hash}`);
-    console.log(`  ${baseScanTxUrl(hash)}`);
+/**
+ * Encode the bid locally; the remote builder is only a cross-check, run in
+ * the background so it never delays submission. If the local build fails
+ * (e.g. token economics unknown during an API outage, or a non-USDC auction)
+ * the remote builder is used instead.
+ */
+async function buildBid(params: BuildBidTxParams, auctionInfo: AuctionInfo): Promise<BuildBidTxResult> {
+  let local: LocalBidBuild;
+  try {
+    local = await buildBidLocally(params, auctionInfo);
+  } catch (err: any) {
+    // A refusal on price is final; the remote builder would only bid the same tick
+    if (err instanceof BidAboveMaxFdvError) throw err;
+    console.log(`  Local build unavailable (${err.message}) — using remote builder`);
+    return buildRemotely(params, auctionInfo);
+  }
 
-    // Wait for confirmation before submitting next tx
-    console.log("  Waiting for confirmation...");
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  console.log(
+    `  Q96 aligned: ${local.params.maxPriceQ96Aligned}, tick: ${local.tickSpacing}, reference: ${local.referencePrice}` +
+      (local.bumpedToTick ? " (moved up one tick above reference)" : "")
+  );
+
+  buildBidTx({ ...params, maxFdvUsd: local.params.maxFdvUsd })
+    .then((remote) => {
+      const mismatch = compareWithRemote(local, remote);
+      if (mismatch) console.error(`[bid] Local and remote bid builds disagree: ${mismatch}`);
+    })
+    .catch((err) => {
+      console.log(`[bid] Remote build cross-check skipped: ${err.message}`);
+    });
 
-    if (receipt.status === "reverted") {
-      throw new Error(`Transaction ${i + 1} reverted: ${hash}`);
-    }
+  return local;
+}
 
-    console.log(`  Confirmed in block ${receipt.blockNumber}`);
-    txHashes.push(hash);
-    links.push(baseScanTxUrl(hash));
-  }
+async function buildRemotely(params: BuildBidTxParams, auctionInfo: AuctionInfo): Promise<BuildBidTxResult> {
+  const { floorPrice, clearingPrice } = auctionInfo;
+  const referencePrice = clearingPrice && clearingPrice > floorPrice ? clearingPrice : floorPrice;
 
-  console.log("\nBid submitted successfully!");
-  return { txHashes, links, actualFdv: bidFdv };
+  const result = await buildBidTx(params);
+  const aligned = result.params.maxPriceQ96Aligned;
+  if (aligned <= referencePrice) {
+    throw new Error(
+      `Q96 ${aligned} aligns at or below reference ${referencePrice} — raise the max FDV above $${params.maxFdvUsd}`
+    );
+  }
+  return result;
 }
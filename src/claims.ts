@@ -0,0 +1,304 @@
+import { buildClaimTx, getUserBids, type AuctionFields, type UserBid } from "./api.js";
+import { getAuction, getCurrentBlock } from "./auction-data.js";
+import { getAccount, isPaperMode } from "./config.js";
+import { claimPaperBids, getPaperUserBids } from "./paper.js";
+import { sendAndConfirm } from "./tx-manager.js";
+import { sendTelegramMessage } from "./notify.js";
+import { recordLedgerEntry } from "./ledger.js";
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+import { validateShape } from "./storage/validate.js";
+
+const SWEEP_INTERVAL_MS = 60_000;
+const MAX_ATTEMPTS = 3;
+// The API can lag a mined claim; don't resend the same bid inside this window
+const RESEND_COOLDOWN_MS = 5 * 60_000;
+
+/**
+ * Claims sent for our bids, manual or automatic. Once an auction passes its
+ * claim block the auto-claimer claims tokens from graduated auctions and
+ * exits bids on failed ones for a refund. The graduation monitor claims on
+ * demand, so tokens reach the exit strategy without a manual `claim`.
+ */
+export interface ClaimRecord {
+  auctionAddress: string;
+  bidId: string;
+  /** claimed = tokens claimed, exited = bid exited for a USDC refund */
+  status: "claiming" | "claimed" | "exited" | "failed";
+  method: string | null;
+  graduated: boolean | null;
+  txHash: string | null;
+  attempts: number;
+  auto: boolean;
+  error: string | null;
+  updatedAt: number;
+}
+
+export interface ClaimOutcome {
+  /** Claims sent (or settled in the paper ledger) by this call */
+  claimed: ClaimRecord[];
+  errors: Array<{ auction: string; error: string }>;
+  /** Unclaimed bids remain that can't be claimed yet (claim block not reached) */
+  waiting: boolean;
+}
+
+// Keyed by "<lowercased auction>:<bidId>"
+const claims = new Map<string, ClaimRecord>();
+// One claim pass at a time per auction
+const inFlight = new Map<string, Promise<ClaimOutcome>>();
+let autoClaimEnabled = false;
+
+registerCollector(() => ({
+  section: "Claims",
+  data: Array.from(claims.values()),
+  key: (c: ClaimRecord) => claimKey(c.auctionAddress, c.bidId),
+}));
+
+registerSchema("Claims", {
+  migrations: [],
+  validate: (record) =>
+    validateShape(record, {
+      auctionAddress: "string",
+      bidId: "string",
+      status: ["claiming", "claimed", "exited", "failed"],
+      method: "string?",
+      graduated: "boolean?",
+      txHash: "string?",
+      attempts: "number",
+      auto: "boolean",
+      error: "string?",
+      updatedAt: "number",
+    }),
+});
+
+// ─── Public API ───
+
+export function getClaims(): ClaimRecord[] {
+  return Array.from(claims.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/** Restore from persisted state */
+export function setClaims(records: ClaimRecord[]): void {
+  for (const c of records) {
+    // A claim cut off by a restart may or may not have landed; the API will tell on the next pass
+    if (c.status === "claiming") c.status = "failed";
+    claims.set(claimKey(c.auctionAddress, c.bidId), c);
+  }
+}
+
+export function isAutoClaimEnabled(): boolean {
+  return autoClaimEnabled;
+}
+
+/**
+ * Claim or exit one bid now, whatever the claim block says — the contract
+ * decides. Exits from auctions that failed to graduate refund the whole bid,
+ * which is recorded in the portfolio ledger.
+ */
+export async function claimBid(
+  auctionAddress: string,
+  bidId: string,
+  options: { auto?: boolean; amountBid?: bigint } = {}
+): Promise<ClaimRecord> {
+  const record = getOrCreate(auctionAddress, bidId, options.auto ?? false);
+  record.status = "claiming";
+  record.attempts++;
+  record.updatedAt = Date.now();
+  markDirty();
+
+  try {
+    const result = await buildClaimTx({ auctionAddress, claimer: getAccount().address, bidId });
+    console.log(`[claims:${auctionAddress.slice(0, 8)}] ${result.transaction.description}`);
+    const receipt = await sendAndConfirm({
+      to: result.transaction.to as `0x${string}`,
+      data: result.transaction.data as `0x${string}`,
+      value: result.transaction.value,
+      label: `claim ${auctionAddress.slice(0, 10)}`,
+    });
+    record.txHash = receipt.transactionHash;
+    record.method = result.params.claimMethod;
+    record.graduated = result.params.isGraduated;
+    record.status = result.params.isGraduated ? "claimed" : "exited";
+    record.error = null;
+    if (record.status === "exited") await recordRefund(record, options.amountBid);
+    return record;
+  } catch (err: any) {
+    record.status = "failed";
+    record.error = (err.shortMessage || err.message || String(err)).slice(0, 200);
+    console.error(`[claims:${auctionAddress.slice(0, 8)}] Claim failed: ${record.error}`);
+    throw err;
+  } finally {
+    record.updatedAt = Date.now();
+    markDirty();
+  }
+}
+
+/**
+ * Claim every unclaimed bid of ours on an auction once its claim block has
+ * passed. Bids that failed MAX_ATTEMPTS times are left for a manual claim.
+ */
+export function claimAuction(auctionAddress: string, auto = true): Promise<ClaimOutcome> {
+  const key = auctionAddress.toLowerCase();
+  const running = inFlight.get(key);
+  if (running) return running;
+  const run = (isPaperMode() ? claimPaperAuction(auctionAddress, auto) : claimLiveAuction(auctionAddress, auto)).finally(() =>
+    inFlight.delete(key)
+  );
+  inFlight.set(key, run);
+  return run;
+}
+
+/** Claim everything claimable on every auction we bid on (AUTO_CLAIM, on by default) */
+export function startAutoClaimer(): void {
+  autoClaimEnabled = true;
+  console.log(`[claims] Auto-claim started (${claims.size} claims on record)`);
+  const sweep = () => {
+    sweepClaims().catch((err) => console.error("[claims] Sweep error:", err.message));
+  };
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS);
+}
+
+// ─── Internals ───
+
+function claimKey(auctionAddress: string, bidId: string): string {
+  return `${auctionAddress.toLowerCase()}:${bidId}`;
+}
+
+function getOrCreate(auctionAddress: string, bidId: string, auto: boolean): ClaimRecord {
+  const key = claimKey(auctionAddress, bidId);
+  let record = claims.get(key);
+  if (!record) {
+    record = {
+      auctionAddress,
+      bidId,
+      status: "claiming",
+      method: null,
+      graduated: null,
+      txHash: null,
+      attempts: 0,
+      auto,
+      error: null,
+      updatedAt: Date.now(),
+    };
+    claims.set(key, record);
+  }
+  return record;
+}
+
+/** Ended without raising the required currency — every bid is refunded */
+export function isFailedAuction(info: AuctionFields, blockNumber?: number): boolean {
+  if (info.endBlock === null || (blockNumber !== undefined && blockNumber < info.endBlock)) return false;
+  return info.requiredCurrencyRaised > 0n && info.currencyRaised < info.requiredCurrencyRaised;
+}
+
+async function recordRefund(record: ClaimRecord, amountBid?: bigint): Promise<void> {
+  try {
+    if (amountBid === undefined) {
+      const bid = (await getUserBids(getAccount().address)).find(
+        (b) => b.auction.toLowerCase() === record.auctionAddress.toLowerCase() && b.bidId === record.bidId
+      );
+      amountBid = bid?.amountBid;
+    }
+    if (amountBid === undefined) throw new Error("bid not found");
+    recordLedgerEntry({
+      kind: "refund",
+      auctionAddress: record.auctionAddress,
+      bidId: record.bidId,
+      usdc: Number(amountBid) / 1e6,
+      txHash: record.txHash,
+      note: record.method,
+    });
+  } catch (err: any) {
+    console.error(`[claims:${record.auctionAddress.slice(0, 8)}] Refund not recorded: ${err.message}`);
+  }
+}
+
+function isUnclaimed(bid: UserBid): boolean {
+  return !bid.hasClaimedTokens && !bid.hasExited;
+}
+
+/** Whether the auto-claimer should (re)send this bid's claim */
+function shouldSend(bid: UserBid): boolean {
+  const record = claims.get(claimKey(bid.auction, bid.bidId));
+  if (!record) return true;
+  if (record.status === "claiming") return false;
+  if (record.status === "failed") return record.attempts < MAX_ATTEMPTS;
+  return Date.now() - record.updatedAt > RESEND_COOLDOWN_MS;
+}
+
+async function claimLiveAuction(auctionAddress: string, auto: boolean): Promise<ClaimOutcome> {
+  const outcome: ClaimOutcome = { claimed: [], errors: [], waiting: false };
+  const auction = auctionAddress.toLowerCase();
+  const unclaimed = (await getUserBids(getAccount().address)).filter(
+    (b) => b.auction.toLowerCase() === auction && isUnclaimed(b)
+  );
+  if (unclaimed.length === 0) return outcome;
+
+  const [info, { blockNumber }] = await Promise.all([getAuction(auctionAddress), getCurrentBlock()]);
+  // A failed auction refunds from the end block; tokens wait for the claim block
+  const claimFrom = isFailedAuction(info) ? info.endBlock : info.claimBlock ?? info.endBlock;
+  if (claimFrom === null || blockNumber < claimFrom) {
+    outcome.waiting = true;
+    return outcome;
+  }
+
+  for (const bid of unclaimed.filter(shouldSend)) {
+    try {
+      outcome.claimed.push(await claimBid(auctionAddress, bid.bidId, { auto, amountBid: bid.amountBid }));
+    } catch (err: any) {
+      outcome.errors.push({ auction: auctionAddress, error: err.message });
+    }
+  }
+  return outcome;
+}
+
+async function claimPaperAuction(auctionAddress: string, auto: boolean): Promise<ClaimOutcome> {
+  const settled = await claimPaperBids(auctionAddress);
+  const claimed = settled.map((b) => {
+    const record = getOrCreate(b.auctionAddress, b.id, auto);
+    record.status = b.status === "filled" ? "claimed" : "exited";
+    record.method = b.status;
+    record.graduated = b.status === "filled";
+    record.txHash = b.id;
+    record.attempts++;
+    record.updatedAt = Date.now();
+    if (b.status === "refunded") {
+      recordLedgerEntry({
+        kind: "refund",
+        auctionAddress: b.auctionAddress,
+        bidId: b.id,
+        usdc: b.amount,
+        txHash: null,
+        note: "Simulated",
+      });
+    }
+    return record;
+  });
+  if (claimed.length > 0) markDirty();
+  const auction = auctionAddress.toLowerCase();
+  const waiting = getPaperUserBids().some((b) => b.auction.toLowerCase() === auction && isUnclaimed(b));
+  return { claimed, errors: [], waiting };
+}
+
+async function sweepClaims(): Promise<void> {
+  const bids = isPaperMode() ? getPaperUserBids() : await getUserBids(getAccount().address);
+  const auctions = new Map<string, string>();
+  for (const b of bids) {
+    if (isUnclaimed(b) && shouldSend(b)) auctions.set(b.auction.toLowerCase(), b.auction);
+  }
+
+  for (const auctionAddress of auctions.values()) {
+    try {
+      const { claimed, errors } = await claimAuction(auctionAddress);
+      for (const c of claimed) {
+        const what = c.status === "claimed" ? "Tokens claimed" : "Bid exited for refund";
+        await sendTelegramMessage(`✅ ${what} on \`${auctionAddress.slice(0, 10)}\``);
+      }
+      for (const e of errors) {
+        await sendTelegramMessage(`❌ Auto-claim failed on \`${auctionAddress.slice(0, 10)}\`: ${e.error}`);
+      }
+    } catch (err: any) {
+      console.error(`[claims:${auctionAddress.slice(0, 8)}] ${err.message}`);
+    }
+  }
+}
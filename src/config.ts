@@ -9,6 +9,12 @@ export const FLOW_BID_BASE_URL = "https://www.flow.bid/api";
 export const CCA_FACTORY = "0xCCccCcCAE7503Cac057829BF2811De42E16e0bD5" as const;
 export const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913" as const;
 
+/** PAPER_MODE=1: every write is simulated and settled in a virtual ledger (paper.ts) */
+export function isPaperMode(): boolean {
+  const flag = (process.env.PAPER_MODE || "").toLowerCase();
+  return flag === "1" || flag === "true";
+}
+
 export function getRpcUrl(): string {
   return process.env.BASE_RPC_URL || "https://mainnet.base.org";
 }
@@ -37,6 +43,8 @@ export function getAccount() {
 }
 
 export function getWalletClient() {
+  // Last line of defence — paper writes never reach a signer
+  if (isPaperMode()) throw new Error("Paper mode: refusing to create a wallet client");
   const account = getAccount();
   return createWalletClient({
     account,
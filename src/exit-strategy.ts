@@ -1,36 +1,89 @@
-import { type Address, type Hash, erc20Abi } from "viem";
-import { getPublicClient, getAccount, USDC_BASE } from "./config.js";
-import { getTokenPrice, swapExactInputSingle } from "./swap.js";
-import { baseScanTxUrl } from "./utils.js";
-import { markDirty, registerCollector } from "./persistence.js";
+import { type Address, type Hash, parseUnits } from "viem";
+import { getTokenPrice, quoteSell } from "./swap.js";
+import { DEFAULT_MAX_IMPACT_PCT, executeSellChunk, planSellChunk } from "./sell-executor.js";
+import { getTokenBalance, getTokenSupply } from "./wallet.js";
+import { baseScanTxUrl, parseDuration } from "./utils.js";
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+import { eachRecord, validateShape } from "./storage/validate.js";
 
 const POLL_INTERVAL_MS = 30_000; // Check price every 30 seconds
+const MIN_CHUNK_DIVISOR = 16n;    // tranche chunks are at least 1/16 of the tranche
+const STOP_IMPACT_MULTIPLIER = 3;  // stops may move the price 3x the exit's impact cap
 
 // ─── Types ───
 
+export type TrancheTrigger = "multiple" | "time" | "liquidity";
+
 export interface Tranche {
   pctToSell: number;     // 0-100
-  targetMultiple: number; // e.g. 3 = sell when FDV is 3x entry
+  targetMultiple: number; // e.g. 3 = sell when FDV is 3x entry (0 for time/liquidity tranches)
+  trailingPct?: number;   // trailing: once at target, sell on this % pullback from the peak
+  trigger?: TrancheTrigger; // default "multiple"
+  afterMs?: number;       // time: sell this long after the exit started (graduation)
+  minLiquidityUsd?: number; // liquidity: sell once the pool holds at least this much USDC
+}
+
+/** One child sell of a tranche */
+export interface TrancheFill {
+  time: number;
+  amount: string;         // human-readable token amount
+  usdcReceived: number;
+  impactPct: number;      // quoted price impact
+  slippageBps: number;
+  txHash: string;
+}
+
+/** A triggered stop selling what the exit has left, chunk by chunk like a tranche */
+export interface StopSell {
+  trailing: boolean;
+  triggeredAt: number;
+  /** Multiple the stop triggered at */
+  multiple: number;
+  targetRaw: string;
+  soldRaw: string;
+  usdcReceived: number;
+  fills: TrancheFill[];
 }
 
 export interface ExecutedTranche extends Tranche {
   status: "pending" | "executed" | "skipped";
+  armedAt?: number;       // trailing tranches: when the target was reached
+  peakMultiple?: number;  // trailing tranches: highest multiple since armed
   executedAt?: number;
   txHash?: string;
   amountSold?: string;    // human-readable token amount
   usdcReceived?: string;  // human-readable USDC amount
+  targetRaw?: string;     // tokens to sell, fixed when triggered (raw bigint as string)
+  soldRaw?: string;       // tokens sold so far — thin pools take several chunks
+  fills?: TrancheFill[];  // child sells, one per chunk
 }
 
 export type ExitProfileName = "conservative" | "moderate" | "aggressive" | "custom";
 
+/** Where the tokens came from: a Flow.bid auction, a trading strategy, or anything else we hold */
+export type ExitOrigin = "auction" | "trading" | "manual";
+
+/** Keyed by token — one exit strategy sells every unit of its token we hold */
 export interface ExitStrategyState {
-  auctionAddress: string;
   tokenAddress: Address;
+  tokenSymbol: string | null;
+  /** Linked Flow.bid auction, if the tokens came from one */
+  auctionAddress: string | null;
+  origin: ExitOrigin;
+  /** Trading strategy whose position this exit took over */
+  tradingStrategyId: string | null;
   tokenDecimals: number;
   totalSupply: string;
+  /** USD per token paid — multiples are measured against it */
+  entryPrice: number;
   entryFdv: number;
   initialBalance: string; // raw bigint as string
+  /** Tokens this exit may still sell: its allocation left, capped at the wallet balance */
   currentBalance: string; // raw bigint as string
+  /** Tokens added to the allocation after the start with exit-edit --top-up */
+  toppedUpRaw?: string;
+  /** Tokens sold so far across tranches and stops */
+  soldRaw: string;
   currentFdv: number;
   currentMultiple: number;
   profileName: ExitProfileName;
@@ -40,6 +93,18 @@ export interface ExitStrategyState {
   log: Array<{ time: number; message: string; type: "info" | "sell" | "error" }>;
   uniswapFee: number;
   stopLossMultiple?: number;
+  /** Trailing stop: sell everything this % below the peak multiple */
+  trailingStopPct?: number;
+  /** Highest multiple seen while running */
+  peakMultiple?: number;
+  /** When the exit started — time tranches count from here */
+  startedAt: number;
+  /** Largest price impact (%) a single sell may cause (default 5%); bigger tranches are split */
+  maxImpactPct?: number;
+  /** Pool depth (USDC side) last estimated for liquidity tranches */
+  liquidityUsd?: number;
+  /** Set once the stop-loss triggers; the exit stops when it has sold out */
+  stopSell?: StopSell;
 }
 
 // ─── Preset profiles (dynamic — just shortcuts) ───
@@ -62,19 +127,79 @@ export const PROFILES: Record<Exclude<ExitProfileName, "custom">, Tranche[]> = {
 };
 
 /**
- * Parse custom tranche string like "50@3x,50@5x"
+ * Parse custom tranche string like "50@3x,50@5x". A "~20%" suffix makes a
+ * tranche trailing: "50@3x~20%" arms at 3x and sells on a 20% pullback from
+ * the peak after that. "25@1h" sells 1h after the exit started whatever the
+ * price, and "25@$50k" sells once the pool holds $50k of USDC.
  */
 export function parseTranches(input: string): Tranche[] {
   return input.split(",").map((part) => {
-    const match = part.trim().match(/^(\d+)@(\d+(?:\.\d+)?)x$/i);
-    if (!match) throw new Error(`Invalid tranche format: "${part.trim()}" — use "50@3x"`);
-    return {
-      pctToSell: parseInt(match[1]),
-      targetMultiple: parseFloat(match[2]),
-    };
+    const raw = part.trim();
+    const multiple = raw.match(/^(\d+)@(\d+(?:\.\d+)?)x(?:~(\d+(?:\.\d+)?)%)?$/i);
+    if (multiple) {
+      const tranche: Tranche = {
+        pctToSell: parseInt(multiple[1]),
+        targetMultiple: parseFloat(multiple[2]),
+      };
+      if (multiple[3]) tranche.trailingPct = parsePullback(multiple[3], raw);
+      return tranche;
+    }
+
+    const time = raw.match(/^(\d+)@(\d+[mhd])$/i);
+    if (time) {
+      return { pctToSell: parseInt(time[1]), targetMultiple: 0, trigger: "time", afterMs: parseDuration(time[2]) };
+    }
+
+    const liquidity = raw.match(/^(\d+)@\$(\d+(?:\.\d+)?)(k|m)?$/i);
+    if (liquidity) {
+      const scale = { k: 1e3, m: 1e6 }[liquidity[3]?.toLowerCase() as "k" | "m"] ?? 1;
+      return {
+        pctToSell: parseInt(liquidity[1]),
+        targetMultiple: 0,
+        trigger: "liquidity",
+        minLiquidityUsd: parseFloat(liquidity[2]) * scale,
+      };
+    }
+
+    throw new Error(`Invalid tranche format: "${raw}" — use "50@3x", "50@3x~20%", "25@1h" or "25@$50k"`);
   });
 }
 
+/** Parse a price-impact cap in percent, e.g. "2" or "2%" */
+export function parseMaxImpact(input: string | number): number {
+  const pct = parseFloat(String(input).replace(/%$/, ""));
+  if (!(pct > 0 && pct < 100)) throw new Error(`Invalid price-impact cap: "${input}" — must be between 0% and 100%`);
+  return pct;
+}
+
+/**
+ * Parse a stop-loss: "0.5" (sell all below 0.5x entry), "~25%" (trailing —
+ * sell all 25% below the peak multiple) or "0.5~25%" (whichever is higher).
+ */
+export function parseStopLoss(input: string | number): { stopLossMultiple?: number; trailingStopPct?: number } {
+  const raw = String(input).trim();
+  const match = raw.match(/^(\d+(?:\.\d+)?)?(?:~(\d+(?:\.\d+)?)%)?$/);
+  if (!raw || !match) throw new Error(`Invalid stop-loss: "${raw}" — use "0.5", "~25%" or "0.5~25%"`);
+  const result: { stopLossMultiple?: number; trailingStopPct?: number } = {};
+  if (match[1]) {
+    result.stopLossMultiple = parseFloat(match[1]);
+    if (result.stopLossMultiple <= 0) throw new Error(`Invalid stop-loss: "${raw}" — multiple must be above 0`);
+  }
+  if (match[2]) result.trailingStopPct = parsePullback(match[2], raw);
+  return result;
+}
+
+/** Format a stop-loss back into the syntax parseStopLoss accepts */
+export function formatStopLoss(stopLossMultiple?: number, trailingStopPct?: number): string {
+  return `${stopLossMultiple ?? ""}${trailingStopPct != null ? `~${trailingStopPct}%` : ""}`;
+}
+
+function parsePullback(raw: string, context: string): number {
+  const pct = parseFloat(raw);
+  if (!(pct > 0 && pct < 100)) throw new Error(`Invalid pullback in "${context}" — must be between 0% and 100%`);
+  return pct;
+}
+
 /**
  * Resolve profile name or custom string to tranche array
  */
@@ -95,12 +220,14 @@ export function getExitStrategies(): ExitStrategyState[] {
   return Array.from(exitStrategies.values());
 }
 
-export function getExitStrategy(auctionAddress: string): ExitStrategyState | undefined {
-  return exitStrategies.get(auctionAddress);
+/** Look up by token, or by the auction the tokens came from */
+export function getExitStrategy(address: string): ExitStrategyState | undefined {
+  const key = address.toLowerCase();
+  return exitStrategies.get(key) ?? getExitStrategies().find((s) => s.auctionAddress?.toLowerCase() === key);
 }
 
-export function cancelExitStrategy(auctionAddress: string): boolean {
-  const s = exitStrategies.get(auctionAddress);
+export function cancelExitStrategy(address: string): boolean {
+  const s = getExitStrategy(address);
   if (s && s.status === "running") {
     s.status = "cancelled";
     addLog(s, "Exit strategy cancelled", "info");
@@ -110,10 +237,111 @@ export function cancelExitStrategy(auctionAddress: string): boolean {
   return false;
 }
 
+/**
+ * Changes to a running exit strategy. Tranche positions are 1-based, as
+ * listed in `exits`; only pending tranches that haven't started selling can
+ * be changed or removed.
+ */
+export interface ExitStrategyEdit {
+  /** Replace every editable tranche, e.g. "50@3x,50@5x" */
+  tranches?: string;
+  /** Append tranches */
+  add?: string;
+  /** Remove tranches by position */
+  remove?: number[];
+  /** Replace tranches by position, e.g. { "2": "30@4x" } */
+  set?: Record<string, string>;
+  /** New stop-loss in parseStopLoss syntax; "none" or null clears it */
+  stopLoss?: string | number | null;
+  /** New price-impact cap; "none" or null goes back to the default */
+  maxImpactPct?: string | number | null;
+  /** Tokens to add to what this exit may sell, e.g. after buying more */
+  topUp?: string | number;
+}
+
+/**
+ * Edit a running exit strategy in place, keeping executed tranches and the
+ * realized total. Throws on anything invalid without changing the strategy;
+ * a successful edit is recorded in the exit log.
+ */
+export function editExitStrategy(address: string, edit: ExitStrategyEdit): ExitStrategyState {
+  const state = getExitStrategy(address);
+  if (!state) throw new Error("No exit strategy for this token or auction");
+  if (state.status !== "running") throw new Error(`Exit strategy is ${state.status} — only running strategies can be edited`);
+  if (state.stopSell) throw new Error("The stop-loss triggered and is selling everything — cancel it with exit-cancel");
+  if (edit.tranches !== undefined && (edit.add || edit.remove?.length || Object.keys(edit.set ?? {}).length)) {
+    throw new Error("Replace all tranches or add/remove/set individual ones, not both");
+  }
+
+  let tranches = [...state.tranches];
+  const editable = (position: number): ExecutedTranche => {
+    const t = tranches[position - 1];
+    if (!Number.isInteger(position) || !t) throw new Error(`No tranche ${position} (${tranches.length} tranches)`);
+    if (t.status !== "pending") throw new Error(`Tranche ${position} is already ${t.status}`);
+    if (t.targetRaw) throw new Error(`Tranche ${position} is mid-sell`);
+    return t;
+  };
+  const pending = (t: Tranche): ExecutedTranche => ({ ...t, status: "pending" });
+
+  if (edit.tranches !== undefined) {
+    tranches = [...tranches.filter((t) => t.status !== "pending" || t.targetRaw), ...parseTranches(edit.tranches).map(pending)];
+  }
+  for (const [position, spec] of Object.entries(edit.set ?? {})) {
+    editable(Number(position));
+    const parsed = parseTranches(spec);
+    if (parsed.length !== 1) throw new Error(`Set one tranche per position, got "${spec}"`);
+    tranches[Number(position) - 1] = pending(parsed[0]);
+  }
+  if (edit.remove?.length) {
+    const removed = new Set(edit.remove.map((position) => editable(Number(position))));
+    tranches = tranches.filter((t) => !removed.has(t));
+  }
+  if (edit.add) tranches.push(...parseTranches(edit.add).map(pending));
+  checkTranches(tranches);
+
+  let stop: ReturnType<typeof parseStopLoss> = { stopLossMultiple: state.stopLossMultiple, trailingStopPct: state.trailingStopPct };
+  if (edit.stopLoss !== undefined) stop = isCleared(edit.stopLoss) ? {} : parseStopLoss(edit.stopLoss!);
+  let maxImpactPct = state.maxImpactPct;
+  if (edit.maxImpactPct !== undefined) maxImpactPct = isCleared(edit.maxImpactPct) ? undefined : parseMaxImpact(edit.maxImpactPct!);
+
+  const changes: string[] = [];
+  const before = describeTranches(state.tranches);
+  const after = describeTranches(tranches);
+  if (after !== before) changes.push(`tranches [${before}] → [${after}]`);
+  const oldStop = formatStopLoss(state.stopLossMultiple, state.trailingStopPct) || "none";
+  const newStop = formatStopLoss(stop.stopLossMultiple, stop.trailingStopPct) || "none";
+  if (newStop !== oldStop) changes.push(`stop-loss ${oldStop} → ${newStop}`);
+  if (maxImpactPct !== state.maxImpactPct) {
+    const impact = (pct?: number) => (pct != null ? `${pct}%` : `default ${DEFAULT_MAX_IMPACT_PCT}%`);
+    changes.push(`max impact ${impact(state.maxImpactPct)} → ${impact(maxImpactPct)}`);
+  }
+  let topUpRaw = 0n;
+  if (edit.topUp !== undefined) {
+    const amount = Number(edit.topUp);
+    if (!Number.isFinite(amount) || amount <= 0) throw new Error(`Invalid top-up "${edit.topUp}" — give a token amount above 0`);
+    topUpRaw = parseUnits(String(edit.topUp), state.tokenDecimals);
+    changes.push(`top-up +${formatTokenBalance(topUpRaw, state.tokenDecimals)} tokens`);
+  }
+  if (changes.length === 0) throw new Error("Nothing to change");
+
+  state.tranches = tranches;
+  if (after !== before) state.profileName = "custom";
+  state.stopLossMultiple = stop.stopLossMultiple;
+  state.trailingStopPct = stop.trailingStopPct;
+  state.maxImpactPct = maxImpactPct;
+  if (topUpRaw > 0n) {
+    state.toppedUpRaw = (BigInt(state.toppedUpRaw ?? "0") + topUpRaw).toString();
+    state.currentBalance = (BigInt(state.currentBalance) + topUpRaw).toString();
+  }
+  addLog(state, `Edited: ${changes.join("; ")}`, "info");
+  markDirty();
+  return state;
+}
+
 /** Restore exit strategies from persisted state */
 export function setExitStrategies(states: ExitStrategyState[]): void {
   for (const s of states) {
-    exitStrategies.set(s.auctionAddress, s);
+    exitStrategies.set(s.tokenAddress.toLowerCase(), s);
   }
 }
 
@@ -121,7 +349,7 @@ export function setExitStrategies(states: ExitStrategyState[]): void {
 export function resumeExitStrategies(): void {
   for (const state of exitStrategies.values()) {
     if (state.status === "running") {
-      console.log(`[exit:${state.auctionAddress.slice(0, 8)}] Resuming exit strategy`);
+      console.log(`[exit:${logTag(state)}] Resuming exit strategy`);
       pollAndExecute(state).catch((err: any) => {
         if (state.status === "running") {
           state.status = "failed";
@@ -137,8 +365,128 @@ export function resumeExitStrategies(): void {
 registerCollector(() => ({
   section: "Exit Strategies",
   data: Array.from(exitStrategies.values()),
+  key: (s: ExitStrategyState) => s.tokenAddress.toLowerCase(),
 }));
 
+registerSchema("Exit Strategies", {
+  migrations: [
+    // v1: fill fields missing from early unversioned state
+    eachRecord((s) => {
+      s.tokenDecimals ??= 18;
+      s.currentFdv ??= 0;
+      s.currentMultiple ??= 0;
+      s.totalUsdcRealized ??= 0;
+      s.uniswapFee ??= 3000;
+      if (s.stopLossMultiple === null) delete s.stopLossMultiple;
+      s.log ??= [];
+      return s;
+    }),
+    // v2: time tranches count from startedAt (the log is capped, so this is a best guess)
+    eachRecord((s) => {
+      s.startedAt ??= s.log[0]?.time ?? Date.now();
+      return s;
+    }),
+    // v3: keyed by token; every earlier exit came from an auction and was measured by FDV
+    eachRecord((s) => {
+      s.origin ??= "auction";
+      s.tradingStrategyId ??= null;
+      s.tokenSymbol ??= null;
+      if (s.entryPrice == null) {
+        // Without a usable supply the entry can't be priced; only this record is quarantined
+        if (typeof s.totalSupply !== "string" || !/^\d+$/.test(s.totalSupply)) {
+          throw new Error(`totalSupply is not an integer string: ${JSON.stringify(s.totalSupply)}`);
+        }
+        const supply = Number(BigInt(s.totalSupply)) / 10 ** s.tokenDecimals;
+        if (!(supply > 0) || !(s.entryFdv > 0)) throw new Error("cannot derive entry price from entryFdv and totalSupply");
+        s.entryPrice = s.entryFdv / supply;
+      }
+      return s;
+    }),
+    // v4: exits sell only their own tokens, so count what the tranches sold
+    eachRecord((s) => {
+      let sold = 0n;
+      for (const t of s.tranches ?? []) {
+        if (t.soldRaw) sold += BigInt(t.soldRaw);
+        else if (t.status === "executed" && t.amountSold) sold += parseUnits(t.amountSold, s.tokenDecimals);
+      }
+      s.soldRaw ??= sold.toString();
+      return s;
+    }),
+  ],
+  validate: (record) => {
+    const problems = validateShape(record, {
+      tokenAddress: "string",
+      tokenSymbol: "string?",
+      auctionAddress: "string?",
+      origin: ["auction", "trading", "manual"],
+      tradingStrategyId: "string?",
+      tokenDecimals: "number",
+      totalSupply: "string",
+      entryPrice: "number",
+      entryFdv: "number",
+      initialBalance: "string",
+      currentBalance: "string",
+      toppedUpRaw: "string?",
+      soldRaw: "string",
+      currentFdv: "number",
+      currentMultiple: "number",
+      profileName: ["conservative", "moderate", "aggressive", "custom"],
+      tranches: "array",
+      totalUsdcRealized: "number",
+      status: ["running", "done", "failed", "cancelled", "stopped"],
+      log: "array",
+      uniswapFee: "number",
+      stopLossMultiple: "number?",
+      trailingStopPct: "number?",
+      peakMultiple: "number?",
+      startedAt: "number",
+      maxImpactPct: "number?",
+      liquidityUsd: "number?",
+      stopSell: "object?",
+    });
+    if (problems.length > 0) return problems;
+    (record as ExitStrategyState).tranches.forEach((t, i) => {
+      for (const p of validateShape(t, {
+        pctToSell: "number",
+        targetMultiple: "number",
+        trailingPct: "number?",
+        trigger: "string?",
+        afterMs: "number?",
+        minLiquidityUsd: "number?",
+        targetRaw: "string?",
+        soldRaw: "string?",
+        fills: "array?",
+        status: ["pending", "executed", "skipped"],
+      })) {
+        problems.push(`tranches[${i}].${p}`);
+      }
+    });
+    return problems;
+  },
+});
+
+function isCleared(value: string | number | null | undefined): boolean {
+  return value === null || value === "" || String(value).toLowerCase() === "none";
+}
+
+/** Each tranche sells 1-100%, the plan sells at most 100%, and something is left to sell */
+function checkTranches(tranches: ExecutedTranche[]): void {
+  for (const t of tranches) {
+    if (!Number.isInteger(t.pctToSell) || t.pctToSell < 1 || t.pctToSell > 100) {
+      throw new Error(`Tranche ${t.pctToSell}%@${trancheLabel(t)} must sell between 1% and 100%`);
+    }
+  }
+  const total = tranches.filter((t) => t.status !== "skipped").reduce((sum, t) => sum + t.pctToSell, 0);
+  if (total > 100) throw new Error(`Tranches add up to ${total}% — at most 100% can be sold`);
+  if (!tranches.some((t) => t.status === "pending")) {
+    throw new Error("No pending tranches left — use exit-cancel to stop the strategy");
+  }
+}
+
+function describeTranches(tranches: Tranche[]): string {
+  return tranches.map((t) => `${t.pctToSell}%@${trancheLabel(t)}`).join(", ");
+}
+
 function addLog(
   state: ExitStrategyState,
   message: string,
@@ -146,46 +494,72 @@ function addLog(
 ) {
   state.log.push({ time: Date.now(), message, type });
   if (state.log.length > 50) state.log.shift();
-  console.log(`[exit:${state.auctionAddress.slice(0, 8)}] ${message}`);
+  console.log(`[exit:${logTag(state)}] ${message}`);
+}
+
+function logTag(state: ExitStrategyState): string {
+  return state.tokenSymbol ?? state.tokenAddress.slice(0, 8);
 }
 
 // ─── Core engine ───
 
 export interface RunExitParams {
-  auctionAddress: string;
   tokenAddress: Address;
+  tokenSymbol?: string;
+  /** Linked auction, when the tokens came from one */
+  auctionAddress?: string;
+  origin?: ExitOrigin;
+  tradingStrategyId?: string;
   tokenDecimals?: number;
-  totalSupply: bigint;
-  entryFdv: number;
+  /** Read from the token when not given */
+  totalSupply?: bigint;
   tokenBalance: bigint;
+  /** Entry as an FDV, a price per token, or the USD paid for `tokenBalance` — one is required */
+  entryFdv?: number;
+  entryPrice?: number;
+  costBasisUsd?: number;
   profileOrCustom: string;
   uniswapFee?: number;
   stopLossMultiple?: number;
+  trailingStopPct?: number;
+  maxImpactPct?: number;
 }
 
 export async function runExitStrategy(params: RunExitParams): Promise<void> {
   const {
-    auctionAddress,
     tokenAddress,
     tokenDecimals = 18,
-    totalSupply,
-    entryFdv,
     tokenBalance,
     profileOrCustom,
     uniswapFee = 3000,
     stopLossMultiple,
+    trailingStopPct,
+    maxImpactPct,
   } = params;
 
   const { name, tranches } = resolveTranches(profileOrCustom);
+  const existing = getExitStrategy(tokenAddress);
+  if (existing?.status === "running") {
+    throw new Error(`An exit strategy is already running for ${existing.tokenSymbol ?? tokenAddress} — edit it with exit-edit`);
+  }
+
+  const totalSupply = params.totalSupply ?? (await getTokenSupply(tokenAddress));
+  const supplyHuman = Number(totalSupply) / 10 ** tokenDecimals;
+  const entryPrice = resolveEntryPrice(params, supplyHuman);
 
   const state: ExitStrategyState = {
-    auctionAddress,
     tokenAddress,
+    tokenSymbol: params.tokenSymbol ?? null,
+    auctionAddress: params.auctionAddress ?? null,
+    origin: params.origin ?? (params.auctionAddress ? "auction" : "manual"),
+    tradingStrategyId: params.tradingStrategyId ?? null,
     tokenDecimals,
     totalSupply: totalSupply.toString(),
-    entryFdv,
+    entryPrice,
+    entryFdv: entryPrice * supplyHuman,
     initialBalance: tokenBalance.toString(),
     currentBalance: tokenBalance.toString(),
+    soldRaw: "0",
     currentFdv: 0,
     currentMultiple: 0,
     profileName: name,
@@ -195,14 +569,23 @@ export async function runExitStrategy(params: RunExitParams): Promise<void> {
     log: [],
     uniswapFee,
     stopLossMultiple,
+    trailingStopPct,
+    startedAt: Date.now(),
+    maxImpactPct,
   };
 
-  exitStrategies.set(auctionAddress, state);
+  exitStrategies.set(tokenAddress.toLowerCase(), state);
   markDirty();
 
-  const trancheDesc = tranches.map((t) => `${t.pctToSell}%@${t.targetMultiple}x`).join(", ");
-  addLog(state, `Exit strategy started: ${name} [${trancheDesc}]${stopLossMultiple ? ` | stop-loss: ${stopLossMultiple}x` : ""}`, "info");
-  addLog(state, `Entry FDV: $${entryFdv.toLocaleString()} | Balance: ${formatTokenBalance(tokenBalance, tokenDecimals)} tokens`, "info");
+  const trancheDesc = describeTranches(tranches);
+  const stopDesc = stopLossMultiple || trailingStopPct ? ` | stop-loss: ${formatStopLoss(stopLossMultiple, trailingStopPct)}` : "";
+  const impactDesc = maxImpactPct ? ` | max impact: ${maxImpactPct}%` : "";
+  addLog(state, `Exit strategy started (${state.origin}): ${name} [${trancheDesc}]${stopDesc}${impactDesc}`, "info");
+  addLog(
+    state,
+    `Entry: $${formatPrice(entryPrice)}/token (FDV $${Math.round(state.entryFdv).toLocaleString()}) | Balance: ${formatTokenBalance(tokenBalance, tokenDecimals)} tokens`,
+    "info"
+  );
 
   try {
     await pollAndExecute(state);
@@ -215,6 +598,18 @@ export async function runExitStrategy(params: RunExitParams): Promise<void> {
   }
 }
 
+/** Entry price per token from whichever of price, cost basis or FDV was given */
+function resolveEntryPrice(params: RunExitParams, supplyHuman: number): number {
+  const balanceHuman = Number(params.tokenBalance) / 10 ** (params.tokenDecimals ?? 18);
+  let price: number | undefined;
+  if (params.entryPrice != null) price = params.entryPrice;
+  else if (params.costBasisUsd != null) price = balanceHuman > 0 ? params.costBasisUsd / balanceHuman : 0;
+  else if (params.entryFdv != null) price = supplyHuman > 0 ? params.entryFdv / supplyHuman : 0;
+  if (price === undefined) throw new Error("Missing entry — give an entry price, cost basis or entry FDV");
+  if (!(price > 0)) throw new Error("Entry price must be above 0");
+  return price;
+}
+
 async function pollAndExecute(state: ExitStrategyState): Promise<void> {
   await new Promise<void>((resolve) => {
     const interval = setInterval(async () => {
@@ -233,117 +628,93 @@ async function pollAndExecute(state: ExitStrategyState): Promise<void> {
         );
         const supplyHuman = Number(BigInt(state.totalSupply)) / 10 ** state.tokenDecimals;
         state.currentFdv = price * supplyHuman;
-        state.currentMultiple = state.entryFdv > 0 ? state.currentFdv / state.entryFdv : 0;
-
-        // Refresh on-chain balance
-        const publicClient = getPublicClient();
-        const account = getAccount();
-        const onChainBalance = await publicClient.readContract({
-          address: state.tokenAddress,
-          abi: erc20Abi,
-          functionName: "balanceOf",
-          args: [account.address],
-        });
-        state.currentBalance = onChainBalance.toString();
-
-        // Check stop-loss
+        state.currentMultiple = state.entryPrice > 0 ? price / state.entryPrice : 0;
+
+        await refreshBalance(state);
+
+        if (state.currentMultiple > (state.peakMultiple ?? 0)) {
+          state.peakMultiple = state.currentMultiple;
+          markDirty();
+        }
+
+        // A triggered stop keeps selling until it is out; tranches no longer run
+        if (state.stopSell) {
+          await runStopSell(state);
+          return;
+        }
+
+        // Check stop-loss (static, or trailing below the peak — whichever is higher)
+        const stop = stopLevel(state);
         if (
-          state.stopLossMultiple != null &&
+          stop !== null &&
           state.currentMultiple > 0 &&
-          state.currentMultiple < state.stopLossMultiple &&
+          state.currentMultiple < stop &&
           BigInt(state.currentBalance) > 0n
         ) {
+          const trailing = stop !== state.stopLossMultiple;
           addLog(
             state,
-            `STOP-LOSS triggered at ${state.currentMultiple.toFixed(2)}x (threshold: ${state.stopLossMultiple}x) — selling 100%`,
+            trailing
+              ? `TRAILING STOP triggered at ${state.currentMultiple.toFixed(2)}x (peak ${state.peakMultiple!.toFixed(2)}x, stop ${stop.toFixed(2)}x) — selling 100%`
+              : `STOP-LOSS triggered at ${state.currentMultiple.toFixed(2)}x (threshold: ${stop}x) — selling 100%`,
             "sell"
           );
-          try {
-            const sellAmount = BigInt(state.currentBalance);
-            const { hash, amountOut } = await swapExactInputSingle(
-              state.tokenAddress,
-              USDC_BASE,
-              sellAmount,
-              state.uniswapFee
-            );
-            const usdcReceived = Number(amountOut) / 1e6;
-            state.totalUsdcRealized += usdcReceived;
-            state.currentBalance = "0";
-            // Mark all pending tranches as skipped
-            for (const t of state.tranches) {
-              if (t.status === "pending") t.status = "skipped";
-            }
-            addLog(state, `Stop-loss sold all for $${usdcReceived.toFixed(2)} USDC (tx: ${hash.slice(0, 10)}...)`, "sell");
-          } catch (err: any) {
-            addLog(state, `Stop-loss sell failed: ${err.message}`, "error");
+          for (const t of state.tranches) {
+            if (t.status === "pending") t.status = "skipped";
           }
-          state.status = "stopped";
+          state.stopSell = {
+            trailing,
+            triggeredAt: Date.now(),
+            multiple: state.currentMultiple,
+            targetRaw: state.currentBalance,
+            soldRaw: "0",
+            usdcReceived: 0,
+            fills: [],
+          };
           markDirty();
-          clearInterval(interval);
-          resolve();
+          await runStopSell(state);
           return;
         }
 
+        await measureLiquidity(state, price);
+
         // Check each pending tranche
         for (const tranche of state.tranches) {
           if (tranche.status !== "pending") continue;
-          if (state.currentMultiple < tranche.targetMultiple) continue;
-
-          // Tranche triggered!
-          const currentBalance = BigInt(state.currentBalance);
-          if (currentBalance === 0n) {
-            tranche.status = "skipped";
-            addLog(state, `Tranche ${tranche.targetMultiple}x skipped — no balance`, "info");
-            continue;
-          }
-
-          const sellAmount = (currentBalance * BigInt(tranche.pctToSell)) / 100n;
-          if (sellAmount === 0n) {
-            tranche.status = "skipped";
-            addLog(state, `Tranche ${tranche.targetMultiple}x skipped — amount too small`, "info");
-            continue;
-          }
 
-          addLog(
-            state,
-            `Tranche ${tranche.targetMultiple}x triggered! Selling ${tranche.pctToSell}% (${formatTokenBalance(sellAmount, state.tokenDecimals)} tokens) at ${state.currentMultiple.toFixed(1)}x`,
-            "sell"
-          );
+          if (!tranche.targetRaw) {
+            if (!trancheTriggered(state, tranche)) continue;
 
-          try {
-            const { hash, amountOut } = await swapExactInputSingle(
-              state.tokenAddress,
-              USDC_BASE,
-              sellAmount,
-              state.uniswapFee
-            );
+            // Tranche triggered!
+            const currentBalance = BigInt(state.currentBalance);
+            if (currentBalance === 0n) {
+              tranche.status = "skipped";
+              addLog(state, `Tranche ${trancheLabel(tranche)} skipped — no balance`, "info");
+              continue;
+            }
 
-            const usdcReceived = Number(amountOut) / 1e6;
-            tranche.status = "executed";
-            tranche.executedAt = Date.now();
-            tranche.txHash = hash;
-            tranche.amountSold = formatTokenBalance(sellAmount, state.tokenDecimals);
-            tranche.usdcReceived = usdcReceived.toFixed(2);
-            state.totalUsdcRealized += usdcReceived;
-
-            // Refresh balance after sell
-            const newBalance = await publicClient.readContract({
-              address: state.tokenAddress,
-              abi: erc20Abi,
-              functionName: "balanceOf",
-              args: [account.address],
-            });
-            state.currentBalance = newBalance.toString();
+            const sellAmount = (currentBalance * BigInt(tranche.pctToSell)) / 100n;
+            if (sellAmount === 0n) {
+              tranche.status = "skipped";
+              addLog(state, `Tranche ${trancheLabel(tranche)} skipped — amount too small`, "info");
+              continue;
+            }
 
+            tranche.targetRaw = sellAmount.toString();
+            markDirty();
             addLog(
               state,
-              `Sold ${tranche.amountSold} tokens for $${usdcReceived.toFixed(2)} USDC`,
+              `Tranche ${trancheLabel(tranche)} triggered! Selling ${tranche.pctToSell}% (${formatTokenBalance(sellAmount, state.tokenDecimals)} tokens) at ${state.currentMultiple.toFixed(1)}x`,
               "sell"
             );
-            markDirty();
+          }
+
+          try {
+            await sellTranche(state, tranche);
           } catch (err: any) {
-            addLog(state, `Tranche ${tranche.targetMultiple}x sell failed: ${err.message}`, "error");
-            // Don't mark as executed — will retry next poll
+            addLog(state, `Tranche ${trancheLabel(tranche)} sell failed: ${err.message}`, "error");
+            // Don't mark as executed — will retry next poll, keeping what already sold
+            markDirty();
           }
         }
 
@@ -365,6 +736,247 @@ async function pollAndExecute(state: ExitStrategyState): Promise<void> {
   });
 }
 
+// Tranches and stops already logged as held back by the impact cap
+const impactWaits = new WeakSet<ExecutedTranche | StopSell>();
+
+/**
+ * Sell the next chunk toward `target` through the sell executor, capped at
+ * what the exit still holds. Returns the fill, or null when nothing is left
+ * or even the smallest chunk moves the price more than `maxImpactPct`.
+ */
+async function sellNextChunk(
+  state: ExitStrategyState,
+  target: bigint,
+  sold: bigint,
+  maxImpactPct: number
+): Promise<{ amount: bigint; fill: TrancheFill } | null> {
+  const balance = BigInt(state.currentBalance);
+  const remaining = target - sold < balance ? target - sold : balance;
+  if (remaining <= 0n) return null;
+
+  const chunk = await planSellChunk(state.tokenAddress, state.tokenDecimals, remaining, target / MIN_CHUNK_DIVISOR, maxImpactPct);
+  if (!chunk) return null;
+
+  const { hash, amountOut } = await executeSellChunk(state.tokenAddress, chunk, state.uniswapFee);
+  const usdcReceived = Number(amountOut) / 1e6;
+  state.totalUsdcRealized += usdcReceived;
+  recordSold(state, chunk.amount);
+  state.currentBalance = (balance - chunk.amount).toString();
+  markDirty();
+  return {
+    amount: chunk.amount,
+    fill: {
+      time: Date.now(),
+      amount: formatTokenBalance(chunk.amount, state.tokenDecimals),
+      usdcReceived,
+      impactPct: chunk.impactPct,
+      slippageBps: chunk.slippageBps,
+      txHash: hash,
+    },
+  };
+}
+
+/**
+ * Sell the next chunk of a triggered tranche through the sell executor. One
+ * chunk goes per poll so the pool can recover in between, TWAP-style; a
+ * tranche that fits the impact cap sells whole. Each chunk is recorded as a
+ * fill, and a failed swap or a pool too thin for the smallest chunk leaves
+ * the rest for the next poll.
+ */
+async function sellTranche(state: ExitStrategyState, tranche: ExecutedTranche): Promise<void> {
+  const target = BigInt(tranche.targetRaw!);
+  let sold = BigInt(tranche.soldRaw ?? "0");
+  const maxImpactPct = state.maxImpactPct ?? DEFAULT_MAX_IMPACT_PCT;
+
+  if (sold < target && BigInt(state.currentBalance) > 0n) {
+    const sale = await sellNextChunk(state, target, sold, maxImpactPct);
+    if (!sale) {
+      if (!impactWaits.has(tranche)) {
+        addLog(
+          state,
+          `Tranche ${trancheLabel(tranche)} waiting — even its smallest chunk moves the price more than ${maxImpactPct}%`,
+          "info"
+        );
+      }
+      impactWaits.add(tranche);
+      return;
+    }
+    impactWaits.delete(tranche);
+
+    sold += sale.amount;
+    tranche.soldRaw = sold.toString();
+    tranche.fills = [...(tranche.fills ?? []), sale.fill];
+    tranche.txHash = sale.fill.txHash;
+    tranche.usdcReceived = tranche.fills.reduce((sum, f) => sum + f.usdcReceived, 0).toFixed(2);
+    markDirty();
+
+    if (sold < target && BigInt(state.currentBalance) > 0n) {
+      addLog(
+        state,
+        `Tranche ${trancheLabel(tranche)} chunk ${tranche.fills.length}: sold ${sale.fill.amount} tokens for $${sale.fill.usdcReceived.toFixed(2)} USDC at ${sale.fill.impactPct.toFixed(2)}% impact (${Number((sold * 100n) / target)}% of tranche)`,
+        "sell"
+      );
+      return;
+    }
+  }
+
+  tranche.status = "executed";
+  tranche.executedAt = Date.now();
+  tranche.amountSold = formatTokenBalance(sold, state.tokenDecimals);
+
+  await refreshBalance(state);
+
+  const chunks = (tranche.fills?.length ?? 0) > 1 ? ` in ${tranche.fills!.length} chunks` : "";
+  addLog(state, `Sold ${tranche.amountSold} tokens for $${tranche.usdcReceived ?? "0.00"} USDC${chunks}`, "sell");
+  markDirty();
+}
+
+/**
+ * Sell the next chunk of a triggered stop. Stops get STOP_IMPACT_MULTIPLIER
+ * times the exit's impact cap, since getting out matters more than price
+ * there, but still sell in chunks and record each as a fill. A failed swap is
+ * retried next poll; once everything is sold the exit stops.
+ */
+async function runStopSell(state: ExitStrategyState): Promise<void> {
+  const stop = state.stopSell!;
+  const target = BigInt(stop.targetRaw);
+  const maxImpactPct = (state.maxImpactPct ?? DEFAULT_MAX_IMPACT_PCT) * STOP_IMPACT_MULTIPLIER;
+  const label = stop.trailing ? "Trailing stop" : "Stop-loss";
+
+  if (BigInt(stop.soldRaw) < target && BigInt(state.currentBalance) > 0n) {
+    let sale: Awaited<ReturnType<typeof sellNextChunk>>;
+    try {
+      sale = await sellNextChunk(state, target, BigInt(stop.soldRaw), maxImpactPct);
+    } catch (err: any) {
+      addLog(state, `${label} sell failed: ${err.message} — retrying next poll`, "error");
+      return;
+    }
+    if (!sale) {
+      if (!impactWaits.has(stop)) {
+        addLog(state, `${label} waiting — even its smallest chunk moves the price more than ${maxImpactPct}%`, "info");
+      }
+      impactWaits.add(stop);
+      return;
+    }
+    impactWaits.delete(stop);
+
+    stop.soldRaw = (BigInt(stop.soldRaw) + sale.amount).toString();
+    stop.fills.push(sale.fill);
+    stop.usdcReceived += sale.fill.usdcReceived;
+    markDirty();
+
+    if (BigInt(stop.soldRaw) < target && BigInt(state.currentBalance) > 0n) {
+      addLog(
+        state,
+        `${label} chunk ${stop.fills.length}: sold ${sale.fill.amount} tokens for $${sale.fill.usdcReceived.toFixed(2)} USDC at ${sale.fill.impactPct.toFixed(2)}% impact (${Number((BigInt(stop.soldRaw) * 100n) / target)}%)`,
+        "sell"
+      );
+      return;
+    }
+  }
+
+  const chunks = stop.fills.length > 1 ? ` in ${stop.fills.length} chunks` : "";
+  addLog(
+    state,
+    `${label} sold ${formatTokenBalance(BigInt(stop.soldRaw), state.tokenDecimals)} tokens for $${stop.usdcReceived.toFixed(2)} USDC${chunks}`,
+    "sell"
+  );
+  state.status = "stopped";
+  markDirty();
+}
+
+/**
+ * Estimate pool depth for pending liquidity tranches from a quote the size of
+ * the next one. For a constant-product pool a sell of impact i returning U
+ * USDC leaves about U / i USDC on the pool's USDC side.
+ */
+async function measureLiquidity(state: ExitStrategyState, price: number): Promise<void> {
+  const next = state.tranches.find((t) => t.status === "pending" && !t.targetRaw && t.trigger === "liquidity");
+  const amount = next ? (BigInt(state.currentBalance) * BigInt(next.pctToSell)) / 100n : 0n;
+  if (amount === 0n) return;
+
+  const { usdcOut, impactPct } = await quoteSell(state.tokenAddress, amount, state.tokenDecimals, price);
+  state.liquidityUsd = impactPct > 0 ? usdcOut / (impactPct / 100) : Number.MAX_SAFE_INTEGER;
+  markDirty();
+}
+
+/**
+ * Set the sellable balance: the tokens handed to this exit (plus top-ups)
+ * minus what it has sold, and never more than the wallet holds. Other
+ * strategies' or exits' tokens in the same wallet stay out of it.
+ */
+async function refreshBalance(state: ExitStrategyState): Promise<void> {
+  const onChain = await getTokenBalance(state.tokenAddress);
+  const allocated = BigInt(state.initialBalance) + BigInt(state.toppedUpRaw ?? "0") - BigInt(state.soldRaw);
+  const owned = allocated > 0n ? allocated : 0n;
+  state.currentBalance = (onChain < owned ? onChain : owned).toString();
+}
+
+function recordSold(state: ExitStrategyState, amount: bigint): void {
+  state.soldRaw = (BigInt(state.soldRaw) + amount).toString();
+}
+
+/** Multiple below which everything is sold, or null with no stop-loss set */
+function stopLevel(state: ExitStrategyState): number | null {
+  const levels: number[] = [];
+  if (state.stopLossMultiple != null) levels.push(state.stopLossMultiple);
+  if (state.trailingStopPct != null && state.peakMultiple) {
+    levels.push(state.peakMultiple * (1 - state.trailingStopPct / 100));
+  }
+  return levels.length > 0 ? Math.max(...levels) : null;
+}
+
+/**
+ * Fixed tranches trigger at their target. Trailing tranches arm at their
+ * target, then track the peak and trigger on the pullback from it.
+ */
+function trancheTriggered(state: ExitStrategyState, tranche: ExecutedTranche): boolean {
+  if (tranche.trigger === "time") return Date.now() - state.startedAt >= (tranche.afterMs ?? 0);
+  if (tranche.trigger === "liquidity") return (state.liquidityUsd ?? 0) >= (tranche.minLiquidityUsd ?? 0);
+  if (tranche.trailingPct == null) return state.currentMultiple >= tranche.targetMultiple;
+
+  if (!tranche.armedAt) {
+    if (state.currentMultiple < tranche.targetMultiple) return false;
+    tranche.armedAt = Date.now();
+    tranche.peakMultiple = state.currentMultiple;
+    addLog(
+      state,
+      `Tranche ${trancheLabel(tranche)} armed at ${state.currentMultiple.toFixed(2)}x — sells on a ${tranche.trailingPct}% pullback from peak`,
+      "info"
+    );
+    markDirty();
+    return false;
+  }
+
+  if (state.currentMultiple > (tranche.peakMultiple ?? 0)) {
+    tranche.peakMultiple = state.currentMultiple;
+    markDirty();
+  }
+  return state.currentMultiple <= tranche.peakMultiple! * (1 - tranche.trailingPct / 100);
+}
+
+function trancheLabel(tranche: Tranche): string {
+  if (tranche.trigger === "time") return formatAfter(tranche.afterMs ?? 0);
+  if (tranche.trigger === "liquidity") return `$${formatUsdShort(tranche.minLiquidityUsd ?? 0)}`;
+  return `${tranche.targetMultiple}x${tranche.trailingPct != null ? `~${tranche.trailingPct}%` : ""}`;
+}
+
+function formatAfter(ms: number): string {
+  if (ms % 86_400_000 === 0) return `${ms / 86_400_000}d`;
+  if (ms % 3_600_000 === 0) return `${ms / 3_600_000}h`;
+  return `${Math.round(ms / 60_000)}m`;
+}
+
+function formatUsdShort(usd: number): string {
+  if (usd >= 1e6) return `${+(usd / 1e6).toFixed(2)}m`;
+  if (usd >= 1e3) return `${+(usd / 1e3).toFixed(2)}k`;
+  return `${usd}`;
+}
+
+function formatPrice(price: number): string {
+  return price >= 1 ? price.toFixed(4) : price.toPrecision(4);
+}
+
 function formatTokenBalance(amount: bigint, decimals: number): string {
   const whole = amount / 10n ** BigInt(decimals);
   const frac = amount % 10n ** BigInt(decimals);
@@ -1,18 +1,25 @@
-import { type Address, erc20Abi } from "viem";
-import { getPublicClient, getAccount } from "./config.js";
-import { getAuction, getLaunches, type Launch } from "./api.js";
+import { type Address } from "viem";
+import type { Launch } from "./api.js";
+import { getCurrentBlock, subscribeLaunches } from "./auction-data.js";
+import { q96ToFdv } from "./bid-builder.js";
+import { getTokenBalance } from "./wallet.js";
 import { getStrategies, type StrategyState } from "./strategy.js";
+import { getBidJobs } from "./bid-jobs.js";
 import {
   runExitStrategy,
   getExitStrategy,
   type ExitProfileName,
 } from "./exit-strategy.js";
+import { claimAuction, isAutoClaimEnabled, isFailedAuction } from "./claims.js";
+import { refundedUsdc } from "./ledger.js";
+import { sendTelegramMessage } from "./notify.js";
 import { markDirty, registerCollector } from "./persistence.js";
 
-const POLL_INTERVAL_MS = 60_000; // Check every 60 seconds
-
 // Track which auctions we've already processed
 const processedGraduations = new Set<string>();
+// Exits or refunds being started, and auctions whose tokens or refunds are still unclaimed
+const starting = new Set<string>();
+const awaitingClaim = new Set<string>();
 
 /** Restore processed graduations from persisted state */
 export function setProcessedGraduations(addrs: string[]): void {
@@ -30,141 +37,205 @@ registerCollector(() => ({
 }));
 
 /**
- * Start the graduation monitor background loop.
- * Watches auctions that have active/completed bid strategies and detects graduation.
+ * Start the graduation monitor on the shared launch feed.
+ * Watches auctions that have active/completed bid strategies and detects
+ * graduation, or failure to graduate — then our bids are exited for a refund,
+ * including bids placed by armed bid jobs.
  */
 export function startGraduationMonitor(): void {
   console.log("[graduation-monitor] Started");
 
-  setInterval(async () => {
+  subscribeLaunches(async (launches) => {
     try {
-      await checkGraduations();
+      await checkGraduations(launches);
     } catch (err: any) {
       console.error("[graduation-monitor] Error:", err.message);
     }
-  }, POLL_INTERVAL_MS);
+  });
 }
 
-async function checkGraduations(): Promise<void> {
+async function checkGraduations(launches: Launch[]): Promise<void> {
+  const strategies = getStrategies().filter((s) => !processedGraduations.has(s.auctionAddress));
+  await checkFailedAuctions(biddedAuctions(strategies), launches);
+
   // Get strategies that have an exit profile configured
-  const strategies = getStrategies();
   const withExit = strategies.filter(
-    (s) => (s as any).exitProfile && !processedGraduations.has(s.auctionAddress)
+    (s) => s.exitProfile && !processedGraduations.has(s.auctionAddress)
   );
 
   if (withExit.length === 0) return;
 
-  // Fetch all launches to check graduation status
-  let launches: Launch[];
-  try {
-    launches = await getLaunches();
-  } catch {
-    return; // Transient error, try again next poll
-  }
-
   for (const strategy of withExit) {
     const launch = launches.find((l) => l.auction === strategy.auctionAddress);
     if (!launch) continue;
     if (!launch.isGraduated) continue;
 
-    // Already have an exit strategy running?
-    if (getExitStrategy(strategy.auctionAddress)) {
+    // Already have an exit strategy for this auction, or one running for its token?
+    if (getExitStrategy(strategy.auctionAddress) || getExitStrategy(launch.token)?.status === "running") {
       processedGraduations.add(strategy.auctionAddress);
       markDirty();
       continue;
     }
 
-    console.log(
-      `[graduation-monitor] ${launch.tokenSymbol} graduated! Starting exit strategy...`
-    );
-    processedGraduations.add(strategy.auctionAddress);
-    markDirty();
+    if (starting.has(strategy.auctionAddress)) continue;
+    if (!awaitingClaim.has(strategy.auctionAddress)) {
+      console.log(
+        `[graduation-monitor] ${launch.tokenSymbol} graduated! Starting exit strategy...`
+      );
+    }
+    starting.add(strategy.auctionAddress);
 
     try {
-      await startExitFromGraduation(strategy, launch);
+      const result = await startExitFromGraduation(strategy, launch);
+      // Unclaimed tokens: try again on the next launch update
+      if (result === "waiting") continue;
     } catch (err: any) {
       console.error(
         `[graduation-monitor] Failed to start exit for ${launch.tokenSymbol}: ${err.message}`
       );
+    } finally {
+      starting.delete(strategy.auctionAddress);
+    }
+    awaitingClaim.delete(strategy.auctionAddress);
+    processedGraduations.add(strategy.auctionAddress);
+    markDirty();
+  }
+}
+
+// ─── Failed auctions ───
+
+/** Unprocessed auctions we placed a bid on, through a strategy or an armed bid job */
+function biddedAuctions(strategies: StrategyState[]): string[] {
+  const auctions = new Set(strategies.filter((s) => s.bidsPlaced > 0).map((s) => s.auctionAddress));
+  for (const job of getBidJobs()) {
+    if (job.status === "succeeded" && !processedGraduations.has(job.auctionAddress)) auctions.add(job.auctionAddress);
+  }
+  return Array.from(auctions);
+}
+
+/** Auctions we bid on that ended below their required raise: claim refunds and notify */
+async function checkFailedAuctions(auctions: string[], launches: Launch[]): Promise<void> {
+  const ended = auctions.filter((auction) => {
+    const launch = launches.find((l) => l.auction === auction);
+    return launch && !launch.isGraduated && isFailedAuction(launch);
+  });
+  if (ended.length === 0) return;
+
+  const { blockNumber } = await getCurrentBlock();
+  for (const auction of ended) {
+    const launch = launches.find((l) => l.auction === auction)!;
+    if (!isFailedAuction(launch, blockNumber)) continue;
+    if (starting.has(auction)) continue;
+    starting.add(auction);
+
+    try {
+      const result = await refundFailedAuction(launch);
+      if (result === "waiting") continue;
+    } catch (err: any) {
+      console.error(`[graduation-monitor] Refund failed for ${launch.tokenSymbol}: ${err.message}`);
+      continue;
+    } finally {
+      starting.delete(auction);
     }
+    awaitingClaim.delete(auction);
+    processedGraduations.add(auction);
+    markDirty();
+  }
+}
+
+async function refundFailedAuction(launch: Launch): Promise<"done" | "waiting"> {
+  if (!awaitingClaim.has(launch.auction)) {
+    awaitingClaim.add(launch.auction);
+    console.log(`[graduation-monitor] ${launch.tokenSymbol} failed to graduate, claiming refunds...`);
   }
+
+  // The auto-claimer may already have exited some bids; either way the ledger has the refunds
+  const { errors, waiting } = await claimAuction(launch.auction);
+  if (waiting || errors.length > 0) return "waiting";
+
+  const refunded = refundedUsdc(launch.auction);
+  console.log(`[graduation-monitor] ${launch.tokenSymbol}: ${refunded} USDC refunded`);
+  await sendTelegramMessage(
+    refunded > 0
+      ? `⚠️ *${launch.tokenSymbol}* failed to graduate — ${refunded} USDC refunded`
+      : `⚠️ *${launch.tokenSymbol}* failed to graduate — no refund recorded, check \`claims\``
+  );
+  return "done";
 }
 
+// ─── Exits ───
+
 async function startExitFromGraduation(
   strategy: StrategyState,
   launch: Launch
-): Promise<void> {
-  const publicClient = getPublicClient();
-  const account = getAccount();
+): Promise<"started" | "skipped" | "waiting"> {
 
   const tokenAddress = launch.token as Address;
-  const tokenDecimals = parseInt(String((launch as any).tokenDecimals || "18"));
-  const totalSupply = BigInt((launch as any).totalSupply || "0");
+  const { tokenDecimals, totalSupply } = launch;
+
+  const { settlement } = strategy;
+  if (settlement?.status === "outbid") {
+    console.log(`[graduation-monitor] Our ${launch.tokenSymbol} bids were outbid, skipping exit`);
+    return "skipped";
+  }
 
   // Get our token balance
-  const tokenBalance = await publicClient.readContract({
-    address: tokenAddress,
-    abi: erc20Abi,
-    functionName: "balanceOf",
-    args: [account.address],
-  });
+  let tokenBalance = await getTokenBalance(tokenAddress);
+
+  // Tokens stay in the auction until claimed — claim them first
+  if (tokenBalance === 0n && isAutoClaimEnabled()) {
+    const { claimed, errors, waiting } = await claimAuction(strategy.auctionAddress);
+    if (claimed.some((c) => c.status === "claimed")) {
+      tokenBalance = await getTokenBalance(tokenAddress);
+    }
+    if (tokenBalance === 0n && (waiting || errors.length > 0)) {
+      if (!awaitingClaim.has(strategy.auctionAddress)) {
+        awaitingClaim.add(strategy.auctionAddress);
+        console.log(`[graduation-monitor] Waiting to claim ${launch.tokenSymbol} before starting exit`);
+      }
+      return "waiting";
+    }
+  }
 
   if (tokenBalance === 0n) {
     console.log(
       `[graduation-monitor] No ${launch.tokenSymbol} tokens in wallet, skipping exit`
     );
-    return;
+    return "skipped";
   }
 
-  // Compute entry FDV from clearing price
-  const entryFdv = computeEntryFdv(launch);
+  // Prefer what our bids actually paid; fall back to the clearing price
+  const entryFdv = settlement?.entryFdv ?? computeEntryFdv(launch);
   if (entryFdv <= 0) {
     console.error("[graduation-monitor] Could not compute entry FDV");
-    return;
+    return "skipped";
   }
 
-  const exitProfile = (strategy as any).exitProfile as string;
+  const exitProfile = strategy.exitProfile!;
   const stopLoss = strategy.stopLoss;
 
   // Run exit strategy in background
   runExitStrategy({
     auctionAddress: strategy.auctionAddress,
     tokenAddress,
+    tokenSymbol: launch.tokenSymbol,
     tokenDecimals,
     totalSupply,
     entryFdv,
     tokenBalance,
     profileOrCustom: exitProfile,
     stopLossMultiple: stopLoss,
+    trailingStopPct: strategy.trailingStopPct,
+    maxImpactPct: strategy.exitMaxImpactPct,
   }).catch((err) => {
     console.error(
       `[graduation-monitor] Exit strategy error for ${launch.tokenSymbol}: ${err.message}`
     );
   });
+  return "started";
 }
 
-/**
- * Compute entry FDV from the auction's clearing price using the same
- * q96ToFdv logic from strategy.ts.
- */
+/** Compute entry FDV from the auction's clearing price */
 function computeEntryFdv(launch: Launch): number {
-  const info = launch as any;
-  const clearingQ96 = parseFloat(info.clearingPrice || "0");
-  const floorPrice = parseFloat(info.floorPrice || "0");
-  if (clearingQ96 <= 0 || floorPrice <= 0) return 0;
-
-  const requiredRaised = parseFloat(info.requiredCurrencyRaised || "0");
-  const auctionAmount = parseFloat(info.auctionAmount || "0");
-  const totalSupply = parseFloat(info.totalSupply || "0");
-  const tokenDecimals = parseInt(info.tokenDecimals || "18");
-  const currencyDecimals = 6;
-
-  if (auctionAmount <= 0 || totalSupply <= 0 || requiredRaised <= 0) return 0;
-
-  const requiredRaisedHuman = requiredRaised / 10 ** currencyDecimals;
-  const auctionAmountHuman = auctionAmount / 10 ** tokenDecimals;
-  const totalSupplyHuman = totalSupply / 10 ** tokenDecimals;
-
-  const floorFdv = (requiredRaisedHuman / auctionAmountHuman) * totalSupplyHuman;
-  return clearingQ96 * (floorFdv / floorPrice);
+  return launch.clearingPrice ? q96ToFdv(launch.clearingPrice, launch) : 0;
 }
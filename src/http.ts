@@ -0,0 +1,218 @@
+// ─── Resilient HTTP: timeouts, jittered retries, rate limiting, circuit breaking ───
+
+export interface RequestPolicy {
+  /** Abort the attempt after this long */
+  timeoutMs: number;
+  /** Extra attempts after the first; only used for idempotent (GET) requests */
+  retries: number;
+}
+
+/** A non-2xx response. `retryable` covers 408, 429 and 5xx. */
+export class HttpStatusError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: string,
+    message: string,
+    readonly retryAfterMs: number | null = null
+  ) {
+    super(message);
+    this.name = "HttpStatusError";
+  }
+
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(name: string, retryInMs: number) {
+    super(`${name} circuit open after repeated failures — next attempt in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// ─── Token bucket ───
+
+export interface TokenBucket {
+  /** Wait until a token is available, then take it */
+  take(): Promise<void>;
+  available(): number;
+}
+
+export function createTokenBucket(capacity: number, refillPerSecond: number): TokenBucket {
+  let tokens = capacity;
+  let last = Date.now();
+
+  function refill(): void {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - last) / 1000) * refillPerSecond);
+    last = now;
+  }
+
+  return {
+    async take(): Promise<void> {
+      for (;;) {
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(((1 - tokens) / refillPerSecond) * 1000);
+      }
+    },
+    available(): number {
+      refill();
+      return Math.floor(tokens);
+    },
+  };
+}
+
+// ─── Circuit breaker ───
+
+export interface CircuitState {
+  state: "closed" | "open" | "half-open";
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastError: string | null;
+}
+
+export interface CircuitBreaker {
+  /** Throws CircuitOpenError while open; lets a single probe through once the cooldown passes */
+  check(): void;
+  success(): void;
+  failure(err: Error): void;
+  getState(): CircuitState;
+}
+
+export function createCircuitBreaker(name: string, failureThreshold: number, cooldownMs: number): CircuitBreaker {
+  const s: CircuitState = { state: "closed", consecutiveFailures: 0, openedAt: null, lastError: null };
+  let probeInFlight = false;
+
+  return {
+    check(): void {
+      if (s.state === "closed") return;
+      const waited = Date.now() - (s.openedAt ?? 0);
+      if (s.state === "open" && waited >= cooldownMs) {
+        s.state = "half-open";
+        console.log(`[http] ${name} circuit half-open — probing`);
+      }
+      if (s.state === "half-open" && !probeInFlight) {
+        probeInFlight = true;
+        return;
+      }
+      throw new CircuitOpenError(name, Math.max(0, cooldownMs - waited));
+    },
+
+    success(): void {
+      if (s.state !== "closed") console.log(`[http] ${name} circuit closed`);
+      s.state = "closed";
+      s.consecutiveFailures = 0;
+      s.openedAt = null;
+      probeInFlight = false;
+    },
+
+    failure(err: Error): void {
+      s.consecutiveFailures++;
+      s.lastError = err.message.slice(0, 200);
+      probeInFlight = false;
+      if (s.state === "half-open" || s.consecutiveFailures >= failureThreshold) {
+        if (s.state !== "open") console.error(`[http] ${name} circuit open: ${s.lastError}`);
+        s.state = "open";
+        s.openedAt = Date.now();
+      }
+    },
+
+    getState(): CircuitState {
+      return { ...s };
+    },
+  };
+}
+
+// ─── Request ───
+
+export interface RequestOptions {
+  policy: RequestPolicy;
+  limiter?: TokenBucket;
+  breaker?: CircuitBreaker;
+  /** Prefix for HttpStatusError messages, e.g. "Flow.bid API error" */
+  errorPrefix?: string;
+}
+
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+
+/**
+ * Fetch and parse JSON with a per-attempt timeout. GETs are retried with
+ * jittered exponential backoff on timeouts, network errors, 408/429 and 5xx;
+ * other methods are never retried since they may not be idempotent.
+ */
+export async function requestJson<T>(url: string, init: RequestInit, options: RequestOptions): Promise<T> {
+  const { policy, limiter, breaker, errorPrefix = "HTTP error" } = options;
+  const method = (init.method || "GET").toUpperCase();
+  const attempts = method === "GET" ? policy.retries + 1 : 1;
+
+  breaker?.check();
+
+  let lastErr: Error = new Error("Request not attempted");
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      const backoff = Math.min(BACKOFF_BASE_MS * 2 ** (attempt - 1), BACKOFF_MAX_MS);
+      const retryAfter = lastErr instanceof HttpStatusError ? lastErr.retryAfterMs : null;
+      // Full jitter between 50% and 150% of the backoff, or the server's Retry-After
+      await sleep(retryAfter ?? backoff * (0.5 + Math.random()));
+    }
+    await limiter?.take();
+
+    try {
+      const result = await attemptOnce<T>(url, init, policy.timeoutMs, errorPrefix);
+      breaker?.success();
+      return result;
+    } catch (err: any) {
+      lastErr = err;
+      if (!isTransient(err)) {
+        // The service answered — a 4xx says nothing about its health
+        breaker?.success();
+        throw err;
+      }
+    }
+  }
+
+  breaker?.failure(lastErr);
+  throw lastErr;
+}
+
+async function attemptOnce<T>(url: string, init: RequestInit, timeoutMs: number, errorPrefix: string): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) {
+      const body = await res.text();
+      const retryAfter = Number(res.headers.get("retry-after"));
+      throw new HttpStatusError(
+        res.status,
+        body,
+        `${errorPrefix} ${res.status}: ${body}`,
+        Number.isFinite(retryAfter) && retryAfter > 0 ? Math.min(retryAfter * 1000, BACKOFF_MAX_MS) : null
+      );
+    }
+    return (await res.json()) as T;
+  } catch (err: any) {
+    if (controller.signal.aborted) {
+      throw new Error(`Request timed out after ${timeoutMs}ms: ${new URL(url).pathname}`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function isTransient(err: unknown): boolean {
+  if (err instanceof HttpStatusError) return err.retryable;
+  // Timeouts, DNS/connection failures (fetch throws TypeError), truncated bodies
+  return true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
@@ -45,7 +45,7 @@ auction
   .command("info <address>")
   .description("Show auction details")
   .action(async (address: string) => {
-    const { getAuction, getCurrentBlock } = await import("./api.js");
+    const { getAuction, getCurrentBlock, jsonReplacer } = await import("./api.js");
     const { estimateTimestampForBlock, formatTimestamp, formatCountdown } = await import("./utils.js");
 
     const [auctionData, block] = await Promise.all([
@@ -54,7 +54,7 @@ auction
     ]);
 
     console.log("Auction info:");
-    console.log(JSON.stringify(auctionData, null, 2));
+    console.log(JSON.stringify(auctionData, jsonReplacer, 2));
 
     if (auctionData.startBlock) {
       const estTimestamp = estimateTimestampForBlock(
@@ -78,20 +78,21 @@ auction
   .command("safety <address>")
   .description("Run safety check on an auction")
   .action(async (address: string) => {
-    const { getSafety } = await import("./api.js");
+    const { getSafety, jsonReplacer } = await import("./api.js");
     const result = await getSafety(address);
-    console.log("Safety assessment:");
-    console.log(JSON.stringify(result, null, 2));
+    console.log(`Safety assessment: ${result.riskLevel ?? "no verdict"}`);
+    for (const warning of result.warnings) console.log(`  ⚠ ${warning}`);
+    console.log(JSON.stringify(result, jsonReplacer, 2));
   });
 
 auction
   .command("bids <address>")
   .description("List current bids for an auction")
   .action(async (address: string) => {
-    const { getAuctionBids } = await import("./api.js");
+    const { getAuctionBids, jsonReplacer } = await import("./api.js");
     const bids = await getAuctionBids(address);
     console.log(`Bids for auction ${address}:`);
-    console.log(JSON.stringify(bids, null, 2));
+    console.log(JSON.stringify(bids, jsonReplacer, 2));
   });
 
 // --- Bid commands ---
@@ -146,6 +147,155 @@ bid
     });
   });
 
+// --- Recording & replay ---
+const replay = program.command("replay").description("Record auctions and replay bid strategies against them");
+
+replay
+  .command("record <address>")
+  .description("Record an auction block by block until it ends")
+  .action(async (address: string) => {
+    const { startRecording, getActiveRecordings } = await import("./auction-recorder.js");
+
+    const recording = await startRecording(address);
+    console.log(`Recording ${address} to ${recording.file} (Ctrl+C to stop early)`);
+    await new Promise<void>((resolve) => {
+      const timer = setInterval(() => {
+        if (getActiveRecordings().length > 0) return;
+        clearInterval(timer);
+        resolve();
+      }, 2000);
+    });
+  });
+
+replay
+  .command("list")
+  .description("List recorded auctions")
+  .action(async () => {
+    const { listRecordingFiles } = await import("./auction-recorder.js");
+
+    const files = listRecordingFiles();
+    if (files.length === 0) console.log("No recordings yet");
+    for (const f of files) {
+      console.log(`  ${f.file}  ${(f.bytes / 1024).toFixed(0)} KB  ${new Date(f.modifiedAt).toISOString()}`);
+    }
+  });
+
+replay
+  .command("run <recording>")
+  .description("Replay a bid strategy against a recording and report whether it would have filled")
+  .requiredOption("--min <usd>", "Minimum FDV in USD", parseFloat)
+  .requiredOption("--max <usd>", "Maximum FDV in USD", parseFloat)
+  .requiredOption("--amount <usdc>", "Bid amount in USDC", parseFloat)
+  .option("--pricing <specs>", "Pricing policies to compare, comma-separated (e.g. fixed:5,fixed:15,trend)")
+  .option("--window <blocks>", "Bid window sizes to compare, comma-separated (e.g. 5,15,30)")
+  .option("--ladder <rungs>", 'Ladder instead of a single bid, e.g. "40@1.1x,30@1.5x,30@max"')
+  .option("--latency <blocks>", "Blocks between sending a bid and it landing", "1")
+  .option("-v, --verbose", "Print the strategy log of each run")
+  .action(
+    async (
+      file: string,
+      opts: { min: number; max: number; amount: number; pricing?: string; window?: string; ladder?: string; latency: string; verbose?: boolean }
+    ) => {
+      const { loadRecording } = await import("./auction-recorder.js");
+      const { replayStrategy } = await import("./replay.js");
+      const { parsePricing, describePricing } = await import("./bid-pricing.js");
+      const { parseLadder, DEFAULT_BID_WINDOW_BLOCKS } = await import("./strategy.js");
+
+      const recording = await loadRecording(file);
+      const pricings = opts.pricing ? opts.pricing.split(",").map(parsePricing) : [undefined];
+      const windows = opts.window ? opts.window.split(",").map(Number) : [DEFAULT_BID_WINDOW_BLOCKS];
+      const ladder = opts.ladder ? parseLadder(opts.ladder) : undefined;
+
+      // Strategy logs go to the console as they run; only the summary is wanted here
+      const log = console.log;
+      const results = [];
+      for (const pricing of pricings) {
+        for (const bidWindowBlocks of windows) {
+          if (!opts.verbose) console.log = () => {};
+          try {
+            const report = await replayStrategy(recording, {
+              amount: opts.amount,
+              minFdvUsd: opts.min,
+              maxFdvUsd: opts.max,
+              pricing,
+              ladder,
+              bidWindowBlocks,
+              latencyBlocks: Number(opts.latency),
+            });
+            results.push({ pricing: ladder ? `ladder ${opts.ladder}` : describePricing(pricing), bidWindowBlocks, report });
+          } finally {
+            console.log = log;
+          }
+        }
+      }
+
+      const first = results[0].report;
+      console.log(`Replayed ${first.auctionAddress} — blocks ${first.firstBlock}..${first.lastBlock}, end ${first.endBlock ?? "?"}`);
+      console.log(`Final clearing FDV: $${first.finalClearingFdv.toLocaleString()}`);
+      if (!first.coversEnd) console.log("Warning: recording stops before the end block — fills use the last recorded price");
+      console.log("");
+      for (const { pricing, bidWindowBlocks, report } of results) {
+        const placed = report.bids.filter((b) => b.status === "placed");
+        const rejected = report.bids.length - placed.length;
+        const outcome = report.filled
+          ? `FILLED ${report.filledAmount}/${opts.amount} USDC @ $${report.fillFdv!.toLocaleString()} FDV`
+          : placed.length > 0
+            ? "not filled (outbid)"
+            : "no bid landed";
+        const bidFdvs = placed.map((b) => `$${b.bidFdv.toLocaleString()}`).join(", ") || "-";
+        console.log(
+          `  ${pricing.padEnd(22)} window ${String(bidWindowBlocks).padStart(3)}  ${outcome}  (bid ${bidFdvs}, ${rejected} rejected)`
+        );
+      }
+    }
+  );
+
+// --- Trading backtest ---
+program
+  .command("backtest <csv>")
+  .description("Backtest a trading strategy over a CSV price series (timestamp,price rows)")
+  .requiredOption("--type <type>", "dca, twap or mean-reversion")
+  .requiredOption("--params <json>", `Strategy params, e.g. '{"amountPerBuy":20,"intervalMs":3600000}'`)
+  .option("--risk <json>", `Risk limits, e.g. '{"stopLossPercent":15}'`)
+  .option("--slippage <bps>", "Slippage per fill in basis points", "50")
+  .option("--gas <eth>", "Gas per swap in ETH", "0.00001")
+  .option("--capital <usdc>", "Starting USDC", "1000")
+  .action(
+    async (
+      file: string,
+      opts: { type: string; params: string; risk?: string; slippage: string; gas: string; capital: string }
+    ) => {
+      const fs = await import("fs");
+      const { BACKTEST_EVALUATORS, createBacktestState, parsePriceCsv, runBacktest } = await import("./trading/backtest.js");
+      type StrategyType = keyof typeof BACKTEST_EVALUATORS;
+
+      if (!(opts.type in BACKTEST_EVALUATORS)) throw new Error(`Unknown strategy type: ${opts.type}`);
+      const type = opts.type as StrategyType;
+      const series = parsePriceCsv(fs.readFileSync(file, "utf-8"));
+      const state = createBacktestState(
+        type,
+        { tokenAddress: "backtest", tokenSymbol: "TOKEN", tokenDecimals: 18 },
+        JSON.parse(opts.params),
+        opts.risk ? JSON.parse(opts.risk) : undefined,
+        series[0]?.timestamp ?? 0
+      );
+
+      const result = await runBacktest(state, BACKTEST_EVALUATORS[type], series, {
+        slippageBps: Number(opts.slippage),
+        gasEthPerSwap: Number(opts.gas),
+        capital: Number(opts.capital),
+      });
+
+      console.log(`${type} over ${result.points} prices, ${new Date(result.from).toISOString()} → ${new Date(result.to).toISOString()}`);
+      console.log(`  PnL:          ${result.pnl.toFixed(2)} USDC (${result.pnlPct.toFixed(2)}%)`);
+      console.log(`  Realized:     ${result.realized.toFixed(2)} | Unrealized: ${result.unrealized.toFixed(2)} | Gas: ${result.gasUsd.toFixed(2)}`);
+      console.log(`  Max drawdown: ${result.maxDrawdownPct.toFixed(2)}%`);
+      console.log(`  Trades:       ${result.tradeCount} (${result.buys} buys, ${result.sells} sells), ended ${result.status}`);
+      console.log("\nEquity curve (timestamp,equity):");
+      for (const p of result.equityCurve) console.log(`${p.timestamp},${p.equity.toFixed(2)}`);
+    }
+  );
+
 // --- Launch server ---
 program
   .command("launch")
@@ -162,12 +312,12 @@ program
   .description("List your bids")
   .action(async () => {
     const { getAccount } = await import("./config.js");
-    const { getUserBids } = await import("./api.js");
+    const { getUserBids, jsonReplacer } = await import("./api.js");
 
     const account = getAccount();
     const bids = await getUserBids(account.address);
     console.log(`Bids for ${account.address}:`);
-    console.log(JSON.stringify(bids, null, 2));
+    console.log(JSON.stringify(bids, jsonReplacer, 2));
   });
 
 program.parseAsync();
@@ -0,0 +1,78 @@
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+import { validateShape } from "./storage/validate.js";
+
+const MAX_ENTRIES = 500;
+
+/**
+ * Portfolio ledger: USDC that came back to the wallet outside of trades.
+ * Today that is refunds from auctions that failed to graduate, recorded
+ * whichever path exited the bid (auto-claim, graduation monitor or `claim`).
+ */
+export interface LedgerEntry {
+  id: string;
+  time: number;
+  kind: "refund";
+  auctionAddress: string;
+  bidId: string | null;
+  /** USDC credited to the wallet */
+  usdc: number;
+  txHash: string | null;
+  note: string | null;
+}
+
+const entries: LedgerEntry[] = [];
+
+registerCollector(() => ({
+  section: "Portfolio Ledger",
+  data: entries,
+  key: (e: LedgerEntry) => e.id,
+}));
+
+registerSchema("Portfolio Ledger", {
+  migrations: [],
+  validate: (record) =>
+    validateShape(record, {
+      id: "string",
+      time: "number",
+      kind: ["refund"],
+      auctionAddress: "string",
+      bidId: "string?",
+      usdc: "number",
+      txHash: "string?",
+      note: "string?",
+    }),
+});
+
+// ─── Public API ───
+
+/** Newest first */
+export function getLedger(): LedgerEntry[] {
+  return [...entries].reverse();
+}
+
+/** Restore from persisted state */
+export function setLedger(saved: LedgerEntry[]): void {
+  entries.push(...saved.sort((a, b) => a.time - b.time));
+}
+
+/** Record an entry; a repeat of the same kind, auction and bid is ignored */
+export function recordLedgerEntry(entry: Omit<LedgerEntry, "id" | "time">): LedgerEntry {
+  const id = `${entry.kind}:${entry.auctionAddress.toLowerCase()}:${entry.bidId ?? entry.txHash ?? Date.now()}`;
+  const existing = entries.find((e) => e.id === id);
+  if (existing) return existing;
+
+  const recorded: LedgerEntry = { id, time: Date.now(), ...entry };
+  entries.push(recorded);
+  if (entries.length > MAX_ENTRIES) entries.shift();
+  markDirty();
+  console.log(`[ledger] ${recorded.kind} ${recorded.usdc} USDC from ${recorded.auctionAddress.slice(0, 10)}`);
+  return recorded;
+}
+
+/** Total USDC refunded by an auction, or by every auction */
+export function refundedUsdc(auctionAddress?: string): number {
+  const auction = auctionAddress?.toLowerCase();
+  return entries
+    .filter((e) => e.kind === "refund" && (!auction || e.auctionAddress.toLowerCase() === auction))
+    .reduce((sum, e) => sum + e.usdc, 0);
+}
@@ -1,12 +1,18 @@
+import { isPaperMode } from "./config.js";
+
 const TELEGRAM_BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN || "";
 const TELEGRAM_CHAT_ID = process.env.TELEGRAM_CHAT_ID || "";
 
+/** Heads every Telegram message in paper mode */
+export const PAPER_LABEL = "🧪 PAPER MODE — simulated, no real transactions";
+
 /**
  * Send a Telegram message via Bot API HTTP POST.
  * Silently skips if TELEGRAM_BOT_TOKEN or TELEGRAM_CHAT_ID are not configured.
  */
 export async function sendTelegramMessage(text: string): Promise<void> {
   if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) return;
+  if (isPaperMode()) text = `${PAPER_LABEL}\n${text}`;
 
   try {
     const url = `https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`;
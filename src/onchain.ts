@@ -0,0 +1,174 @@
+import { parseAbi, type Address } from "viem";
+import { getPublicClient } from "./config.js";
+import type { AuctionFields, AuctionInfo, CurrentBlock } from "./api.js";
+
+// ─── Direct on-chain reads of CCA auction state ───
+//
+// Used by auction-data.ts when the Flow.bid API is unavailable, and to
+// cross-check API data right before bidding. Only timing and price state
+// lives on the auction contract; token economics (supply, decimals, raise
+// target) come from the last good API read.
+
+export const CCA_AUCTION_ABI = parseAbi([
+  "function submitBid(uint256 maxPrice, uint128 amount, address owner, bytes hookData) payable returns (uint256 bidId)",
+  "function tickSpacing() view returns (uint256)",
+  "function currency() view returns (address)",
+  "function startBlock() view returns (uint64)",
+  "function endBlock() view returns (uint64)",
+  "function claimBlock() view returns (uint64)",
+  "function floorPrice() view returns (uint256)",
+  "function clearingPrice() view returns (uint256)",
+  "function currencyRaised() view returns (uint256)",
+]);
+
+// A clearing price gap below this fraction is checkpoint timing, not drift
+const CLEARING_TOLERANCE = 0.01;
+
+export interface OnchainAuctionState {
+  startBlock: number;
+  endBlock: number;
+  claimBlock: number | null;
+  /** Q96 */
+  floorPrice: bigint;
+  /** Q96 as of the last checkpoint, null before the first one */
+  clearingPrice: bigint | null;
+  currencyRaised: bigint | null;
+  blockNumber: number;
+}
+
+export async function readCurrentBlock(): Promise<CurrentBlock> {
+  const block = await getPublicClient().getBlock();
+  return { blockNumber: Number(block.number), timestamp: Number(block.timestamp) };
+}
+
+export async function readAuctionState(auctionAddress: string): Promise<OnchainAuctionState> {
+  const client = getPublicClient();
+  const address = auctionAddress as Address;
+  const call = <F extends (typeof CCA_AUCTION_ABI)[number]["name"]>(functionName: F) =>
+    ({ address, abi: CCA_AUCTION_ABI, functionName }) as const;
+
+  const blockNumber = await client.getBlockNumber();
+  const [startBlock, endBlock, claimBlock, floorPrice, clearingPrice, currencyRaised] = await client.multicall({
+    contracts: [
+      call("startBlock"),
+      call("endBlock"),
+      call("claimBlock"),
+      call("floorPrice"),
+      call("clearingPrice"),
+      call("currencyRaised"),
+    ],
+    blockNumber,
+    allowFailure: true,
+  });
+
+  if (startBlock.status === "failure" || endBlock.status === "failure" || floorPrice.status === "failure") {
+    const err = [startBlock, endBlock, floorPrice].find((r) => r.status === "failure")?.error;
+    throw new Error(`Could not read auction ${auctionAddress} on-chain: ${err?.message ?? "unknown error"}`);
+  }
+
+  return {
+    startBlock: Number(startBlock.result),
+    endBlock: Number(endBlock.result),
+    claimBlock: claimBlock.status === "success" ? Number(claimBlock.result) : null,
+    floorPrice: floorPrice.result,
+    clearingPrice: clearingPrice.status === "success" && clearingPrice.result > 0n ? clearingPrice.result : null,
+    currencyRaised: currencyRaised.status === "success" ? currencyRaised.result : null,
+    blockNumber: Number(blockNumber),
+  };
+}
+
+export interface BidConfig {
+  /** Q96 distance between valid bid prices */
+  tickSpacing: bigint;
+  /** Token bids are paid in */
+  currency: Address;
+}
+
+/** Immutable per-auction bid parameters, cached for the life of the process */
+const bidConfigs = new Map<string, BidConfig>();
+
+export async function readBidConfig(auctionAddress: string): Promise<BidConfig> {
+  const key = auctionAddress.toLowerCase();
+  const cached = bidConfigs.get(key);
+  if (cached) return cached;
+
+  const client = getPublicClient();
+  const address = auctionAddress as Address;
+  const [tickSpacing, currency] = await Promise.all([
+    client.readContract({ address, abi: CCA_AUCTION_ABI, functionName: "tickSpacing" }),
+    client.readContract({ address, abi: CCA_AUCTION_ABI, functionName: "currency" }),
+  ]);
+  if (tickSpacing <= 0n) throw new Error(`Auction ${auctionAddress} reports tick spacing ${tickSpacing}`);
+
+  const config = { tickSpacing, currency };
+  bidConfigs.set(key, config);
+  return config;
+}
+
+/**
+ * Overlay on-chain state onto the last known API view of the auction.
+ * Without a previous API read the economics are zero, so FDV conversions
+ * return 0 and callers fall back to their no-clearing-data paths.
+ */
+export function mergeAuctionState(chain: OnchainAuctionState, known: AuctionInfo | null): AuctionInfo {
+  const economics: Pick<AuctionFields, "tokenDecimals" | "totalSupply" | "auctionAmount" | "requiredCurrencyRaised"> =
+    known ?? { tokenDecimals: 18, totalSupply: 0n, auctionAmount: 0n, requiredCurrencyRaised: 0n };
+
+  return {
+    ...known,
+    auctionAddress: known?.auctionAddress ?? null,
+    tokenSymbol: known?.tokenSymbol ?? null,
+    tokenName: known?.tokenName ?? null,
+    tokenDecimals: economics.tokenDecimals,
+    totalSupply: economics.totalSupply,
+    auctionAmount: economics.auctionAmount,
+    requiredCurrencyRaised: economics.requiredCurrencyRaised,
+    startBlock: chain.startBlock,
+    endBlock: chain.endBlock,
+    claimBlock: chain.claimBlock ?? known?.claimBlock ?? null,
+    floorPrice: chain.floorPrice,
+    clearingPrice: chain.clearingPrice,
+    currencyRaised: chain.currencyRaised ?? known?.currencyRaised ?? 0n,
+  };
+}
+
+// ─── Cross-checking ───
+
+export interface CrossCheck {
+  chain: OnchainAuctionState;
+  /** Human-readable differences between the API and the contract; empty when they agree */
+  discrepancies: string[];
+  /** Higher of the two clearing prices — the contract rejects bids at or below either */
+  clearingPrice: bigint | null;
+}
+
+export async function crossCheckAuction(auctionAddress: string, apiInfo: AuctionFields): Promise<CrossCheck> {
+  const chain = await readAuctionState(auctionAddress);
+  const discrepancies: string[] = [];
+
+  if (apiInfo.startBlock && apiInfo.startBlock !== chain.startBlock) {
+    discrepancies.push(`startBlock: API ${apiInfo.startBlock}, chain ${chain.startBlock}`);
+  }
+  if (apiInfo.endBlock !== null && apiInfo.endBlock !== chain.endBlock) {
+    discrepancies.push(`endBlock: API ${apiInfo.endBlock}, chain ${chain.endBlock}`);
+  }
+  if (apiInfo.floorPrice > 0n && apiInfo.floorPrice !== chain.floorPrice) {
+    discrepancies.push(`floorPrice: API ${apiInfo.floorPrice}, chain ${chain.floorPrice}`);
+  }
+
+  const apiClearing = apiInfo.clearingPrice ?? 0n;
+  const chainClearing = chain.clearingPrice ?? 0n;
+  if (chainClearing > 0n && relativeGap(apiClearing, chainClearing) > CLEARING_TOLERANCE) {
+    discrepancies.push(`clearingPrice: API ${apiInfo.clearingPrice ?? "none"}, chain ${chain.clearingPrice}`);
+  }
+
+  const clearingPrice = apiClearing > chainClearing ? apiClearing : chainClearing;
+  return { chain, discrepancies, clearingPrice: clearingPrice > 0n ? clearingPrice : null };
+}
+
+function relativeGap(a: bigint, b: bigint): number {
+  const hi = a > b ? a : b;
+  if (hi === 0n) return 0;
+  const diff = a > b ? a - b : b - a;
+  return Number((diff * 1_000_000n) / hi) / 1_000_000;
+}
@@ -0,0 +1,219 @@
+import { keccak256, parseEther, parseUnits, toHex, type Hash } from "viem";
+import { isPaperMode, USDC_BASE } from "./config.js";
+import type { UserBid } from "./api.js";
+import { getAuction, getCurrentBlock, getLaunches } from "./auction-data.js";
+import { q96ToFdv } from "./bid-builder.js";
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+
+// ─── Paper mode: virtual ledger ───
+//
+// With PAPER_MODE=1 nothing is signed or broadcast. Bids and swaps are
+// checked against live chain state and then settled here instead: balances,
+// bids and trades live in this ledger and are persisted to their own state
+// file, so a paper session never mixes with real positions.
+
+const USDC_DECIMALS = 6;
+const ETH_KEY = "eth";
+
+export interface PaperBid {
+  /** Simulated transaction hash */
+  id: string;
+  auctionAddress: string;
+  /** USDC */
+  amount: number;
+  maxPriceQ96: string;
+  maxFdvUsd: number;
+  status: "open" | "filled" | "refunded";
+  tokenAddress: string | null;
+  /** Raw token units received on claim */
+  tokensRaw: string | null;
+  placedAt: number;
+  settledAt: number | null;
+}
+
+export interface PaperTrade {
+  hash: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  at: number;
+}
+
+export interface PaperLedger {
+  startedAt: number;
+  /** Raw balances keyed by lowercased token address, "eth" for ether */
+  balances: Record<string, string>;
+  bids: PaperBid[];
+  trades: PaperTrade[];
+}
+
+let ledger: PaperLedger = freshLedger();
+let txCounter = 0;
+
+// Only a paper session has a ledger worth saving
+if (isPaperMode()) {
+  registerCollector(() => ({ section: "Paper Ledger", data: ledger }));
+  registerSchema("Paper Ledger", { migrations: [] });
+}
+
+function freshLedger(): PaperLedger {
+  return {
+    startedAt: Date.now(),
+    balances: {
+      [USDC_BASE.toLowerCase()]: parseUnits(process.env.PAPER_USDC || "1000", USDC_DECIMALS).toString(),
+      [ETH_KEY]: parseEther(process.env.PAPER_ETH || "0.1").toString(),
+    },
+    bids: [],
+    trades: [],
+  };
+}
+
+export function getPaperLedger(): PaperLedger {
+  return ledger;
+}
+
+/** Restore from persisted state */
+export function setPaperLedger(saved: PaperLedger): void {
+  ledger = saved;
+}
+
+/** Start over with the configured starting balances */
+export function resetPaperLedger(): PaperLedger {
+  ledger = freshLedger();
+  markDirty();
+  return ledger;
+}
+
+/** A unique, never-broadcast transaction hash for a simulated write */
+export function paperTxHash(label: string): Hash {
+  return keccak256(toHex(`paper:${label}:${Date.now()}:${txCounter++}`));
+}
+
+// ─── Balances ───
+
+export function paperTokenBalance(token: string): bigint {
+  return BigInt(ledger.balances[token.toLowerCase()] ?? "0");
+}
+
+export function paperEthBalance(): bigint {
+  return BigInt(ledger.balances[ETH_KEY] ?? "0");
+}
+
+function credit(token: string, amount: bigint): void {
+  const key = token.toLowerCase();
+  ledger.balances[key] = (paperTokenBalance(key) + amount).toString();
+}
+
+function debit(token: string, amount: bigint, symbol: string): void {
+  const balance = paperTokenBalance(token);
+  if (balance < amount) {
+    throw new Error(`Paper ledger: insufficient ${symbol} (have ${balance}, need ${amount})`);
+  }
+  ledger.balances[token.toLowerCase()] = (balance - amount).toString();
+}
+
+// ─── Writes ───
+
+/** Escrow the bid amount and record an open bid */
+export function recordPaperBid(params: {
+  auctionAddress: string;
+  amount: number;
+  maxPriceQ96: bigint;
+  maxFdvUsd: number;
+}): PaperBid {
+  debit(USDC_BASE, parseUnits(String(params.amount), USDC_DECIMALS), "USDC");
+  const bid: PaperBid = {
+    id: paperTxHash("bid"),
+    auctionAddress: params.auctionAddress,
+    amount: params.amount,
+    maxPriceQ96: params.maxPriceQ96.toString(),
+    maxFdvUsd: params.maxFdvUsd,
+    status: "open",
+    tokenAddress: null,
+    tokensRaw: null,
+    placedAt: Date.now(),
+    settledAt: null,
+  };
+  ledger.bids.push(bid);
+  markDirty();
+  console.log(`[paper] Bid ${params.amount} USDC on ${params.auctionAddress.slice(0, 10)} @ $${params.maxFdvUsd} FDV`);
+  return bid;
+}
+
+/** Settle a swap at the quoted output amount */
+export function recordPaperSwap(tokenIn: string, tokenOut: string, amountIn: bigint, amountOut: bigint): PaperTrade {
+  debit(tokenIn, amountIn, tokenIn.toLowerCase() === USDC_BASE.toLowerCase() ? "USDC" : tokenIn);
+  credit(tokenOut, amountOut);
+  const trade: PaperTrade = {
+    hash: paperTxHash("swap"),
+    tokenIn,
+    tokenOut,
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    at: Date.now(),
+  };
+  ledger.trades.push(trade);
+  markDirty();
+  console.log(`[paper] Swap ${amountIn} ${tokenIn.slice(0, 10)} → ${amountOut} ${tokenOut.slice(0, 10)}`);
+  return trade;
+}
+
+/**
+ * Settle open paper bids on auctions that have ended (all auctions when no
+ * address is given). A bid at or above the final clearing price fills at
+ * the clearing price (partial fills at the clearing tick count as full);
+ * anything else is refunded.
+ */
+export async function claimPaperBids(auctionAddress?: string): Promise<PaperBid[]> {
+  const open = ledger.bids.filter(
+    (b) => b.status === "open" && (!auctionAddress || b.auctionAddress.toLowerCase() === auctionAddress.toLowerCase())
+  );
+  if (open.length === 0) return [];
+
+  const { blockNumber } = await getCurrentBlock();
+  const launches = await getLaunches();
+  const settled: PaperBid[] = [];
+
+  for (const bid of open) {
+    const auction = await getAuction(bid.auctionAddress);
+    if (auction.endBlock === null || blockNumber < auction.endBlock) continue;
+
+    const clearing = auction.clearingPrice ?? auction.floorPrice;
+    const launch = launches.find((l) => l.auction.toLowerCase() === bid.auctionAddress.toLowerCase());
+    const clearingFdv = q96ToFdv(clearing, auction);
+
+    if (BigInt(bid.maxPriceQ96) >= clearing && launch && clearingFdv > 0) {
+      // Tokens bought at the clearing token price
+      const supply = Number(auction.totalSupply) / 10 ** auction.tokenDecimals;
+      const tokens = bid.amount / (clearingFdv / supply);
+      const tokensRaw = BigInt(Math.floor(tokens * 10 ** auction.tokenDecimals));
+      credit(launch.token, tokensRaw);
+      bid.status = "filled";
+      bid.tokenAddress = launch.token;
+      bid.tokensRaw = tokensRaw.toString();
+    } else {
+      credit(USDC_BASE, parseUnits(String(bid.amount), USDC_DECIMALS));
+      bid.status = "refunded";
+    }
+    bid.settledAt = Date.now();
+    settled.push(bid);
+    console.log(`[paper] Bid on ${bid.auctionAddress.slice(0, 10)} ${bid.status}`);
+  }
+
+  if (settled.length > 0) markDirty();
+  return settled;
+}
+
+/** Paper bids in the shape of the API's user bids */
+export function getPaperUserBids(): UserBid[] {
+  return ledger.bids.map((b) => ({
+    auction: b.auctionAddress,
+    bidId: b.id,
+    maxPrice: BigInt(b.maxPriceQ96),
+    amountBid: parseUnits(String(b.amount), USDC_DECIMALS),
+    isFilled: b.status === "filled",
+    hasClaimedTokens: b.status === "filled",
+    hasExited: b.status === "refunded",
+  }));
+}
@@ -1,22 +1,96 @@
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
+import { createMarkdownBackend } from "./storage/markdown.js";
+import { createSqliteBackend } from "./storage/sqlite.js";
+import { isPaperMode } from "./config.js";
+import type { SectionMigration } from "./storage/validate.js";
+import type { LoadedState, SectionSnapshot, StorageBackend } from "./storage/types.js";
+
+export type { LoadedState } from "./storage/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
-const STATE_FILE = path.join(__dirname, "..", "data", "state.md");
+const DATA_DIR = path.join(__dirname, "..", "data");
 
 const DEBOUNCE_MS = 5_000;
 
+// ─── Storage backend (STATE_BACKEND=markdown | sqlite) ───
+
+let backend: StorageBackend | null = null;
+// Markdown state to import when a SQLite database starts out empty
+let legacyStateFile: string | null = null;
+
+function getBackend(): StorageBackend {
+  if (!backend) {
+    const kind = (process.env.STATE_BACKEND || "markdown").toLowerCase();
+    // Paper sessions keep their own state so simulated positions never load in live mode
+    const name = isPaperMode() ? "paper-state" : "state";
+    switch (kind) {
+      case "sqlite":
+        backend = createSqliteBackend(path.join(DATA_DIR, `${name}.db`));
+        legacyStateFile = path.join(DATA_DIR, `${name}.md`);
+        break;
+      case "markdown":
+        backend = createMarkdownBackend(path.join(DATA_DIR, `${name}.md`));
+        break;
+      default:
+        throw new Error(`Unknown STATE_BACKEND "${kind}" — use "markdown" or "sqlite"`);
+    }
+    console.log(`[persistence] Using ${backend.name} backend`);
+  }
+  return backend;
+}
+
 // ─── State collectors (registered by each module) ───
 
-type StateCollector = () => { section: string; data: unknown };
+type StateCollector = () => Omit<SectionSnapshot, "version">;
 const collectors: StateCollector[] = [];
 
 export function registerCollector(collector: StateCollector): void {
   collectors.push(collector);
 }
 
+// ─── Section schemas: versioning, migrations, validation ───
+
+export interface SectionSchema {
+  /** migrations[i] upgrades section data from v(i) to v(i+1); current version = migrations.length */
+  migrations: SectionMigration[];
+  /** For array sections: problems with one record (empty = valid). Invalid records are quarantined. */
+  validate?: (record: unknown) => string[];
+}
+
+const schemas = new Map<string, SectionSchema>();
+
+export function registerSchema(section: string, schema: SectionSchema): void {
+  schemas.set(section, schema);
+}
+
+function sectionVersion(section: string): number {
+  return schemas.get(section)?.migrations.length ?? 0;
+}
+
+// ─── Quarantine: persisted records that failed validation on load ───
+
+export interface QuarantinedRecord {
+  section: string;
+  version: number;
+  reasons: string[];
+  record: unknown;
+  quarantinedAt: number;
+}
+
+const quarantine: QuarantinedRecord[] = [];
+
+export function getQuarantine(): QuarantinedRecord[] {
+  return quarantine;
+}
+
+registerCollector(() => ({
+  section: "Quarantine",
+  data: quarantine,
+}));
+
 // ─── Dirty flag + debounced write ───
 
 let dirty = false;
@@ -39,21 +113,12 @@ export function markDirty(): void {
 
 function saveState(): void {
   try {
-    let md = "# Flow-Bid State\n\n";
-    md += `_Last saved: ${new Date().toISOString()}_\n\n`;
-
-    for (const collect of collectors) {
-      const { section, data } = collect();
-      md += `## ${section}\n`;
-      md += "```json\n";
-      md += JSON.stringify(data, null, 2);
-      md += "\n```\n\n";
-    }
-
-    // Atomic write: write to temp, then rename
-    const tmpFile = STATE_FILE + ".tmp";
-    fs.writeFileSync(tmpFile, md, "utf-8");
-    fs.renameSync(tmpFile, STATE_FILE);
+    getBackend().save(
+      collectors.map((collect) => {
+        const snapshot = collect();
+        return { ...snapshot, version: sectionVersion(snapshot.section) };
+      })
+    );
     console.log("[persistence] State saved");
   } catch (err: any) {
     console.error("[persistence] Save failed:", err.message);
@@ -62,47 +127,116 @@ function saveState(): void {
 
 // ─── Load ───
 
-export interface LoadedState {
-  [section: string]: unknown;
-}
-
 export function loadState(): LoadedState {
-  const result: LoadedState = {};
+  let result: LoadedState = {};
 
-  if (!fs.existsSync(STATE_FILE)) {
-    console.log("[persistence] No state file found, starting fresh");
-    return result;
+  try {
+    result = getBackend().load();
+    console.log(`[persistence] Loaded state: ${Object.keys(result).join(", ")}`);
+  } catch (err: any) {
+    console.error("[persistence] Load failed:", err.message);
   }
 
-  try {
-    const content = fs.readFileSync(STATE_FILE, "utf-8");
-    // Parse markdown sections with fenced JSON blocks
-    const sectionRegex = /^## (.+)$/gm;
-    const jsonBlockRegex = /```json\n([\s\S]*?)```/g;
+  if (Object.keys(result).length === 0 && legacyStateFile && fs.existsSync(legacyStateFile)) {
+    result = importLegacyState(legacyStateFile);
+  }
 
-    const sections: string[] = [];
-    let match: RegExpExecArray | null;
+  const saved = result["Quarantine"]?.data;
+  if (Array.isArray(saved)) quarantine.push(...(saved as QuarantinedRecord[]));
 
-    while ((match = sectionRegex.exec(content)) !== null) {
-      sections.push(match[1].trim());
-    }
+  return result;
+}
+
+/**
+ * First SQLite boot next to a markdown state file: copy every section across
+ * (at its stored version, so migrations still run) rather than start empty.
+ * Throws if the copy can't be written, so the agent never runs on a silently
+ * empty database — fix the error or set STATE_BACKEND=markdown.
+ */
+function importLegacyState(stateFile: string): LoadedState {
+  const imported = createMarkdownBackend(stateFile).load();
+  const sections = Object.keys(imported);
+  if (sections.length === 0) {
+    throw new Error(`${stateFile} has no readable sections — fix or move it before starting with STATE_BACKEND=sqlite`);
+  }
+  try {
+    getBackend().save(
+      Object.entries(imported).map(([section, stored]) => ({ section, version: stored.version, data: stored.data }))
+    );
+  } catch (err: any) {
+    throw new Error(`Could not import ${stateFile} into SQLite: ${err.message} — start with STATE_BACKEND=markdown to keep using it`);
+  }
+  console.log(`[persistence] Imported ${sections.length} sections from ${path.basename(stateFile)} into SQLite (the markdown file is left as is)`);
+  return imported;
+}
 
-    let blockIndex = 0;
-    while ((match = jsonBlockRegex.exec(content)) !== null) {
-      if (blockIndex < sections.length) {
-        try {
-          result[sections[blockIndex]] = JSON.parse(match[1]);
-        } catch {
-          console.error(`[persistence] Failed to parse section: ${sections[blockIndex]}`);
-        }
+/**
+ * Bring a loaded section up to its current schema version and, for array
+ * sections with a validator, drop (and quarantine) records that fail it.
+ * Per-record migrations quarantine only the records they fail on; a
+ * section-wide migration that throws quarantines the whole section.
+ * Returns undefined when the section is absent or unusable.
+ */
+export function restoreSection<T>(state: LoadedState, section: string): T | undefined {
+  const stored = state[section];
+  if (!stored) return undefined;
+
+  const schema = schemas.get(section);
+  if (!schema) return stored.data as T;
+
+  const target = schema.migrations.length;
+  let data = stored.data;
+
+  if (stored.version > target) {
+    console.warn(
+      `[persistence] ${section} was saved by a newer version (v${stored.version} > v${target}) — loading without migration`
+    );
+  } else {
+    for (let v = stored.version; v < target; v++) {
+      const perRecord = schema.migrations[v].perRecord;
+      if (perRecord && Array.isArray(data)) {
+        data = data.flatMap((record) => {
+          try {
+            return [perRecord(record)];
+          } catch (err: any) {
+            quarantineRecord(section, v, [`migration to v${v + 1} failed: ${err.message}`], record);
+            return [];
+          }
+        });
+        continue;
+      }
+      try {
+        data = schema.migrations[v](data);
+      } catch (err: any) {
+        console.error(`[persistence] ${section}: migration v${v} → v${v + 1} failed: ${err.message}`);
+        quarantineRecord(section, stored.version, [`migration to v${v + 1} failed: ${err.message}`], stored.data);
+        return undefined;
       }
-      blockIndex++;
     }
+    if (stored.version < target) {
+      console.log(`[persistence] Migrated ${section} v${stored.version} → v${target}`);
+      markDirty();
+    }
+  }
 
-    console.log(`[persistence] Loaded state: ${Object.keys(result).join(", ")}`);
-  } catch (err: any) {
-    console.error("[persistence] Load failed:", err.message);
+  if (!schema.validate) return data as T;
+
+  if (!Array.isArray(data)) {
+    quarantineRecord(section, stored.version, ["expected an array of records"], data);
+    return undefined;
   }
 
-  return result;
+  const valid = data.filter((record) => {
+    const problems = schema.validate!(record);
+    if (problems.length === 0) return true;
+    quarantineRecord(section, stored.version, problems, record);
+    return false;
+  });
+  return valid as T;
+}
+
+function quarantineRecord(section: string, version: number, reasons: string[], record: unknown): void {
+  console.error(`[persistence] Quarantined ${section} record: ${reasons.join("; ")}`);
+  quarantine.push({ section, version, reasons, record, quarantinedAt: Date.now() });
+  markDirty();
 }
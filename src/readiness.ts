@@ -1,8 +1,9 @@
-import { formatEther, formatUnits, erc20Abi } from "viem";
-import { getPublicClient, getAccount, USDC_BASE } from "./config.js";
-import { getAuction, getCurrentBlock } from "./api.js";
+import { formatEther, formatUnits } from "viem";
+import { USDC_BASE } from "./config.js";
+import { getAuction, getCurrentBlock } from "./auction-data.js";
 import { getStrategies, type StrategyState } from "./strategy.js";
 import { sendTelegramMessage } from "./notify.js";
+import { getEthBalance, getTokenBalance } from "./wallet.js";
 import { markDirty, registerCollector } from "./persistence.js";
 
 const POLL_INTERVAL_MS = 10_000;
@@ -132,7 +133,7 @@ async function checkReadiness(
     let startBlock: number;
     try {
       const auction = await getAuction(auctionAddr);
-      startBlock = parseInt(String(auction.startBlock));
+      startBlock = auction.startBlock;
       if (!startBlock) continue;
     } catch {
       continue;
@@ -177,22 +178,11 @@ async function runChecklist(
   auctionAddr: string,
   agent: AgentStateSnapshot
 ): Promise<ReadinessAlert["checks"]> {
-  const publicClient = getPublicClient();
-  const account = getAccount();
-
   // Fetch balances
   let ethBalance = 0;
   let usdcBalance = 0;
   try {
-    const [ethRaw, usdcRaw] = await Promise.all([
-      publicClient.getBalance({ address: account.address }),
-      publicClient.readContract({
-        address: USDC_BASE,
-        abi: erc20Abi,
-        functionName: "balanceOf",
-        args: [account.address],
-      }),
-    ]);
+    const [ethRaw, usdcRaw] = await Promise.all([getEthBalance(), getTokenBalance(USDC_BASE)]);
     ethBalance = parseFloat(formatEther(ethRaw));
     usdcBalance = parseFloat(formatUnits(usdcRaw, 6));
   } catch (err: any) {
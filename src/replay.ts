@@ -0,0 +1,225 @@
+import type { BuildBidTxParams, CurrentBlock, UserBid } from "./api.js";
+import type { BidResult } from "./bid.js";
+import { BidAboveMaxFdvError, bidReferencePrice, priceBidTick, q96ToFdv } from "./bid-builder.js";
+import { AuctionEndedError, BidBelowClearingPriceError } from "./reverts.js";
+import { simulateStrategy, type LadderRung, type StrategyEnv, type StrategyState } from "./strategy.js";
+import type { PricingConfig } from "./bid-pricing.js";
+import type { RecordedBlock, Recording } from "./auction-recorder.js";
+
+// ─── Strategy replay ───
+//
+// Re-runs runStrategy's state machine against a recorded auction. Time is
+// virtual: every sleep the strategy takes moves the clock forward and the
+// auction data served is the recorded block at that moment. Bids go to a
+// simulated submitter that enforces the contract's rules (strictly above the
+// clearing price, nothing after the end block) and are settled against the
+// final recorded clearing price. Our own bids are assumed not to move the
+// clearing price, which holds while the amount is small next to the book.
+
+const BLOCK_TIME_MS = 2_000;
+const USDC_DECIMALS = 6;
+
+export interface ReplayOptions {
+  amount: number;
+  minFdvUsd: number;
+  maxFdvUsd: number;
+  pricing?: PricingConfig;
+  ladder?: LadderRung[];
+  bidWindowBlocks?: number;
+  /** Blocks between sending a bid and it landing (default 1) */
+  latencyBlocks?: number;
+}
+
+export interface ReplayBid {
+  sentAtBlock: number;
+  landedAtBlock: number;
+  amount: number;
+  requestedFdv: number;
+  /** FDV of the tick-aligned price actually bid */
+  bidFdv: number;
+  maxPriceQ96: string;
+  status: "placed" | "rejected";
+  reason: string | null;
+  /** Settled against the final clearing price; null for rejected bids */
+  filled: boolean | null;
+}
+
+export interface ReplayReport {
+  auctionAddress: string;
+  firstBlock: number;
+  lastBlock: number;
+  endBlock: number | null;
+  /** False when the recording stops before the end block — fills are then against the last recorded price */
+  coversEnd: boolean;
+  finalClearingFdv: number;
+  filled: boolean;
+  /** USDC in bids that would have filled */
+  filledAmount: number;
+  /** Price every filled bid pays: the final clearing FDV */
+  fillFdv: number | null;
+  bids: ReplayBid[];
+  strategy: StrategyState;
+}
+
+/** Replay a strategy against a recording and report whether, and at what FDV, it would have filled */
+export async function replayStrategy(recording: Recording, options: ReplayOptions): Promise<ReplayReport> {
+  const { header, blocks } = recording;
+  const first = blocks[0];
+  const last = blocks[blocks.length - 1];
+  const tickSpacing = header.tickSpacing ? BigInt(header.tickSpacing) : 1n;
+  const latencyBlocks = options.latencyBlocks ?? 1;
+  const final = finalBlock(blocks);
+  const finalClearing = final.auction.clearingPrice ?? final.auction.floorPrice;
+
+  let nowMs = first.block.timestamp * 1000;
+  const bids: ReplayBid[] = [];
+
+  const current = (): { block: CurrentBlock; recorded: RecordedBlock } => {
+    const recorded = recordedAt(blocks, nowMs);
+    // Past the last recorded line the chain keeps moving at 2s blocks
+    const extra = Math.max(0, Math.floor((nowMs - recorded.block.timestamp * 1000) / BLOCK_TIME_MS));
+    return {
+      block: { blockNumber: recorded.block.blockNumber + extra, timestamp: Math.floor(nowMs / 1000) },
+      recorded,
+    };
+  };
+
+  const submit = async (params: BuildBidTxParams): Promise<BidResult> => {
+    const sentAtBlock = current().block.blockNumber;
+    const sentAuction = current().recorded.auction;
+    nowMs += latencyBlocks * BLOCK_TIME_MS;
+    const landed = current();
+
+    // Priced by bid-builder.ts, against the auction as seen when sending
+    let maxPriceQ96: bigint;
+    try {
+      ({ maxPriceQ96 } = priceBidTick(params.maxFdvUsd, params.capFdvUsd ?? params.maxFdvUsd, sentAuction, tickSpacing));
+    } catch (err) {
+      if (err instanceof BidAboveMaxFdvError) {
+        bids.push({
+          sentAtBlock,
+          landedAtBlock: landed.block.blockNumber,
+          amount: params.amount,
+          requestedFdv: params.maxFdvUsd,
+          bidFdv: err.requiredFdvUsd,
+          maxPriceQ96: err.requiredPriceQ96.toString(),
+          status: "rejected",
+          reason: "AboveMaxFdv",
+          filled: null,
+        });
+      }
+      throw err;
+    }
+
+    const bid: ReplayBid = {
+      sentAtBlock,
+      landedAtBlock: landed.block.blockNumber,
+      amount: params.amount,
+      requestedFdv: params.maxFdvUsd,
+      bidFdv: Math.round(q96ToFdv(maxPriceQ96, sentAuction)),
+      maxPriceQ96: maxPriceQ96.toString(),
+      status: "rejected",
+      reason: null,
+      filled: null,
+    };
+    bids.push(bid);
+
+    // The contract checks against the state in the block the bid lands in
+    const endBlock = landed.recorded.auction.endBlock;
+    if (endBlock !== null && landed.block.blockNumber >= endBlock) {
+      bid.reason = "AuctionEnded";
+      throw new AuctionEndedError("bid", "AuctionEnded", [], "0xa0e92984");
+    }
+    if (maxPriceQ96 <= bidReferencePrice(landed.recorded.auction)) {
+      bid.reason = "BidMustBeAboveClearingPrice";
+      throw new BidBelowClearingPriceError("bid", "BidMustBeAboveClearingPrice", [], "0x5f259e52");
+    }
+
+    bid.status = "placed";
+    bid.filled = maxPriceQ96 >= finalClearing;
+    return { txHashes: [], links: [], actualFdv: bid.bidFdv, maxPriceQ96: bid.maxPriceQ96 };
+  };
+
+  const env: StrategyEnv = {
+    getCurrentBlock: async () => current().block,
+    getAuction: async () => current().recorded.auction,
+    getAuctionBids: async () => current().recorded.bids ?? [],
+    crossCheckAuction: async (_address, auctionInfo) => ({
+      clearingPrice: auctionInfo.clearingPrice,
+      discrepancies: [],
+    }),
+    submitBid: submit,
+    getUserBids: async () => bids.filter((b) => b.status === "placed").map(toUserBid(header.auctionAddress)),
+    requestAllowance: () => {},
+    releaseAllowance: () => {},
+    markDirty: () => {},
+    sleep: async (ms) => {
+      nowMs += ms;
+    },
+  };
+
+  const strategy = await simulateStrategy(
+    {
+      bidder: "replay",
+      auctionAddress: header.auctionAddress,
+      minFdvUsd: options.minFdvUsd,
+      maxFdvUsd: options.maxFdvUsd,
+      amount: options.amount,
+      pricing: options.pricing,
+      ladder: options.ladder,
+      bidWindowBlocks: options.bidWindowBlocks,
+    },
+    env
+  );
+
+  const filledAmount = bids.filter((b) => b.filled).reduce((sum, b) => sum + b.amount, 0);
+  const finalClearingFdv = Math.round(q96ToFdv(finalClearing, final.auction));
+  const endBlock = final.auction.endBlock;
+  return {
+    auctionAddress: header.auctionAddress,
+    firstBlock: first.block.blockNumber,
+    lastBlock: last.block.blockNumber,
+    endBlock,
+    coversEnd: endBlock !== null && last.block.blockNumber >= endBlock,
+    finalClearingFdv,
+    filled: filledAmount > 0,
+    filledAmount,
+    fillFdv: filledAmount > 0 ? finalClearingFdv : null,
+    bids,
+    strategy,
+  };
+}
+
+// ─── Internals ───
+
+/** Latest recorded block at or before the given time (the first block before the recording starts) */
+function recordedAt(blocks: RecordedBlock[], nowMs: number): RecordedBlock {
+  // Binary search: the env asks on every step, and a recording is one line per block
+  let lo = 0;
+  let hi = blocks.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (blocks[mid].block.timestamp * 1000 <= nowMs) lo = mid;
+    else hi = mid - 1;
+  }
+  return blocks[lo];
+}
+
+/** First recorded block at or after the end block — it carries the final clearing price */
+function finalBlock(blocks: RecordedBlock[]): RecordedBlock {
+  const last = blocks[blocks.length - 1];
+  const endBlock = last.auction.endBlock;
+  return blocks.find((b) => endBlock !== null && b.block.blockNumber >= endBlock) ?? last;
+}
+
+function toUserBid(auctionAddress: string) {
+  return (b: ReplayBid, i: number): UserBid => ({
+    auction: auctionAddress,
+    bidId: `replay-${i}`,
+    maxPrice: BigInt(b.maxPriceQ96),
+    amountBid: BigInt(Math.round(b.amount * 10 ** USDC_DECIMALS)),
+    isFilled: !!b.filled,
+    hasClaimedTokens: false,
+    hasExited: false,
+  });
+}
@@ -0,0 +1,209 @@
+import { decodeErrorResult, parseAbi, type Address, type Hex } from "viem";
+import { getPublicClient } from "./config.js";
+
+// ─── Revert decoding ───
+//
+// Turns raw revert data from simulations, gas estimates and mined-but-reverted
+// transactions into named errors with arguments. Errors the agent acts on
+// (auction over, bid under the clearing price, allowance short) get their own
+// classes so callers can branch with instanceof instead of matching strings.
+
+/** CCA auction contract (bid submission, exits and claims) */
+export const AUCTION_ERRORS = parseAbi([
+  "error AuctionEnded()",
+  "error AuctionNotStarted()",
+  "error AuctionIsNotOver()",
+  "error AuctionSoldOut()",
+  "error BidMustBeAboveClearingPrice()",
+  "error BidAmountTooSmall()",
+  "error BidOwnerCannotBeZeroAddress()",
+  "error InvalidBidPriceTooHigh()",
+  "error TickPriceNotAtBoundary()",
+  "error BidAlreadyExited()",
+  "error CannotExitBid()",
+  "error CannotPartiallyExitBidBeforeEndBlock()",
+  "error NotClaimable()",
+  "error NotGraduated()",
+]);
+
+/**
+ * ERC-20 custom errors (OpenZeppelin 5). USDC's FiatToken reverts with
+ * strings such as "ERC20: transfer amount exceeds allowance", which decode
+ * as the built-in Error(string).
+ */
+export const ERC20_ERRORS = parseAbi([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error ERC20InvalidSpender(address spender)",
+]);
+
+/** Uniswap routers, Permit2 and the aggregators swaps are routed through */
+export const ROUTER_ERRORS = parseAbi([
+  "error V2TooLittleReceived()",
+  "error V2TooMuchRequested()",
+  "error V3TooLittleReceived()",
+  "error V3TooMuchRequested()",
+  "error V4TooLittleReceived(uint256 minAmountOutReceived, uint256 amountReceived)",
+  "error TransactionDeadlinePassed()",
+  "error ExecutionFailed(uint256 commandIndex, bytes message)",
+  "error InsufficientETH()",
+  "error InsufficientToken()",
+  "error AllowanceExpired(uint256 deadline)",
+  "error InsufficientAllowance(uint256 amount)",
+  "error SignatureExpired(uint256 signatureDeadline)",
+  "error InvalidNonce()",
+  "error CumulativeSlippageTooHigh(uint256 minAmount, uint256 receivedAmount)",
+  "error SlippageLimitExceeded(address token, uint256 expected, uint256 actual)",
+]);
+
+export const REVERT_ABI = [...AUCTION_ERRORS, ...ERC20_ERRORS, ...ROUTER_ERRORS];
+
+// ─── Error classes ───
+
+/** A contract call or transaction reverted with a recognised error */
+export class ContractRevertError extends Error {
+  constructor(
+    /** What was being done, e.g. "bid" or "claim 0x1234abcd" */
+    readonly context: string,
+    /** Solidity error name; "Error" for require strings, "Panic" for assertion failures */
+    readonly errorName: string,
+    readonly args: readonly unknown[],
+    readonly data: Hex
+  ) {
+    super(`${context} reverted: ${formatRevert(errorName, args)}`);
+    this.name = "ContractRevertError";
+  }
+}
+
+export class AuctionEndedError extends ContractRevertError {
+  constructor(context: string, errorName: string, args: readonly unknown[], data: Hex) {
+    super(context, errorName, args, data);
+    this.name = "AuctionEndedError";
+    this.message += " — auction is no longer accepting bids";
+  }
+}
+
+export class BidBelowClearingPriceError extends ContractRevertError {
+  constructor(context: string, errorName: string, args: readonly unknown[], data: Hex) {
+    super(context, errorName, args, data);
+    this.name = "BidBelowClearingPriceError";
+    this.message += " — max price must be above the current clearing price";
+  }
+}
+
+export class InsufficientAllowanceError extends ContractRevertError {
+  constructor(context: string, errorName: string, args: readonly unknown[], data: Hex) {
+    super(context, errorName, args, data);
+    this.name = "InsufficientAllowanceError";
+  }
+}
+
+type RevertErrorClass = new (context: string, errorName: string, args: readonly unknown[], data: Hex) => ContractRevertError;
+
+const TYPED_ERRORS: Record<string, RevertErrorClass> = {
+  AuctionEnded: AuctionEndedError,
+  BidMustBeAboveClearingPrice: BidBelowClearingPriceError,
+  ERC20InsufficientAllowance: InsufficientAllowanceError,
+  InsufficientAllowance: InsufficientAllowanceError,
+  AllowanceExpired: InsufficientAllowanceError,
+};
+
+// Require strings that mean the same thing as a typed error
+const TYPED_REASONS: Array<[RegExp, RevertErrorClass]> = [
+  [/exceeds allowance|insufficient allowance/i, InsufficientAllowanceError],
+];
+
+// ─── Decoding ───
+
+/**
+ * Decode the revert inside a viem error. Returns null when the error is not
+ * a revert (RPC failure, nonce clash) or the selector is unknown.
+ */
+export function decodeRevert(err: unknown, context: string): ContractRevertError | null {
+  if (err instanceof ContractRevertError) return err;
+  const data = findRevertData(err);
+  return data ? decodeRevertData(data, context) : null;
+}
+
+export function decodeRevertData(data: Hex, context: string): ContractRevertError | null {
+  try {
+    // Widened: viem also decodes the built-in Error(string) and Panic(uint256)
+    const { errorName, args = [] }: { errorName: string; args?: readonly unknown[] } = decodeErrorResult({
+      abi: REVERT_ABI,
+      data,
+    });
+    if (errorName === "ExecutionFailed") {
+      // Universal Router wraps the failing command's own revert
+      const inner = decodeRevertData(args[1] as Hex, `${context} (command ${args[0]})`);
+      if (inner) return inner;
+    }
+    let ErrorClass = TYPED_ERRORS[errorName] ?? ContractRevertError;
+    if (errorName === "Error") {
+      ErrorClass = TYPED_REASONS.find(([pattern]) => pattern.test(String(args[0])))?.[1] ?? ErrorClass;
+    }
+    return new ErrorClass(context, errorName, args, data);
+  } catch {
+    return null;
+  }
+}
+
+/** The decoded revert when there is one, otherwise the original error unchanged */
+export function withRevertReason(err: unknown, context: string): unknown {
+  return decodeRevert(err, context) ?? err;
+}
+
+/**
+ * Find out why a mined transaction reverted by replaying it as a call on
+ * the state at its block. Returns null when the replay does not reproduce
+ * the revert (state has moved on) or the reason is unknown.
+ */
+export async function replayRevert(
+  tx: { from: Address; to: Address; data?: Hex; value?: bigint; blockNumber: bigint },
+  context: string
+): Promise<ContractRevertError | null> {
+  try {
+    await getPublicClient().call({
+      account: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: tx.value,
+      blockNumber: tx.blockNumber,
+    });
+    return null;
+  } catch (err) {
+    return decodeRevert(err, context);
+  }
+}
+
+// viem nests the RPC error several causes deep; the data sits on whichever
+// layer the node's response was parsed into
+function findRevertData(err: unknown): Hex | null {
+  let current: any = err;
+  for (let depth = 0; current && depth < 10; depth++) {
+    const data = typeof current.data === "object" && current.data !== null ? current.data.data : current.data;
+    if (isRevertData(data)) return data;
+    if (isRevertData(current.raw)) return current.raw;
+    current = current.cause;
+  }
+  // Some providers only echo the selector in the message
+  const match = String((err as any)?.message ?? err).match(/(?:custom error|signature:?)\s*(0x[0-9a-fA-F]{8,})/);
+  return match ? (match[1] as Hex) : null;
+}
+
+function isRevertData(value: unknown): value is Hex {
+  return typeof value === "string" && /^0x[0-9a-fA-F]{8}/.test(value);
+}
+
+function formatRevert(errorName: string, args: readonly unknown[]): string {
+  if (errorName === "Error") return `"${args[0]}"`;
+  if (errorName === "Panic") return `Panic(0x${Number(args[0]).toString(16)})`;
+  return `${errorName}(${args.map(formatArg).join(", ")})`;
+}
+
+function formatArg(arg: unknown): string {
+  if (typeof arg === "bigint") return arg.toString();
+  if (Array.isArray(arg)) return `[${arg.map(formatArg).join(", ")}]`;
+  return String(arg);
+}
@@ -1,4 +1,5 @@
-import { getAuction, getCurrentBlock, type BuildBidTxParams } from "./api.js";
+import type { BuildBidTxParams } from "./api.js";
+import { getAuction, getCurrentBlock } from "./auction-data.js";
 import { submitBid } from "./bid.js";
 import {
   estimateTimestampForBlock,
@@ -0,0 +1,68 @@
+import { type Address, type Hash } from "viem";
+import { USDC_BASE } from "./config.js";
+import { getTokenPrice, quoteSell, swapExactInputSingle } from "./swap.js";
+
+// Price impact allowed per sell when the exit strategy sets no cap
+export const DEFAULT_MAX_IMPACT_PCT = 5;
+// Chunks are quoted at 1, 1/2, 1/4 ... 1/16 of what's left to sell
+const MAX_HALVINGS = 4;
+const MIN_SLIPPAGE_BPS = 100;
+const MAX_SLIPPAGE_BPS = 300;
+
+/**
+ * Sell executor: splits a token → USDC sell into TWAP-like chunks for thin
+ * pools. Each chunk is the largest fraction of the remainder whose quoted
+ * price impact fits the budget, and its slippage tolerance widens with the
+ * impact measured, since a pool our size moves is one other flow moves too.
+ */
+export interface SellChunk {
+  amount: bigint;
+  /** USDC the best quote returns for `amount` */
+  quotedUsdc: number;
+  /** Quoted loss against the one-token price, % */
+  impactPct: number;
+  slippageBps: number;
+}
+
+export interface ChunkFill {
+  hash: Hash;
+  amountOut: bigint;
+  chunk: SellChunk;
+}
+
+/**
+ * Quote the full remainder, then halves of it, and return the largest that
+ * moves the price no more than `maxImpactPct`. Null when even the smallest
+ * fraction (or `minChunk`, whichever is larger) is over budget.
+ */
+export async function planSellChunk(
+  token: Address,
+  decimals: number,
+  remaining: bigint,
+  minChunk: bigint,
+  maxImpactPct: number = DEFAULT_MAX_IMPACT_PCT
+): Promise<SellChunk | null> {
+  const spotPrice = await getTokenPrice(token, decimals);
+
+  let amount = remaining;
+  for (let i = 0; i <= MAX_HALVINGS; i++) {
+    const { usdcOut, impactPct } = await quoteSell(token, amount, decimals, spotPrice);
+    if (impactPct <= maxImpactPct) {
+      return { amount, quotedUsdc: usdcOut, impactPct, slippageBps: slippageFor(impactPct) };
+    }
+    if (amount <= minChunk) break;
+    amount = amount / 2n > minChunk ? amount / 2n : minChunk;
+  }
+  return null;
+}
+
+/** Sell one planned chunk at its slippage tolerance */
+export async function executeSellChunk(token: Address, chunk: SellChunk, fee: number = 3000): Promise<ChunkFill> {
+  const { hash, amountOut } = await swapExactInputSingle(token, USDC_BASE, chunk.amount, fee, chunk.slippageBps);
+  return { hash, amountOut, chunk };
+}
+
+/** Slippage tolerance for a chunk: half its own impact, within 1-3% */
+export function slippageFor(impactPct: number): number {
+  return Math.min(MAX_SLIPPAGE_BPS, Math.max(MIN_SLIPPAGE_BPS, Math.ceil(impactPct * 50)));
+}
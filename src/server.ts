@@ -9,57 +9,120 @@ import express from "express";
 import path from "path";
 import { fileURLToPath } from "url";
 import { formatEther, formatUnits, erc20Abi } from "viem";
-import { getPublicClient, getAccount, USDC_BASE } from "./config.js";
+import { getPublicClient, getAccount, isPaperMode, USDC_BASE } from "./config.js";
 import {
-  getAuction,
   getSafety,
-  getAuctionBids,
-  getCurrentBlock,
   getUserBids,
-  getLaunches,
   buildLaunchTx,
-  buildClaimTx,
+  jsonReplacer,
+  getApiHealth,
 } from "./api.js";
+import {
+  getAuction,
+  getAuctionBids,
+  getAuctionDataStats,
+  getCurrentBlock,
+  getLaunches,
+  subscribeAuction,
+  subscribeLaunches,
+} from "./auction-data.js";
 import { submitBid } from "./bid.js";
-import { scheduleBid } from "./scheduler.js";
-import { runStrategy, getStrategies, getStrategy, cancelStrategy } from "./strategy.js";
+import {
+  armBidJob,
+  cancelBidJob,
+  getBidJobs,
+  isJobActive,
+  onBidJobSettled,
+  resumeBidJobs,
+  setBidJobs,
+  type BidJob,
+} from "./bid-jobs.js";
+import {
+  runStrategy,
+  getStrategies,
+  getStrategy,
+  cancelStrategy,
+  parseLadder,
+  formatLadder,
+  DEFAULT_BID_WINDOW_BLOCKS,
+  type LadderRung,
+} from "./strategy.js";
+import { q96ToFdv } from "./bid-builder.js";
+import { getPendingTxs, sendAndConfirm, sendTx, waitForTx } from "./tx-manager.js";
+import {
+  refreshAllowances,
+  revokeAllowance,
+  setAllowances,
+  startAllowanceManager,
+  type AllowanceRecord,
+} from "./allowances.js";
+import { describePricing, parsePricing, type PricingConfig } from "./bid-pricing.js";
+import {
+  getActiveRecordings,
+  listRecordingFiles,
+  startAutoRecorder,
+  startRecording,
+  stopRecording,
+} from "./auction-recorder.js";
 import {
   runExitStrategy,
   getExitStrategies,
   getExitStrategy,
   cancelExitStrategy,
+  editExitStrategy,
   resolveTranches,
+  parseStopLoss,
+  parseMaxImpact,
 } from "./exit-strategy.js";
 import { getTokenPrice } from "./swap.js";
+import { getEthBalance, getTokenBalance, getTokenSupply } from "./wallet.js";
+import {
+  getPaperLedger,
+  getPaperUserBids,
+  resetPaperLedger,
+  setPaperLedger,
+  type PaperLedger,
+} from "./paper.js";
 import { startGraduationMonitor, setProcessedGraduations } from "./graduation-monitor.js";
+import { claimAuction, claimBid, getClaims, isAutoClaimEnabled, setClaims, startAutoClaimer, type ClaimRecord } from "./claims.js";
+import { getLedger, refundedUsdc, setLedger, type LedgerEntry } from "./ledger.js";
 import { startReadinessMonitor, getActiveAlerts, dismissAlert, setAlertedStages } from "./readiness.js";
 import { startTelegramBot } from "./telegram-bot.js";
-import { loadState, markDirty, registerCollector } from "./persistence.js";
-import { setExitStrategies, resumeExitStrategies } from "./exit-strategy.js";
-import { setStrategies } from "./strategy.js";
+import { loadState, restoreSection, getQuarantine, markDirty, registerCollector } from "./persistence.js";
+import { setExitStrategies, resumeExitStrategies, type ExitStrategyState } from "./exit-strategy.js";
+import { setStrategies, resumeStrategies, type StrategyState } from "./strategy.js";
 import {
   getTradingStrategies,
   getTradingStrategy,
   cancelTradingStrategy,
   removeTradingStrategy,
   sellStrategyPosition,
+  attachExitPlan,
   liquidateAll,
   pauseTradingStrategy,
   resumeTradingStrategy,
   setTradingStrategies,
   resumeTradingStrategies,
 } from "./trading/engine.js";
-import type { StrategyType } from "./trading/types.js";
+import type { PricePoint, StrategyType, TradingStrategyState } from "./trading/types.js";
 import { startDca, dcaEvaluate, parseInterval } from "./trading/strategies/dca.js";
-import { startTwap, twapEvaluate, parseDuration } from "./trading/strategies/twap.js";
+import { startTwap, twapEvaluate } from "./trading/strategies/twap.js";
 import { startMeanReversion, meanReversionEvaluate } from "./trading/strategies/mean-reversion.js";
 import type { EvaluateFn } from "./trading/engine.js";
+import { getHistory } from "./trading/price-tracker.js";
+import { BACKTEST_EVALUATORS, createBacktestState, parsePriceCsv, runBacktest } from "./trading/backtest.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const STREAM_MAX_AUCTIONS = 20;
+const STREAM_KEEPALIVE_MS = 25_000;
+
 const app = express();
-app.use(express.json());
+// Large enough for a CSV price series posted to /api/backtest
+app.use(express.json({ limit: "5mb" }));
+// API models carry bigint amounts and Q96 prices — send them as decimal strings
+app.set("json replacer", jsonReplacer);
 
 // ─── Auth middleware ───
 const AUTH_TOKEN = process.env.AUTH_TOKEN || "";
@@ -124,7 +187,7 @@ registerCollector(() => ({
 
 // GET /api/agent — current agent state
 app.get("/api/agent", (_req, res) => {
-  res.json({ ...agent, readinessAlerts: getActiveAlerts() });
+  res.json({ ...agent, readinessAlerts: getActiveAlerts(), api: { ...getApiHealth(), cache: getAuctionDataStats() }, pendingTxs: getPendingTxs(), paper: isPaperMode() });
 });
 
 // POST /api/agent/watch — add auction to watch list
@@ -151,10 +214,10 @@ app.post("/api/agent/unwatch", (req, res) => {
     agent.watching = [];
   }
   if (auctionAddress) {
-    agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress);
+    disarm(auctionAddress);
   }
   if (agent.watching.length === 0) {
-    agent.armedBids = [];
+    disarm();
     agent.status = "idle";
   }
   markDirty();
@@ -164,11 +227,7 @@ app.post("/api/agent/unwatch", (req, res) => {
 // POST /api/agent/disarm — remove armed bid without unwatching
 app.post("/api/agent/disarm", (req, res) => {
   const { auctionAddress } = req.body || {};
-  if (auctionAddress) {
-    agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress);
-  } else {
-    agent.armedBids = [];
-  }
+  disarm(auctionAddress);
   if (agent.armedBids.length === 0 && agent.status === "armed") {
     agent.status = agent.watching.length > 0 ? "watching" : "idle";
   }
@@ -180,22 +239,13 @@ app.post("/api/agent/disarm", (req, res) => {
 app.get("/api/wallet", async (_req, res) => {
   try {
     const account = getAccount();
-    const client = getPublicClient();
-
-    const [ethBalance, usdcBalance] = await Promise.all([
-      client.getBalance({ address: account.address }),
-      client.readContract({
-        address: USDC_BASE,
-        abi: erc20Abi,
-        functionName: "balanceOf",
-        args: [account.address],
-      }),
-    ]);
+    const [ethBalance, usdcBalance] = await Promise.all([getEthBalance(), getTokenBalance(USDC_BASE)]);
 
     res.json({
       address: account.address,
       ethBalance: formatEther(ethBalance),
       usdcBalance: formatUnits(usdcBalance, 6),
+      paper: isPaperMode(),
     });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
@@ -240,6 +290,39 @@ app.get("/api/auction/:addr/bids", async (req, res) => {
   }
 });
 
+// Live feed for the web UI (server-sent events): a snapshot of each watched
+// auction once per block and the launch list when it refreshes, pushed from
+// the shared auction-data feeds instead of polled route by route
+app.get("/api/stream", (req, res) => {
+  const auctions = String(req.query.auctions || "")
+    .split(",")
+    .filter((a) => /^0x[0-9a-fA-F]{40}$/.test(a))
+    .slice(0, STREAM_MAX_AUCTIONS);
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data, jsonReplacer)}\n\n`);
+  };
+
+  const unsubscribes = auctions.map((auctionAddress) =>
+    subscribeAuction(auctionAddress, ({ block, auction, bids }) => send("auction", { auctionAddress, block, auction, bids }), {
+      withBids: true,
+    })
+  );
+  unsubscribes.push(subscribeLaunches((launches) => send("launches", launches)));
+  // Comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), STREAM_KEEPALIVE_MS);
+
+  req.on("close", () => {
+    clearInterval(keepAlive);
+    for (const unsubscribe of unsubscribes) unsubscribe();
+  });
+});
+
 app.get("/api/block", async (_req, res) => {
   try {
     const data = await getCurrentBlock();
@@ -251,6 +334,10 @@ app.get("/api/block", async (_req, res) => {
 
 app.get("/api/bids", async (_req, res) => {
   try {
+    if (isPaperMode()) {
+      res.json(getPaperUserBids());
+      return;
+    }
     const account = getAccount();
     const data = await getUserBids(account.address);
     res.json(data);
@@ -302,37 +389,18 @@ app.post("/api/bid/schedule", async (req, res) => {
       return;
     }
     const account = getAccount();
-    const armed: ArmedBid = { auctionAddress, maxFdvUsd: Number(maxFdvUsd), amount: Number(amount) };
-    // Replace if already armed for this auction, otherwise add
-    agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress);
-    agent.armedBids.push(armed);
-    agent.status = "armed";
-
-    scheduleBid({
+    // Arming replaces any earlier job for this auction
+    armBidJob({
       bidder: account.address,
       auctionAddress,
       maxFdvUsd: Number(maxFdvUsd),
       amount: Number(amount),
-    })
-      .then(() => {
-        agent.lastResult = {
-          type: "success",
-          message: `Scheduled bid executed: ${amount} USDC @ $${maxFdvUsd} FDV`,
-          timestamp: Date.now(),
-        };
-        agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress);
-        agent.status = agent.armedBids.length > 0 ? "armed" : agent.watching.length > 0 ? "watching" : "idle";
-      })
-      .catch((err) => {
-        console.error("Scheduled bid error:", err);
-        agent.lastResult = {
-          type: "error",
-          message: err.message,
-          timestamp: Date.now(),
-        };
-        agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress);
-        agent.status = agent.armedBids.length > 0 ? "armed" : agent.watching.length > 0 ? "watching" : "idle";
-      });
+    });
+    const armed: ArmedBid = { auctionAddress, maxFdvUsd: Number(maxFdvUsd), amount: Number(amount) };
+    agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress);
+    agent.armedBids.push(armed);
+    agent.status = "armed";
+    markDirty();
 
     res.json({ status: "armed", auctionAddress, maxFdvUsd, amount });
   } catch (err: any) {
@@ -340,6 +408,94 @@ app.post("/api/bid/schedule", async (req, res) => {
   }
 });
 
+// GET /api/bid/jobs — armed-bid jobs with their outcomes
+app.get("/api/bid/jobs", (_req, res) => {
+  res.json(getBidJobs());
+});
+
+/** Cancel armed jobs and drop them from agent.armedBids (all when no address given) */
+function disarm(auctionAddress?: string): void {
+  for (const b of agent.armedBids) {
+    if (!auctionAddress || b.auctionAddress === auctionAddress) cancelBidJob(b.auctionAddress);
+  }
+  agent.armedBids = auctionAddress
+    ? agent.armedBids.filter((b) => b.auctionAddress !== auctionAddress)
+    : [];
+}
+
+// Armed bids are cleared only once their job reaches a terminal result
+onBidJobSettled((job: BidJob) => {
+  if (job.status === "succeeded") {
+    agent.lastResult = {
+      type: "success",
+      message: `Scheduled bid executed: ${job.amount} USDC @ $${job.actualFdv ?? job.maxFdvUsd} FDV`,
+      txHashes: job.txHashes,
+      timestamp: Date.now(),
+    };
+  } else if (job.status === "failed") {
+    agent.lastResult = {
+      type: "error",
+      message: `Scheduled bid failed: ${job.error}`,
+      timestamp: Date.now(),
+    };
+  }
+  agent.armedBids = agent.armedBids.filter((b) => b.auctionAddress !== job.auctionAddress);
+  if (agent.status === "armed" && agent.armedBids.length === 0) {
+    agent.status = agent.watching.length > 0 ? "watching" : "idle";
+  }
+  markDirty();
+});
+
+// ─── Allowances ───
+// GET /api/allowances — USDC approvals held for auctions, re-read from chain
+app.get("/api/allowances", async (_req, res) => {
+  try {
+    res.json(await refreshAllowances());
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/allowances/:addr/revoke — set an auction's allowance back to zero now
+app.post("/api/allowances/:addr/revoke", async (req, res) => {
+  try {
+    res.json(await revokeAllowance(req.params.addr));
+  } catch (err: any) {
+    const status = err.message.startsWith("No tracked allowance") ? 404 : 500;
+    res.status(status).json({ error: err.message });
+  }
+});
+
+// ─── Auction recordings ───
+// GET /api/recordings — auctions being recorded now and recording files on disk
+app.get("/api/recordings", (_req, res) => {
+  res.json({ active: getActiveRecordings(), files: listRecordingFiles() });
+});
+
+// POST /api/recordings — record an auction block by block until it ends (for replay)
+app.post("/api/recordings", async (req, res) => {
+  try {
+    const { auctionAddress } = req.body;
+    if (!auctionAddress) {
+      res.status(400).json({ error: "Missing auctionAddress" });
+      return;
+    }
+    res.json(await startRecording(auctionAddress));
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
+// POST /api/recordings/:addr/stop — stop a recording early
+app.post("/api/recordings/:addr/stop", (req, res) => {
+  const stopped = stopRecording(req.params.addr);
+  if (!stopped) {
+    res.status(404).json({ error: "No active recording for this auction" });
+    return;
+  }
+  res.json(stopped);
+});
+
 // ─── Launch ───
 app.post("/api/launch", async (req, res) => {
   try {
@@ -349,8 +505,6 @@ app.post("/api/launch", async (req, res) => {
       return;
     }
     const account = getAccount();
-    const publicClient = getPublicClient();
-    const walletClient = (await import("./config.js")).getWalletClient();
 
     const launchMetadata = metadata || {};
     if (!launchMetadata.logo) {
@@ -367,25 +521,18 @@ app.post("/api/launch", async (req, res) => {
 
     console.log(`[launch] Deploying ${name} (${symbol})`);
     console.log(`  Predicted token: ${result.predictedTokenAddress}`);
-    console.log(`  Start block: ${result.auctionTiming.startBlock} (~${Math.round((parseInt(result.auctionTiming.startBlock) - parseInt(result.auctionTiming.currentBlock)) * 2 / 60)}min)`);
+    console.log(`  Start block: ${result.auctionTiming.startBlock} (~${Math.round((result.auctionTiming.startBlock - result.auctionTiming.currentBlock) * 2 / 60)}min)`);
 
-    // Send the transaction
-    const hash = await walletClient.sendTransaction({
+    // Send the transaction and wait for confirmation
+    const sent = await sendTx({
       to: result.to as `0x${string}`,
       data: result.data as `0x${string}`,
-      value: result.value ? BigInt(result.value) : 0n,
-      account,
-      chain: walletClient.chain,
-      gas: 10_000_000n,
+      value: result.value,
+      label: `launch ${symbol}`,
     });
-
-    console.log(`  TX hash: ${hash}`);
-
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    if (receipt.status === "reverted") {
-      throw new Error(`Launch transaction reverted: ${hash}`);
-    }
+    console.log(`  TX hash: ${sent.hash}`);
+    const receipt = await waitForTx(sent);
+    const hash = receipt.transactionHash;
 
     console.log(`  Confirmed in block ${receipt.blockNumber}`);
 
@@ -436,11 +583,29 @@ app.get("/api/strategy/:addr", (req, res) => {
 
 app.post("/api/strategy", async (req, res) => {
   try {
-    const { auctionAddress, minFdvUsd, maxFdvUsd, amount, exitProfile, stopLoss } = req.body;
+    const { auctionAddress, minFdvUsd, maxFdvUsd, amount, exitProfile, stopLoss, maxImpactPct, bidWindowBlocks } = req.body;
     if (!auctionAddress || !minFdvUsd || !maxFdvUsd || !amount) {
       res.status(400).json({ error: "Missing auctionAddress, minFdvUsd, maxFdvUsd, or amount" });
       return;
     }
+    if (bidWindowBlocks != null && !(Number.isInteger(Number(bidWindowBlocks)) && Number(bidWindowBlocks) > 0)) {
+      res.status(400).json({ error: "bidWindowBlocks must be a positive whole number of blocks" });
+      return;
+    }
+    let pricing: PricingConfig | undefined;
+    let ladder: LadderRung[] | undefined;
+    let stop: ReturnType<typeof parseStopLoss> = {};
+    let exitMaxImpactPct: number | undefined;
+    try {
+      pricing = req.body.pricing ? parsePricing(String(req.body.pricing)) : undefined;
+      ladder = req.body.ladder ? parseLadder(String(req.body.ladder)) : undefined;
+      if (stopLoss != null && stopLoss !== "") stop = parseStopLoss(stopLoss);
+      if (maxImpactPct != null && maxImpactPct !== "") exitMaxImpactPct = parseMaxImpact(maxImpactPct);
+      if (exitProfile) resolveTranches(String(exitProfile));
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
     const account = getAccount();
 
     // Add to watch list if not already
@@ -457,7 +622,12 @@ app.post("/api/strategy", async (req, res) => {
       maxFdvUsd: Number(maxFdvUsd),
       amount: Number(amount),
       exitProfile: exitProfile || undefined,
-      stopLoss: stopLoss != null ? Number(stopLoss) : undefined,
+      stopLoss: stop.stopLossMultiple,
+      trailingStopPct: stop.trailingStopPct,
+      exitMaxImpactPct,
+      pricing,
+      ladder,
+      bidWindowBlocks: bidWindowBlocks != null ? Number(bidWindowBlocks) : undefined,
     })
       .then(() => {
         agent.lastResult = {
@@ -476,7 +646,20 @@ app.post("/api/strategy", async (req, res) => {
         agent.status = agent.watching.length > 0 ? "watching" : "idle";
       });
 
-    res.json({ status: "started", auctionAddress, minFdvUsd, maxFdvUsd, amount, exitProfile });
+    res.json({
+      status: "started",
+      auctionAddress,
+      minFdvUsd,
+      maxFdvUsd,
+      amount,
+      exitProfile,
+      stopLoss: stop.stopLossMultiple,
+      trailingStopPct: stop.trailingStopPct,
+      maxImpactPct: exitMaxImpactPct,
+      pricing: describePricing(pricing),
+      ladder: ladder ? formatLadder(ladder) : undefined,
+      bidWindowBlocks: bidWindowBlocks != null ? Number(bidWindowBlocks) : DEFAULT_BID_WINDOW_BLOCKS,
+    });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
@@ -499,7 +682,7 @@ app.get("/api/exit-strategies", (_req, res) => {
 app.get("/api/exit-strategy/:addr", (req, res) => {
   const s = getExitStrategy(req.params.addr);
   if (!s) {
-    res.status(404).json({ error: "No exit strategy for this auction" });
+    res.status(404).json({ error: "No exit strategy for this token or auction" });
     return;
   }
   res.json(s);
@@ -507,104 +690,158 @@ app.get("/api/exit-strategy/:addr", (req, res) => {
 
 app.post("/api/exit-strategy", async (req, res) => {
   try {
-    const { auctionAddress, profileOrCustom, stopLoss } = req.body;
-    if (!auctionAddress) {
-      res.status(400).json({ error: "Missing auctionAddress" });
+    const { auctionAddress, tokenAddress: tokenInput, entryPrice, costBasis, profileOrCustom, stopLoss, maxImpactPct } =
+      req.body;
+    if (!auctionAddress && !tokenInput) {
+      res.status(400).json({ error: "Missing tokenAddress or auctionAddress" });
       return;
     }
     const profile = profileOrCustom || "moderate";
-    const stopLossMultiple = stopLoss != null ? Number(stopLoss) : undefined;
+    let stop: ReturnType<typeof parseStopLoss> = {};
+    let impactCap: number | undefined;
 
-    // Validate profile
+    // Validate profile, stop-loss, impact cap and entry
     try {
       resolveTranches(profile);
+      if (stopLoss != null && stopLoss !== "") stop = parseStopLoss(stopLoss);
+      if (maxImpactPct != null && maxImpactPct !== "") impactCap = parseMaxImpact(maxImpactPct);
+      for (const [name, value] of Object.entries({ entryPrice, costBasis })) {
+        if (value != null && value !== "" && !(Number(value) > 0)) throw new Error(`${name} must be above 0`);
+      }
     } catch (err: any) {
       res.status(400).json({ error: err.message });
       return;
     }
 
-    // Look up auction info
-    const auction = await getAuction(auctionAddress);
-    const launches = await getLaunches();
-    const launch = launches.find((l) => l.auction === auctionAddress);
-    if (!launch) {
-      res.status(404).json({ error: "Auction not found in launches" });
+    // Token details from the linked auction, when there is one
+    let launch: Awaited<ReturnType<typeof getLaunches>>[number] | undefined;
+    if (auctionAddress) {
+      launch = (await getLaunches()).find((l) => l.auction.toLowerCase() === String(auctionAddress).toLowerCase());
+      if (!launch) {
+        res.status(404).json({ error: "Auction not found in launches" });
+        return;
+      }
+      if (tokenInput && launch.token.toLowerCase() !== String(tokenInput).toLowerCase()) {
+        res.status(400).json({ error: "tokenAddress is not the token sold by that auction" });
+        return;
+      }
+    }
+    const tokenAddress = (tokenInput ?? launch!.token) as `0x${string}`;
+    if (getExitStrategy(tokenAddress)?.status === "running") {
+      res.status(400).json({ error: "An exit strategy is already running for this token — edit it with exit-edit" });
       return;
     }
 
-    const tokenAddress = launch.token as `0x${string}`;
-    const tokenDecimals = parseInt(String((launch as any).tokenDecimals || "18"));
-    const totalSupply = BigInt((launch as any).totalSupply || "0");
+    let tokenSymbol: string;
+    let tokenDecimals: number;
+    let totalSupply: bigint;
+    if (launch) {
+      ({ tokenSymbol, tokenDecimals, totalSupply } = launch);
+    } else {
+      try {
+        const publicClient = getPublicClient();
+        const [symbol, decimals, supply] = await Promise.all([
+          publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "symbol" }),
+          publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "decimals" }),
+          getTokenSupply(tokenAddress),
+        ]);
+        tokenSymbol = symbol as string;
+        tokenDecimals = Number(decimals);
+        totalSupply = supply;
+      } catch {
+        res.status(400).json({ error: "Could not read token metadata. Is this a valid ERC-20 address?" });
+        return;
+      }
+    }
 
     // Get token balance
-    const publicClient = getPublicClient();
-    const account = getAccount();
-    const tokenBalance = await publicClient.readContract({
-      address: tokenAddress,
-      abi: erc20Abi,
-      functionName: "balanceOf",
-      args: [account.address],
-    });
+    const tokenBalance = await getTokenBalance(tokenAddress);
 
     if (tokenBalance === 0n) {
       res.status(400).json({ error: "No token balance in wallet" });
       return;
     }
 
-    // Compute entry FDV from clearing price
-    const info = launch as any;
-    const clearingQ96 = parseFloat(info.clearingPrice || "0");
-    const floorPrice = parseFloat(info.floorPrice || "0");
-    let entryFdv = 0;
-    if (clearingQ96 > 0 && floorPrice > 0) {
-      const requiredRaised = parseFloat(info.requiredCurrencyRaised || "0");
-      const auctionAmount = parseFloat(info.auctionAmount || "0");
-      const ts = parseFloat(info.totalSupply || "0");
-      if (auctionAmount > 0 && ts > 0 && requiredRaised > 0) {
-        const reqHuman = requiredRaised / 1e6;
-        const aucHuman = auctionAmount / 10 ** tokenDecimals;
-        const supHuman = ts / 10 ** tokenDecimals;
-        const floorFdv = (reqHuman / aucHuman) * supHuman;
-        entryFdv = clearingQ96 * (floorFdv / floorPrice);
+    // Entry: as given, else from our settled bids when a strategy bid here, else the clearing price
+    const supplyHuman = Number(totalSupply) / 10 ** tokenDecimals;
+    let price: number;
+    if (entryPrice != null && entryPrice !== "") {
+      price = Number(entryPrice);
+    } else if (costBasis != null && costBasis !== "") {
+      price = Number(costBasis) / (Number(tokenBalance) / 10 ** tokenDecimals);
+    } else if (launch) {
+      const settledFdv = getStrategy(launch.auction)?.settlement?.entryFdv;
+      const entryFdv = settledFdv ?? (launch.clearingPrice ? q96ToFdv(launch.clearingPrice, launch) : 0);
+      price = supplyHuman > 0 ? entryFdv / supplyHuman : 0;
+      if (price <= 0) {
+        res.status(400).json({ error: "Could not compute entry FDV from clearing price — give entryPrice or costBasis" });
+        return;
       }
-    }
-
-    if (entryFdv <= 0) {
-      res.status(400).json({ error: "Could not compute entry FDV from clearing price" });
+    } else {
+      res.status(400).json({ error: "Missing entryPrice or costBasis" });
       return;
     }
 
     // Start in background
     runExitStrategy({
-      auctionAddress,
       tokenAddress,
+      tokenSymbol,
+      auctionAddress: launch?.auction,
       tokenDecimals,
       totalSupply,
-      entryFdv,
+      entryPrice: price,
       tokenBalance,
       profileOrCustom: profile,
-      stopLossMultiple,
+      stopLossMultiple: stop.stopLossMultiple,
+      trailingStopPct: stop.trailingStopPct,
+      maxImpactPct: impactCap,
     }).catch((err) => {
       console.error("Exit strategy error:", err.message);
     });
 
     res.json({
       status: "started",
-      auctionAddress,
+      tokenAddress,
+      tokenSymbol,
+      auctionAddress: launch?.auction ?? null,
       profile,
-      entryFdv: Math.round(entryFdv),
+      entryPrice: price,
+      entryFdv: Math.round(price * supplyHuman),
       tokenBalance: tokenBalance.toString(),
-      stopLoss: stopLossMultiple,
+      stopLoss: stop.stopLossMultiple,
+      trailingStopPct: stop.trailingStopPct,
+      maxImpactPct: impactCap,
     });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 });
 
+app.patch("/api/exit-strategy/:addr", (req, res) => {
+  if (!getExitStrategy(req.params.addr)) {
+    res.status(404).json({ error: "No exit strategy for this token or auction" });
+    return;
+  }
+  const { tranches, add, remove, set, stopLoss, maxImpactPct, topUp } = req.body;
+  if (remove != null && !Array.isArray(remove)) {
+    res.status(400).json({ error: "remove must be a list of tranche positions" });
+    return;
+  }
+  if (set != null && (typeof set !== "object" || Array.isArray(set))) {
+    res.status(400).json({ error: "set must map tranche positions to tranches, e.g. {\"2\": \"30@4x\"}" });
+    return;
+  }
+  try {
+    res.json(editExitStrategy(req.params.addr, { tranches, add, remove, set, stopLoss, maxImpactPct, topUp }));
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+  }
+});
+
 app.post("/api/exit-strategy/:addr/cancel", (req, res) => {
   const cancelled = cancelExitStrategy(req.params.addr);
   if (!cancelled) {
-    res.status(404).json({ error: "No active exit strategy for this auction" });
+    res.status(404).json({ error: "No active exit strategy for this token or auction" });
     return;
   }
   res.json({ status: "cancelled" });
@@ -618,38 +855,28 @@ app.post("/api/claim", async (req, res) => {
       res.status(400).json({ error: "Missing auctionAddress" });
       return;
     }
-    const account = getAccount();
-    const publicClient = getPublicClient();
-    const walletClient = (await import("./config.js")).getWalletClient();
-
-    const result = await buildClaimTx({
-      auctionAddress,
-      claimer: account.address,
-      bidId: bidId || "0",
-    });
-
-    console.log(`[claim] ${result.transaction.description}`);
-
-    const hash = await walletClient.sendTransaction({
-      to: result.transaction.to as `0x${string}`,
-      data: result.transaction.data as `0x${string}`,
-      value: result.transaction.value ? BigInt(result.transaction.value) : 0n,
-      account,
-      chain: walletClient.chain,
-      gas: 1_000_000n,
-    });
-
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
-    if (receipt.status === "reverted") {
-      throw new Error(`Claim transaction reverted: ${hash}`);
+    if (isPaperMode()) {
+      // Same path as the auto-claimer, so claim records and refunds are kept
+      const { claimed } = await claimAuction(auctionAddress, false);
+      if (claimed.length === 0) {
+        res.status(400).json({ error: "No open paper bids on this auction, or it has not ended yet" });
+        return;
+      }
+      res.json({
+        status: "claimed",
+        method: claimed.map((c) => c.method).join(", "),
+        note: "Simulated — settled in the paper ledger",
+        paper: true,
+      });
+      return;
     }
+    const record = await claimBid(auctionAddress, bidId || "0");
 
     res.json({
       status: "claimed",
-      txHash: hash,
-      method: result.params.claimMethod,
-      graduated: result.params.isGraduated,
-      note: result.note,
+      txHash: record.txHash,
+      method: record.method,
+      graduated: record.graduated,
     });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
@@ -658,12 +885,30 @@ app.post("/api/claim", async (req, res) => {
 
 app.post("/api/claim-all", async (req, res) => {
   try {
+    if (isPaperMode()) {
+      const auctions = new Set(
+        getPaperUserBids()
+          .filter((b) => !b.hasClaimedTokens && !b.hasExited)
+          .map((b) => b.auction)
+      );
+      const claimed: Array<{ auction: string; method: string; note: string }> = [];
+      const errors: Array<{ auction: string; error: string }> = [];
+      for (const auction of auctions) {
+        const outcome = await claimAuction(auction, false);
+        for (const c of outcome.claimed) claimed.push({ auction, method: c.method ?? "", note: "Simulated" });
+        errors.push(...outcome.errors);
+      }
+      if (claimed.length === 0 && errors.length === 0) {
+        res.json({ status: "nothing_to_claim", claimed: [], paper: true });
+        return;
+      }
+      res.json({ status: "done", claimed, errors, paper: true });
+      return;
+    }
     const account = getAccount();
-    const publicClient = getPublicClient();
-    const walletClient = (await import("./config.js")).getWalletClient();
 
     const userBids = await getUserBids(account.address);
-    const claimable = (userBids as any[]).filter(
+    const claimable = userBids.filter(
       (b) => !b.hasClaimedTokens && !b.hasExited && b.isFilled
     );
 
@@ -677,34 +922,12 @@ app.post("/api/claim-all", async (req, res) => {
 
     for (const bid of claimable) {
       try {
-        const result = await buildClaimTx({
-          auctionAddress: bid.auction,
-          claimer: account.address,
-          bidId: bid.bidId || "0",
-        });
-
-        console.log(`[claim-all] ${bid.auction}: ${result.transaction.description}`);
-
-        const hash = await walletClient.sendTransaction({
-          to: result.transaction.to as `0x${string}`,
-          data: result.transaction.data as `0x${string}`,
-          value: result.transaction.value ? BigInt(result.transaction.value) : 0n,
-          account,
-          chain: walletClient.chain,
-          gas: 1_000_000n,
-        });
-
-        const receipt = await publicClient.waitForTransactionReceipt({ hash });
-        if (receipt.status === "reverted") {
-          errors.push({ auction: bid.auction, error: `Reverted: ${hash}` });
-          continue;
-        }
-
+        // Reverts throw and are recorded per auction below
+        const record = await claimBid(bid.auction, bid.bidId || "0", { amountBid: bid.amountBid });
         claimed.push({
           auction: bid.auction,
-          txHash: hash,
-          method: result.params.claimMethod,
-          note: result.note,
+          txHash: record.txHash!,
+          method: record.method ?? "",
         });
       } catch (err: any) {
         errors.push({ auction: bid.auction, error: err.message });
@@ -717,6 +940,16 @@ app.post("/api/claim-all", async (req, res) => {
   }
 });
 
+// Claims sent so far, manual and automatic
+app.get("/api/claims", (_req, res) => {
+  res.json({ autoClaim: isAutoClaimEnabled(), claims: getClaims() });
+});
+
+// Portfolio ledger: refunds from auctions that failed to graduate
+app.get("/api/ledger", (_req, res) => {
+  res.json({ refundedUsdc: refundedUsdc(), entries: getLedger() });
+});
+
 // ─── Token price ───
 // Resolve a token symbol/name to an address — searches trading strategies + graduated launches
 app.get("/api/token/resolve/:query", async (req, res) => {
@@ -787,6 +1020,30 @@ app.get("/api/token/:addr/price", async (req, res) => {
   }
 });
 
+// ─── Paper mode ───
+// GET /api/paper — virtual ledger: balances, simulated bids and trades
+app.get("/api/paper", (_req, res) => {
+  if (!isPaperMode()) {
+    res.status(404).json({ error: "Paper mode is off — start with PAPER_MODE=1" });
+    return;
+  }
+  res.json(getPaperLedger());
+});
+
+// POST /api/paper/reset — start over with the configured balances
+app.post("/api/paper/reset", (_req, res) => {
+  if (!isPaperMode()) {
+    res.status(404).json({ error: "Paper mode is off — start with PAPER_MODE=1" });
+    return;
+  }
+  res.json(resetPaperLedger());
+});
+
+// ─── Persisted state ───
+app.get("/api/state/quarantine", (_req, res) => {
+  res.json(getQuarantine());
+});
+
 // ─── Readiness alerts ───
 app.post("/api/readiness/dismiss", (req, res) => {
   const { auctionAddress, stage } = req.body;
@@ -939,6 +1196,30 @@ app.post("/api/trading-strategy/:id/sell", async (req, res) => {
   }
 });
 
+app.post("/api/trading-strategy/:id/exit", (req, res) => {
+  const { profileOrCustom, stopLoss, maxImpactPct } = req.body;
+  let stop: ReturnType<typeof parseStopLoss> = {};
+  let impactCap: number | undefined;
+  try {
+    if (stopLoss != null && stopLoss !== "") stop = parseStopLoss(stopLoss);
+    if (maxImpactPct != null && maxImpactPct !== "") impactCap = parseMaxImpact(maxImpactPct);
+  } catch (err: any) {
+    res.status(400).json({ error: err.message });
+    return;
+  }
+  const result = attachExitPlan(req.params.id, {
+    profileOrCustom: profileOrCustom || "moderate",
+    stopLossMultiple: stop.stopLossMultiple,
+    trailingStopPct: stop.trailingStopPct,
+    maxImpactPct: impactCap,
+  });
+  if ("error" in result) {
+    res.status(400).json(result);
+    return;
+  }
+  res.json(result);
+});
+
 app.post("/api/trading/liquidate", async (req, res) => {
   try {
     const result = await liquidateAll();
@@ -966,68 +1247,198 @@ app.post("/api/trading-strategy/:id/resume", (req, res) => {
   res.json({ status: "resumed" });
 });
 
+// POST /api/backtest — run a trading strategy over a stored or imported price series.
+// Price series: csv ("timestamp,price" rows), history ([{ timestamp, price }]), the
+// stored history of strategyId, or the tracker's history for tokenAddress.
+// type/params/riskLimits default to strategyId's own.
+app.post("/api/backtest", async (req, res) => {
+  try {
+    const { strategyId, csv, history, tokenAddress, slippageBps, gasEthPerSwap, ethPriceUsd, capital } = req.body;
+    const source = strategyId ? getTradingStrategy(String(strategyId)) : undefined;
+    if (strategyId && !source) {
+      res.status(404).json({ error: "Trading strategy not found" });
+      return;
+    }
+
+    const type: StrategyType | undefined = req.body.type ?? source?.type;
+    if (!type || !(type in BACKTEST_EVALUATORS)) {
+      res.status(400).json({ error: `Unknown or missing strategy type: ${type} (dca, twap, mean-reversion)` });
+      return;
+    }
+
+    let series: PricePoint[];
+    if (csv) series = parsePriceCsv(String(csv));
+    else if (Array.isArray(history)) series = history.map((p: any) => ({ timestamp: Number(p.timestamp), price: Number(p.price) }));
+    else if (source) series = source.priceHistory;
+    else if (tokenAddress) series = getHistory(String(tokenAddress));
+    else {
+      res.status(400).json({ error: "Provide csv, history, strategyId or tokenAddress for the price series" });
+      return;
+    }
+    if (series.length < 2) {
+      res.status(400).json({ error: `Need at least 2 price points, got ${series.length}` });
+      return;
+    }
+
+    let state: TradingStrategyState;
+    try {
+      state = createBacktestState(
+        type,
+        {
+          tokenAddress: source?.tokenAddress ?? tokenAddress ?? "backtest",
+          tokenSymbol: req.body.tokenSymbol ?? source?.tokenSymbol ?? "TOKEN",
+          tokenDecimals: Number(req.body.tokenDecimals ?? source?.tokenDecimals ?? 18),
+        },
+        req.body.params ?? source?.params ?? {},
+        req.body.riskLimits ?? source?.riskLimits,
+        series[0].timestamp
+      );
+    } catch (err: any) {
+      res.status(400).json({ error: err.message });
+      return;
+    }
+
+    const result = await runBacktest(state, BACKTEST_EVALUATORS[type], series, {
+      slippageBps: slippageBps != null ? Number(slippageBps) : undefined,
+      gasEthPerSwap: gasEthPerSwap != null ? Number(gasEthPerSwap) : undefined,
+      ethPriceUsd: ethPriceUsd != null ? Number(ethPriceUsd) : undefined,
+      capital: capital != null ? Number(capital) : undefined,
+    });
+    res.json(result);
+  } catch (err: any) {
+    res.status(err.message.startsWith("CSV line") ? 400 : 500).json({ error: err.message });
+  }
+});
+
 // ─── Boot: restore state and start ───
 const PORT = Number(process.env.PORT) || 3000;
 
 // Load persisted state before starting
 const savedState = loadState();
 
-if (savedState["Agent"]) {
-  const a = savedState["Agent"] as any;
-  if (Array.isArray(a.watching)) agent.watching = a.watching;
-  if (a.status) agent.status = a.status;
-  if (Array.isArray(a.armedBids)) agent.armedBids = a.armedBids;
+const savedAgent = restoreSection<any>(savedState, "Agent");
+if (savedAgent) {
+  if (Array.isArray(savedAgent.watching)) agent.watching = savedAgent.watching;
+  if (savedAgent.status) agent.status = savedAgent.status;
+  if (Array.isArray(savedAgent.armedBids)) agent.armedBids = savedAgent.armedBids;
   console.log(`[boot] Restored agent: watching ${agent.watching.length} auctions, status=${agent.status}`);
 }
 
-if (savedState["Bid Strategies"]) {
-  const strats = savedState["Bid Strategies"] as any[];
-  if (Array.isArray(strats)) {
-    setStrategies(strats);
-    console.log(`[boot] Restored ${strats.length} bid strategies`);
-  }
+const bidJobs = restoreSection<BidJob[]>(savedState, "Bid Jobs");
+if (bidJobs) {
+  setBidJobs(bidJobs);
+  console.log(`[boot] Restored ${bidJobs.length} bid jobs (${bidJobs.filter(isJobActive).length} active)`);
 }
 
-if (savedState["Exit Strategies"]) {
-  const exits = savedState["Exit Strategies"] as any[];
-  if (Array.isArray(exits)) {
-    setExitStrategies(exits);
-    const running = exits.filter((e) => e.status === "running").length;
-    console.log(`[boot] Restored ${exits.length} exit strategies (${running} running)`);
-  }
+const paperLedger = restoreSection<PaperLedger>(savedState, "Paper Ledger");
+if (paperLedger && isPaperMode()) {
+  setPaperLedger(paperLedger);
+  console.log(`[boot] Restored paper ledger: ${paperLedger.bids.length} bids, ${paperLedger.trades.length} trades`);
 }
 
-if (savedState["Processed Graduations"]) {
-  const grads = savedState["Processed Graduations"] as string[];
-  if (Array.isArray(grads)) {
-    setProcessedGraduations(grads);
-    console.log(`[boot] Restored ${grads.length} processed graduations`);
-  }
+const allowanceRecords = restoreSection<AllowanceRecord[]>(savedState, "Allowances");
+if (allowanceRecords) {
+  setAllowances(allowanceRecords);
+  const open = allowanceRecords.filter((a) => a.status !== "revoked").length;
+  console.log(`[boot] Restored ${allowanceRecords.length} allowances (${open} open)`);
 }
 
-if (savedState["Readiness Alerts"]) {
-  const alerts = savedState["Readiness Alerts"] as any[];
-  if (Array.isArray(alerts)) {
-    setAlertedStages(alerts);
-    console.log(`[boot] Restored readiness alert stages for ${alerts.length} auctions`);
-  }
+const claimRecords = restoreSection<ClaimRecord[]>(savedState, "Claims");
+if (claimRecords) {
+  setClaims(claimRecords);
+  console.log(`[boot] Restored ${claimRecords.length} claims`);
+}
+
+const ledgerEntries = restoreSection<LedgerEntry[]>(savedState, "Portfolio Ledger");
+if (ledgerEntries) {
+  setLedger(ledgerEntries);
+  console.log(`[boot] Restored ${ledgerEntries.length} portfolio ledger entries`);
+}
+
+const strats = restoreSection<StrategyState[]>(savedState, "Bid Strategies");
+if (strats) {
+  setStrategies(strats);
+  const active = strats.filter((s) => s.status === "waiting" || s.status === "watching" || s.status === "bidding").length;
+  console.log(`[boot] Restored ${strats.length} bid strategies (${active} active)`);
+}
+
+const exits = restoreSection<ExitStrategyState[]>(savedState, "Exit Strategies");
+if (exits) {
+  setExitStrategies(exits);
+  const running = exits.filter((e) => e.status === "running").length;
+  console.log(`[boot] Restored ${exits.length} exit strategies (${running} running)`);
 }
 
-if (savedState["Trading Strategies"]) {
-  const ts = savedState["Trading Strategies"] as any[];
-  if (Array.isArray(ts)) {
-    setTradingStrategies(ts);
-    const running = ts.filter((s) => s.status === "running").length;
-    console.log(`[boot] Restored ${ts.length} trading strategies (${running} running)`);
+const grads = restoreSection<string[]>(savedState, "Processed Graduations");
+if (Array.isArray(grads)) {
+  setProcessedGraduations(grads);
+  console.log(`[boot] Restored ${grads.length} processed graduations`);
+}
+
+const alerts = restoreSection<any[]>(savedState, "Readiness Alerts");
+if (Array.isArray(alerts)) {
+  setAlertedStages(alerts);
+  console.log(`[boot] Restored readiness alert stages for ${alerts.length} auctions`);
+}
+
+const ts = restoreSection<TradingStrategyState[]>(savedState, "Trading Strategies");
+if (ts) {
+  setTradingStrategies(ts);
+  const running = ts.filter((s) => s.status === "running").length;
+  console.log(`[boot] Restored ${ts.length} trading strategies (${running} running)`);
+}
+
+const quarantined = getQuarantine().length;
+if (quarantined > 0) {
+  console.log(`[boot] ${quarantined} persisted records in quarantine — see GET /api/state/quarantine`);
+}
+
+/**
+ * Resume persisted bid jobs, then re-arm any armed bid that has no job
+ * (state saved before jobs existed) so the UI never shows a bid that won't fire.
+ */
+function resumeArmedBids(): void {
+  resumeBidJobs();
+  const jobsByAuction = new Map(getBidJobs().map((j) => [j.auctionAddress, j]));
+
+  for (const b of [...agent.armedBids]) {
+    const job = jobsByAuction.get(b.auctionAddress);
+    if (job && isJobActive(job)) continue;
+    if (job) {
+      // Settled while the server was down (or on resume) — clear it
+      agent.armedBids = agent.armedBids.filter((a) => a.auctionAddress !== b.auctionAddress);
+      continue;
+    }
+    try {
+      armBidJob({ bidder: getAccount().address, ...b });
+    } catch (err: any) {
+      console.error(`[boot] Could not re-arm bid for ${b.auctionAddress}: ${err.message}`);
+      agent.armedBids = agent.armedBids.filter((a) => a.auctionAddress !== b.auctionAddress);
+    }
   }
+  if (agent.status === "armed" && agent.armedBids.length === 0) {
+    agent.status = agent.watching.length > 0 ? "watching" : "idle";
+  }
+  markDirty();
 }
 
 const HOST = AUTH_TOKEN ? "0.0.0.0" : "127.0.0.1";
 app.listen(PORT, HOST, () => {
   console.log(`terminal.flow.bid running on http://localhost:${PORT}`);
+  if (isPaperMode()) console.log("[paper] PAPER MODE — writes are simulated, balances come from the virtual ledger");
   startGraduationMonitor();
   startReadinessMonitor(() => agent);
   startTelegramBot();
+  // Top up pre-approvals and revoke those for ended auctions
+  startAllowanceManager();
+  // Re-create start-block watchers for armed bids
+  resumeArmedBids();
+  // Claim tokens and refunds once auctions pass their claim block
+  if (process.env.AUTO_CLAIM !== "0" && process.env.AUTO_CLAIM !== "false") startAutoClaimer();
+  // Resume bid strategies that were mid-flight after load
+  resumeStrategies();
+  // Record auctions that strategies run on, for replay
+  if (process.env.RECORD_AUCTIONS === "1" || process.env.RECORD_AUCTIONS === "true") startAutoRecorder();
   // Resume running exit strategies after load
   resumeExitStrategies();
   // Resume running trading strategies after load
@@ -0,0 +1,66 @@
+import fs from "fs";
+import type { LoadedState, SectionSnapshot, StorageBackend } from "./types.js";
+
+/**
+ * Human-readable backend: one `## Section (vN)` heading per collector followed
+ * by a fenced JSON block. The whole file is rewritten on every save.
+ */
+export function createMarkdownBackend(stateFile: string): StorageBackend {
+  return {
+    name: "markdown",
+
+    save(snapshots: SectionSnapshot[]): void {
+      let md = "# Flow-Bid State\n\n";
+      md += `_Last saved: ${new Date().toISOString()}_\n\n`;
+
+      for (const { section, version, data } of snapshots) {
+        md += `## ${section} (v${version})\n`;
+        md += "```json\n";
+        md += JSON.stringify(data, null, 2);
+        md += "\n```\n\n";
+      }
+
+      // Atomic write: write to temp, then rename
+      const tmpFile = stateFile + ".tmp";
+      fs.writeFileSync(tmpFile, md, "utf-8");
+      fs.renameSync(tmpFile, stateFile);
+    },
+
+    load(): LoadedState {
+      const result: LoadedState = {};
+
+      if (!fs.existsSync(stateFile)) {
+        console.log("[persistence] No state file found, starting fresh");
+        return result;
+      }
+
+      const content = fs.readFileSync(stateFile, "utf-8");
+      // Parse markdown sections with fenced JSON blocks.
+      // Headings written before versioning have no "(vN)" suffix and load as v0.
+      const sectionRegex = /^## (.+?)(?: \(v(\d+)\))?$/gm;
+      const jsonBlockRegex = /```json\n([\s\S]*?)```/g;
+
+      const sections: Array<{ name: string; version: number }> = [];
+      let match: RegExpExecArray | null;
+
+      while ((match = sectionRegex.exec(content)) !== null) {
+        sections.push({ name: match[1].trim(), version: match[2] ? parseInt(match[2]) : 0 });
+      }
+
+      let blockIndex = 0;
+      while ((match = jsonBlockRegex.exec(content)) !== null) {
+        if (blockIndex < sections.length) {
+          const { name, version } = sections[blockIndex];
+          try {
+            result[name] = { version, data: JSON.parse(match[1]) };
+          } catch {
+            console.error(`[persistence] Failed to parse section: ${name}`);
+          }
+        }
+        blockIndex++;
+      }
+
+      return result;
+    },
+  };
+}
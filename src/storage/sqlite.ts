@@ -0,0 +1,275 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import type BetterSqlite3 from "better-sqlite3";
+import type { LoadedState, SectionSnapshot, StorageBackend } from "./types.js";
+
+type Database = BetterSqlite3.Database;
+
+// Loaded lazily so the markdown backend works without the native module installed
+const require = createRequire(import.meta.url);
+
+// ─── Schema ───
+
+// Each entry upgrades the database by one version (tracked in PRAGMA user_version)
+const SCHEMA_MIGRATIONS: Array<(db: Database) => void> = [
+  // v1: section registry — per-section record tables are created on demand
+  (db) => {
+    db.exec(`
+      CREATE TABLE sections (
+        name       TEXT PRIMARY KEY,
+        table_name TEXT NOT NULL UNIQUE,
+        kind       TEXT NOT NULL CHECK (kind IN ('array', 'value')),
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  },
+  // v2: per-section state version, driving record migrations on load
+  (db) => {
+    db.exec("ALTER TABLE sections ADD COLUMN version INTEGER NOT NULL DEFAULT 0");
+  },
+  // v3: append-only series points (price histories), kept out of the record rows
+  (db) => {
+    db.exec(`
+      CREATE TABLE series_points (
+        section    TEXT NOT NULL,
+        record_key TEXT NOT NULL,
+        field      TEXT NOT NULL,
+        time       INTEGER NOT NULL,
+        json       TEXT NOT NULL,
+        PRIMARY KEY (section, record_key, time)
+      )
+    `);
+  },
+];
+
+function migrateSchema(db: Database): void {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let v = current; v < SCHEMA_MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      SCHEMA_MIGRATIONS[v](db);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+    console.log(`[persistence] SQLite schema migrated to v${v + 1}`);
+  }
+}
+
+function tableNameFor(section: string): string {
+  return "section_" + section.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+function createSectionTable(db: Database, table: string): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS "${table}" (
+      key        TEXT PRIMARY KEY,
+      position   INTEGER NOT NULL,
+      json       TEXT NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+}
+
+// ─── Backend ───
+
+interface CachedRow {
+  position: number;
+  json: string;
+}
+
+/** Oldest and newest stored point of one record's series */
+interface SeriesBounds {
+  first: number;
+  last: number;
+}
+
+/**
+ * SQLite backend: one table per section, one row per record. Saves compare
+ * each record against what was last written and only upsert/delete the rows
+ * that changed, so large sections aren't rewritten wholesale. A section's
+ * series field (a price history) goes to series_points instead: new points
+ * are appended and points that fell off the front are deleted.
+ */
+export function createSqliteBackend(dbFile: string): StorageBackend {
+  const Sqlite = require("better-sqlite3") as typeof BetterSqlite3;
+
+  fs.mkdirSync(path.dirname(dbFile), { recursive: true });
+  const db = new Sqlite(dbFile);
+  db.pragma("journal_mode = WAL");
+  migrateSchema(db);
+
+  // Last-written rows per table, used to diff on save
+  const written = new Map<string, Map<string, CachedRow>>();
+  // Stored series bounds per section, by record key
+  const seriesWritten = new Map<string, Map<string, SeriesBounds>>();
+
+  function cachedRows(table: string): Map<string, CachedRow> {
+    let rows = written.get(table);
+    if (!rows) {
+      rows = new Map();
+      const existing = db
+        .prepare(`SELECT key, position, json FROM "${table}"`)
+        .all() as Array<{ key: string; position: number; json: string }>;
+      for (const r of existing) rows.set(r.key, { position: r.position, json: r.json });
+      written.set(table, rows);
+    }
+    return rows;
+  }
+
+  function cachedSeries(section: string): Map<string, SeriesBounds> {
+    let bounds = seriesWritten.get(section);
+    if (!bounds) {
+      bounds = new Map();
+      const existing = db
+        .prepare("SELECT record_key, MIN(time) AS first, MAX(time) AS last FROM series_points WHERE section = ? GROUP BY record_key")
+        .all(section) as Array<{ record_key: string; first: number; last: number }>;
+      for (const r of existing) bounds.set(r.record_key, { first: r.first, last: r.last });
+      seriesWritten.set(section, bounds);
+    }
+    return bounds;
+  }
+
+  /** Append a record's new series points and drop the ones it no longer holds */
+  function saveSeries(snapshot: SectionSnapshot, key: string, points: unknown[]): void {
+    const { field, time } = snapshot.series!;
+    const bounds = cachedSeries(snapshot.section);
+    const stored = bounds.get(key);
+    if (points.length === 0) {
+      if (stored) db.prepare("DELETE FROM series_points WHERE section = ? AND record_key = ?").run(snapshot.section, key);
+      bounds.delete(key);
+      return;
+    }
+
+    const first = time(points[0]);
+    if (stored && first > stored.first) {
+      db.prepare("DELETE FROM series_points WHERE section = ? AND record_key = ? AND time < ?").run(snapshot.section, key, first);
+    }
+    const insert = db.prepare(
+      "INSERT OR REPLACE INTO series_points (section, record_key, field, time, json) VALUES (?, ?, ?, ?, ?)"
+    );
+    let last = stored?.last ?? -Infinity;
+    for (const point of points) {
+      const t = time(point);
+      if (t <= last) continue;
+      insert.run(snapshot.section, key, field, t, JSON.stringify(point));
+      last = t;
+    }
+    bounds.set(key, { first, last });
+  }
+
+  function saveSection(snapshot: SectionSnapshot, now: number): void {
+    const table = tableNameFor(snapshot.section);
+    const kind = Array.isArray(snapshot.data) ? "array" : "value";
+
+    const registered = db
+      .prepare("SELECT kind FROM sections WHERE name = ?")
+      .get(snapshot.section) as { kind: string } | undefined;
+
+    createSectionTable(db, table);
+    if (registered && registered.kind !== kind) {
+      // Section changed shape — start over rather than mixing layouts
+      db.prepare(`DELETE FROM "${table}"`).run();
+      written.delete(table);
+    }
+    db.prepare(
+      `INSERT INTO sections (name, table_name, kind, version, updated_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(name) DO UPDATE SET kind = excluded.kind, version = excluded.version, updated_at = excluded.updated_at`
+    ).run(snapshot.section, table, kind, snapshot.version, now);
+
+    const records: unknown[] = kind === "array" ? (snapshot.data as unknown[]) : [snapshot.data];
+    const previous = cachedRows(table);
+    const next = new Map<string, CachedRow>();
+
+    const series = kind === "array" ? snapshot.series : undefined;
+    records.forEach((record, position) => {
+      let key = kind === "value" ? "value" : snapshot.key ? snapshot.key(record) : String(position);
+      // Guard against duplicate keys so no record is silently dropped
+      if (next.has(key)) key = `${key}#${position}`;
+      const points = series ? (record as Record<string, unknown>)[series.field] : undefined;
+      if (series && Array.isArray(points)) {
+        // The row keeps an empty array so the record loads whole even with no points
+        saveSeries(snapshot, key, points);
+        next.set(key, { position, json: JSON.stringify({ ...(record as object), [series.field]: [] }) });
+      } else {
+        next.set(key, { position, json: JSON.stringify(record) });
+      }
+    });
+
+    const upsert = db.prepare(
+      `INSERT INTO "${table}" (key, position, json, updated_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET position = excluded.position, json = excluded.json, updated_at = excluded.updated_at`
+    );
+    const remove = db.prepare(`DELETE FROM "${table}" WHERE key = ?`);
+
+    for (const [key, row] of next) {
+      const prev = previous.get(key);
+      if (prev && prev.json === row.json && prev.position === row.position) continue;
+      upsert.run(key, row.position, row.json, now);
+    }
+    for (const key of previous.keys()) {
+      if (!next.has(key)) remove.run(key);
+    }
+    if (series) {
+      const bounds = cachedSeries(snapshot.section);
+      for (const key of bounds.keys()) {
+        if (next.has(key)) continue;
+        db.prepare("DELETE FROM series_points WHERE section = ? AND record_key = ?").run(snapshot.section, key);
+        bounds.delete(key);
+      }
+    }
+
+    written.set(table, next);
+  }
+
+  return {
+    name: "sqlite",
+
+    save(snapshots: SectionSnapshot[]): void {
+      const now = Date.now();
+      db.transaction(() => {
+        for (const snapshot of snapshots) saveSection(snapshot, now);
+      })();
+    },
+
+    load(): LoadedState {
+      const result: LoadedState = {};
+      const sections = db
+        .prepare("SELECT name, table_name, kind, version FROM sections")
+        .all() as Array<{ name: string; table_name: string; kind: string; version: number }>;
+
+      for (const s of sections) {
+        const rows = db
+          .prepare(`SELECT key, position, json FROM "${s.table_name}" ORDER BY position`)
+          .all() as Array<{ key: string; position: number; json: string }>;
+        written.set(s.table_name, new Map(rows.map((r) => [r.key, { position: r.position, json: r.json }])));
+
+        // Put series points back on their records, oldest first
+        const points = new Map<string, { field: string; values: unknown[] }>();
+        const seriesRows = db
+          .prepare("SELECT record_key, field, json FROM series_points WHERE section = ? ORDER BY record_key, time")
+          .all(s.name) as Array<{ record_key: string; field: string; json: string }>;
+
+        try {
+          for (const p of seriesRows) {
+            let entry = points.get(p.record_key);
+            if (!entry) points.set(p.record_key, (entry = { field: p.field, values: [] }));
+            entry.values.push(JSON.parse(p.json));
+          }
+          const records = rows.map((r) => {
+            const record = JSON.parse(r.json);
+            const series = points.get(r.key);
+            if (series) record[series.field] = series.values;
+            return record;
+          });
+          result[s.name] = { version: s.version, data: s.kind === "array" ? records : records[0] ?? null };
+        } catch {
+          console.error(`[persistence] Failed to parse section: ${s.name}`);
+        }
+      }
+
+      if (sections.length === 0) {
+        console.log("[persistence] Empty state database, starting fresh");
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * One persisted section as handed to a storage backend.
+ * `key` identifies records inside array sections so backends that store
+ * records individually can upsert only what changed.
+ */
+export interface SectionSnapshot {
+  section: string;
+  version: number;
+  data: unknown;
+  key?: (record: any) => string;
+  /**
+   * An array field of each record that only grows at the end and drops its
+   * oldest points, e.g. a price history. Backends that store records
+   * individually keep its points apart and append only the new ones.
+   */
+  series?: { field: string; time: (point: any) => number };
+}
+
+/** A section as read back from storage, before migrations run */
+export interface StoredSection {
+  version: number; // 0 for state written before sections were versioned
+  data: unknown;
+}
+
+export interface LoadedState {
+  [section: string]: StoredSection;
+}
+
+export interface StorageBackend {
+  name: string;
+  load(): LoadedState;
+  save(snapshots: SectionSnapshot[]): void;
+}
@@ -0,0 +1,55 @@
+// ─── Runtime shape checks for persisted records ───
+
+type FieldType = "string" | "number" | "boolean" | "array" | "object";
+
+/**
+ * Field spec: a type name (suffix `?` for optional, which also allows null)
+ * or a list of allowed string values.
+ */
+export type Shape = Record<string, FieldType | `${FieldType}?` | readonly string[]>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && !Number.isFinite(value)) return "non-finite number";
+  return typeof value;
+}
+
+/** Return a list of problems with `record` (empty when it matches `shape`) */
+export function validateShape(record: unknown, shape: Shape): string[] {
+  if (typeOf(record) !== "object") return [`expected object, got ${typeOf(record)}`];
+  const obj = record as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const [field, spec] of Object.entries(shape)) {
+    const value = obj[field];
+
+    if (Array.isArray(spec)) {
+      if (typeof value !== "string" || !spec.includes(value)) {
+        problems.push(`${field}: expected one of ${spec.join("|")}, got ${JSON.stringify(value)}`);
+      }
+      continue;
+    }
+
+    const optional = (spec as string).endsWith("?");
+    const type = optional ? (spec as string).slice(0, -1) : spec;
+    if (optional && value == null) continue;
+    if (typeOf(value) !== type) {
+      problems.push(`${field}: expected ${type}, got ${typeOf(value)}`);
+    }
+  }
+  return problems;
+}
+
+/** A section migration; `perRecord` is set when it upgrades array elements one at a time */
+export type SectionMigration = ((data: any) => any) & { perRecord?: (record: any) => any };
+
+/**
+ * Wrap a per-record migration so it applies to every element of an array
+ * section. On load each record migrates on its own, so one that throws is
+ * quarantined without taking the rest of the section with it.
+ */
+export function eachRecord(migrate: (record: any) => any): SectionMigration {
+  const migration = (data: any) => (Array.isArray(data) ? data.map((r) => migrate(r)) : data);
+  return Object.assign(migration, { perRecord: migrate });
+}
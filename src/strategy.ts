@@ -1,14 +1,28 @@
 import {
-  getAuction,
-  getAuctionBids,
-  getCurrentBlock,
+  getUserBids,
   type BuildBidTxParams,
   type AuctionBid,
+  type AuctionFields,
   type AuctionInfo,
+  type CurrentBlock,
+  type UserBid,
 } from "./api.js";
-import { submitBid } from "./bid.js";
+import { getAuction, getAuctionBids, getCurrentBlock } from "./auction-data.js";
+import { submitBid, type BidResult } from "./bid.js";
+import { q96ToFdv } from "./bid-builder.js";
+import { crossCheckAuction } from "./onchain.js";
+import { isPaperMode } from "./config.js";
+import { getPaperUserBids } from "./paper.js";
+import { releaseAllowance, requestAllowance } from "./allowances.js";
+import { AuctionEndedError, BidBelowClearingPriceError } from "./reverts.js";
+import type { Urgency } from "./tx-manager.js";
+import { describePricing, priceBid, type BookBid, type PricingConfig } from "./bid-pricing.js";
 import { formatCountdown } from "./utils.js";
-import { markDirty, registerCollector } from "./persistence.js";
+import { markDirty, registerCollector, registerSchema } from "./persistence.js";
+import { eachRecord, validateShape } from "./storage/validate.js";
+
+/** Blocks before the end at which a strategy stops watching and starts bidding (~30s on Base) */
+export const DEFAULT_BID_WINDOW_BLOCKS = 15;
 
 /** Dynamic poll interval based on phase and blocks remaining */
 function getPollInterval(status: StrategyState["status"], blocksLeft: number): number {
@@ -26,10 +40,53 @@ export interface StrategyParams {
   amount: number;
   exitProfile?: string; // "conservative", "moderate", "aggressive", or custom "50@3x,50@5x"
   stopLoss?: number;
+  trailingStopPct?: number; // exit trailing stop: sell all this % below the peak multiple
+  exitMaxImpactPct?: number; // exit price-impact cap: split tranche sells that would move the price more
+  pricing?: PricingConfig; // bid pricing policy for the bidding phase (default: fixed-premium)
+  ladder?: LadderRung[];   // split the allocation into several bids, e.g. "40@1.1x,30@1.5x,30@max"
+  bidWindowBlocks?: number; // start bidding this many blocks before the end (default 15)
+}
+
+export interface LadderRung {
+  pct: number;               // share of the total amount, 0-100
+  multiple: number | "max";  // max FDV as a multiple of clearing FDV, or the strategy's max FDV
+}
+
+export interface LadderRungState extends LadderRung {
+  amount: number;
+  status: "pending" | "placed" | "failed";
+  targetFdv: number | null;
+  actualFdv: number | null;
+  maxPriceQ96: string | null;
+  txHashes: string[];
+  error: string | null;
+  fill: "pending" | "filled" | "partial" | "unfilled" | "unknown";
+}
+
+/** How our bids on an auction settled, read back once it has ended */
+export interface BidSettlement {
+  status: "filled" | "partial" | "outbid" | "unknown";
+  checkedAt: number;
+  /** Our bids found on the auction */
+  bids: number;
+  /** USDC committed across those bids */
+  amountBid: number;
+  /** USDC that bought tokens */
+  filledAmount: number;
+  /** USDC returned for the unfilled part (bids with an unknown outcome excluded) */
+  refundUsdc: number;
+  /** Whole tokens bought */
+  tokensAllocated: number;
+  /** Final clearing FDV of the auction */
+  clearingFdv: number;
+  /** FDV we actually paid for our tokens; null when nothing filled */
+  entryFdv: number | null;
 }
 
 export interface StrategyState {
   auctionAddress: string;
+  /** Wallet that places the bids — kept so a resumed strategy bids from the same account */
+  bidder?: string;
   status: "waiting" | "watching" | "bidding" | "done" | "failed";
   amount: number;
   minFdvUsd: number;
@@ -37,13 +94,32 @@ export interface StrategyState {
   currentFdv: number;
   impliedFdv: number;
   bidsPlaced: number;
+  /** Attempts used so far in the bid window (an attempt counts once submission starts) */
+  bidAttempts: number;
   maxBidAttempts: number;
+  startBlock?: number;
+  endBlock?: number;
   lastBidFdv: number | null;
+  /** Q96 max price of the last confirmed single bid, to find it among our bids at settlement */
+  lastBidPriceQ96?: string;
   clearingPrice: string | null;
   totalBids: number;
   fdvHistory: number[];
   exitProfile?: string;
   stopLoss?: number;
+  /** Exit trailing stop, % below the peak multiple */
+  trailingStopPct?: number;
+  /** Exit price-impact cap, % per sell */
+  exitMaxImpactPct?: number;
+  pricing?: PricingConfig;
+  /** Blocks before the end at which bidding starts (default 15) */
+  bidWindowBlocks?: number;
+  /** Final clearing FDV predicted by the pricing policy at the last bid */
+  predictedFdv?: number;
+  /** Ladder mode: one entry per rung instead of a single bid */
+  ladder?: LadderRungState[];
+  /** Fill, refund and entry price of our bids, recorded after the end block */
+  settlement?: BidSettlement;
   log: Array<{ time: number; message: string; type: "info" | "bid" | "error" }>;
 }
 
@@ -76,12 +152,100 @@ export function setStrategies(states: StrategyState[]): void {
   }
 }
 
+/**
+ * Parse a ladder string like "40@1.1x,30@1.5x,30@max".
+ * Multiples are relative to the clearing FDV; percentages must add up to 100.
+ */
+export function parseLadder(input: string): LadderRung[] {
+  const rungs = input.split(",").map((part) => {
+    const match = part.trim().match(/^(\d+(?:\.\d+)?)@(?:(\d+(?:\.\d+)?)x|(max))$/i);
+    if (!match) throw new Error(`Invalid ladder rung: "${part.trim()}" — use "40@1.1x" or "30@max"`);
+    const multiple = match[3] ? ("max" as const) : parseFloat(match[2]);
+    if (multiple !== "max" && multiple < 1) {
+      throw new Error(`Invalid ladder rung: "${part.trim()}" — multiple must be at least 1x clearing`);
+    }
+    return { pct: parseFloat(match[1]), multiple };
+  });
+  const total = rungs.reduce((sum, r) => sum + r.pct, 0);
+  if (Math.abs(total - 100) > 0.01) {
+    throw new Error(`Ladder percentages add up to ${total}% — they must total 100%`);
+  }
+  return rungs;
+}
+
+export function formatLadder(rungs: LadderRung[]): string {
+  return rungs.map((r) => `${r.pct}@${r.multiple === "max" ? "max" : `${r.multiple}x`}`).join(",");
+}
+
 // Register persistence collector
 registerCollector(() => ({
   section: "Bid Strategies",
   data: Array.from(strategies.values()),
+  key: (s: StrategyState) => s.auctionAddress,
 }));
 
+registerSchema("Bid Strategies", {
+  migrations: [
+    // v1: fill fields missing from early unversioned state
+    eachRecord((s) => {
+      s.currentFdv ??= s.minFdvUsd;
+      s.impliedFdv ??= 0;
+      s.bidsPlaced ??= 0;
+      s.maxBidAttempts ??= 2;
+      s.lastBidFdv ??= null;
+      s.clearingPrice ??= null;
+      s.totalBids ??= 0;
+      s.fdvHistory ??= [];
+      s.log ??= [];
+      return s;
+    }),
+    // v2: resumable strategies — bidder, attempts used and auction block range
+    eachRecord((s) => {
+      s.bidder ??= null;
+      s.bidAttempts ??= s.bidsPlaced;
+      s.startBlock ??= null;
+      s.endBlock ??= null;
+      return s;
+    }),
+    // v3: ladder-only fill check replaced by settlement for every strategy
+    eachRecord((s) => {
+      delete s.fillsCheckedAt;
+      return s;
+    }),
+  ],
+  validate: (record) =>
+    validateShape(record, {
+      auctionAddress: "string",
+      bidder: "string?",
+      status: ["waiting", "watching", "bidding", "done", "failed"],
+      amount: "number",
+      minFdvUsd: "number",
+      maxFdvUsd: "number",
+      currentFdv: "number",
+      impliedFdv: "number",
+      bidsPlaced: "number",
+      bidAttempts: "number",
+      maxBidAttempts: "number",
+      startBlock: "number?",
+      endBlock: "number?",
+      lastBidFdv: "number?",
+      lastBidPriceQ96: "string?",
+      clearingPrice: "string?",
+      totalBids: "number",
+      fdvHistory: "array",
+      exitProfile: "string?",
+      stopLoss: "number?",
+      trailingStopPct: "number?",
+      exitMaxImpactPct: "number?",
+      pricing: "object?",
+      bidWindowBlocks: "number?",
+      predictedFdv: "number?",
+      ladder: "array?",
+      settlement: "object?",
+      log: "array",
+    }),
+});
+
 function addLog(
   state: StrategyState,
   message: string,
@@ -93,11 +257,60 @@ function addLog(
   console.log(`[strategy:${state.auctionAddress.slice(0, 8)}] ${message}`);
 }
 
-export async function runStrategy(params: StrategyParams): Promise<void> {
-  const { bidder, auctionAddress, minFdvUsd, maxFdvUsd, amount, exitProfile, stopLoss } = params;
+// ─── Environment ───
 
-  const state: StrategyState = {
+/**
+ * Everything a strategy reads from or does to the outside world. Live
+ * strategies run against the real feeds, wallet and timers; the replay
+ * harness swaps in a recorded auction, a simulated bidder and a virtual clock.
+ */
+export interface StrategyEnv {
+  getCurrentBlock: () => Promise<CurrentBlock>;
+  getAuction: (auctionAddress: string) => Promise<AuctionInfo>;
+  getAuctionBids: (auctionAddress: string) => Promise<AuctionBid[]>;
+  crossCheckAuction: (
+    auctionAddress: string,
+    auctionInfo: AuctionInfo
+  ) => Promise<{ clearingPrice: bigint | null; discrepancies: string[] }>;
+  submitBid: (params: BuildBidTxParams, options: { urgency?: Urgency }) => Promise<BidResult>;
+  getUserBids: (bidder: string) => Promise<UserBid[]>;
+  requestAllowance: (spender: string, consumer: string, amountUsdc: number, endBlock: number | null) => void;
+  releaseAllowance: (spender: string, consumer: string) => void;
+  markDirty: () => void;
+  sleep: (ms: number) => Promise<void>;
+}
+
+const liveEnv: StrategyEnv = {
+  getCurrentBlock,
+  getAuction,
+  getAuctionBids,
+  crossCheckAuction,
+  submitBid,
+  getUserBids: async (bidder) => (isPaperMode() ? getPaperUserBids() : getUserBids(bidder)),
+  requestAllowance,
+  releaseAllowance,
+  markDirty,
+  sleep: (ms) => new Promise((r) => setTimeout(r, ms)),
+};
+
+function createStrategyState(params: StrategyParams): StrategyState {
+  const {
+    bidder,
     auctionAddress,
+    minFdvUsd,
+    maxFdvUsd,
+    amount,
+    exitProfile,
+    stopLoss,
+    trailingStopPct,
+    exitMaxImpactPct,
+    pricing,
+    ladder,
+    bidWindowBlocks,
+  } = params;
+  return {
+    auctionAddress,
+    bidder,
     status: "waiting",
     amount,
     minFdvUsd,
@@ -105,6 +318,7 @@ export async function runStrategy(params: StrategyParams): Promise<void> {
     currentFdv: minFdvUsd,
     impliedFdv: 0,
     bidsPlaced: 0,
+    bidAttempts: 0,
     maxBidAttempts: 2,
     lastBidFdv: null,
     clearingPrice: null,
@@ -112,77 +326,165 @@ export async function runStrategy(params: StrategyParams): Promise<void> {
     fdvHistory: [],
     exitProfile,
     stopLoss,
+    trailingStopPct,
+    exitMaxImpactPct,
+    pricing,
+    bidWindowBlocks,
+    ladder: ladder?.map((r) => ({
+      ...r,
+      amount: Math.round(amount * r.pct) / 100,
+      status: "pending" as const,
+      targetFdv: null,
+      actualFdv: null,
+      maxPriceQ96: null,
+      txHashes: [],
+      error: null,
+      fill: "pending" as const,
+    })),
     log: [],
   };
-  strategies.set(auctionAddress, state);
+}
+
+function logStart(state: StrategyState, params: StrategyParams): void {
+  const { amount, minFdvUsd, maxFdvUsd, pricing, ladder } = params;
+  addLog(
+    state,
+    `Strategy started: ${amount} USDC, FDV range $${minFdvUsd} - $${maxFdvUsd}, ` +
+      (ladder ? `ladder: ${formatLadder(ladder)}` : `pricing: ${describePricing(pricing)}`) +
+      `, bid window: ${params.bidWindowBlocks ?? DEFAULT_BID_WINDOW_BLOCKS} blocks`,
+    "info"
+  );
+}
+
+export async function runStrategy(params: StrategyParams): Promise<void> {
+  const state = createStrategyState(params);
+  strategies.set(params.auctionAddress, state);
   markDirty();
 
-  addLog(state, `Strategy started: ${amount} USDC, FDV range $${minFdvUsd} - $${maxFdvUsd}`, "info");
+  logStart(state, params);
+  await executeStrategy(state);
+}
 
+/**
+ * Run a strategy start to finish in the given environment without
+ * registering or persisting it. Used by the replay harness.
+ */
+export async function simulateStrategy(params: StrategyParams, env: StrategyEnv): Promise<StrategyState> {
+  const state = createStrategyState(params);
+  logStart(state, params);
   try {
-    // Get auction info
-    const auction = await getAuction(auctionAddress);
-    const startBlock = parseInt(String(auction.startBlock));
-    const endBlock = parseInt(String(auction.endBlock || startBlock + 270));
+    await executeStrategy(state, env);
+  } catch {
+    // Recorded on the state as "failed"
+  }
+  return state;
+}
+
+/** Resume strategies that were waiting, watching or bidding when the server stopped */
+export function resumeStrategies(): void {
+  for (const state of strategies.values()) {
+    if (needsSettlement(state)) {
+      addLog(state, "Resuming settlement check", "info");
+      settleBids(state).catch((err: any) => addLog(state, `Settlement check failed: ${err.message}`, "error"));
+      continue;
+    }
+    if (state.status !== "waiting" && state.status !== "watching" && state.status !== "bidding") continue;
 
-    if (!startBlock) throw new Error("No startBlock");
+    if (!state.bidder) {
+      state.status = "failed";
+      addLog(state, "Cannot resume — no bidder recorded (strategy predates resume support)", "error");
+      markDirty();
+      continue;
+    }
+
+    addLog(
+      state,
+      `Resuming ${state.status} strategy (${state.bidAttempts}/${state.maxBidAttempts} bid attempts used)`,
+      "info"
+    );
+    executeStrategy(state).catch(() => {
+      // Already logged and marked failed by executeStrategy
+    });
+  }
+}
+
+/**
+ * Drive a strategy from whatever phase it is in. Safe to call on restored
+ * state: completed phases are skipped and used bid attempts are not retried.
+ */
+async function executeStrategy(state: StrategyState, env: StrategyEnv = liveEnv): Promise<void> {
+  const { bidder, auctionAddress, minFdvUsd, maxFdvUsd, amount } = state;
+  if (!bidder) throw new Error("Strategy has no bidder");
+
+  try {
+    // Get auction info (once — kept on the state for resume)
+    if (!state.startBlock || !state.endBlock) {
+      const auction = await env.getAuction(auctionAddress);
+      const startBlock = auction.startBlock;
+      if (!startBlock) throw new Error("No startBlock");
+      state.startBlock = startBlock;
+      state.endBlock = auction.endBlock || startBlock + 270;
+      env.markDirty();
+    }
+    const startBlock = state.startBlock;
+    const endBlock = state.endBlock;
+
+    // Approve USDC while waiting so the bid goes out as a single transaction
+    if (state.status === "waiting" || state.status === "watching") {
+      env.requestAllowance(auctionAddress, "strategy", amount, endBlock);
+    }
 
     // ── Phase 1: WAITING — wait for auction start ──
-    let block = await getCurrentBlock();
-    if (block.blockNumber < startBlock) {
+    let block = await env.getCurrentBlock();
+    if (state.status === "waiting" && block.blockNumber < startBlock) {
       addLog(state, `Waiting for start block ${startBlock} (${startBlock - block.blockNumber} blocks)`, "info");
 
-      await new Promise<void>((resolve, reject) => {
-        const interval = setInterval(async () => {
-          if (state.status === "done") {
-            clearInterval(interval);
-            resolve();
-            return;
-          }
-          try {
-            block = await getCurrentBlock();
-            if (block.blockNumber >= startBlock) {
-              clearInterval(interval);
-              resolve();
-            }
-          } catch (err) {
-            // Transient error, keep polling
-          }
-        }, 4000);
-      });
+      for (;;) {
+        await env.sleep(4000);
+        if ((state.status as string) === "done") break; // Cancelled
+        try {
+          block = await env.getCurrentBlock();
+          if (block.blockNumber >= startBlock) break;
+        } catch (err) {
+          // Transient error, keep polling
+        }
+      }
     }
 
     if (state.status === "done") return; // Cancelled while waiting
 
     // ── Phase 2: WATCHING — observe clearing price, do NOT bid ──
-    state.status = "watching";
-    markDirty();
-    addLog(state, "Auction started — watching clearing price (will bid in final ~30s)", "info");
+    if (state.status === "waiting") {
+      state.status = "watching";
+      env.markDirty();
+      addLog(state, "Auction started — watching clearing price (will bid in final ~30s)", "info");
+    }
 
     while (state.status === "watching") {
       try {
         const [currentBlock, bids, auctionInfo] = await Promise.all([
-          getCurrentBlock(),
-          getAuctionBids(auctionAddress),
-          getAuction(auctionAddress),
+          env.getCurrentBlock(),
+          // The bid book has no on-chain fallback — don't let it block the loop
+          env.getAuctionBids(auctionAddress).catch(() => null),
+          env.getAuction(auctionAddress),
         ]);
 
         // Check if auction ended while watching
         if (currentBlock.blockNumber >= endBlock) {
           addLog(state, "Auction ended before bid window", "info");
           state.status = "done";
-          markDirty();
+          env.markDirty();
           break;
         }
 
         const blocksLeft = endBlock - currentBlock.blockNumber;
-        state.totalBids = bids.length;
-        state.clearingPrice = (auctionInfo as any).clearingPrice || null;
+        if (bids) state.totalBids = bids.length;
+        state.clearingPrice = auctionInfo.clearingPrice?.toString() ?? null;
 
-        // Track implied FDV from clearing price
-        const clearingQ96 = parseFloat((auctionInfo as any).clearingPrice || "0");
-        if (clearingQ96 > 0) {
-          state.impliedFdv = Math.round(q96ToFdv(clearingQ96, auctionInfo));
+        // Track implied FDV from clearing price (0 on a chain-only read without token economics)
+        const clearingFdv = auctionInfo.clearingPrice ? Math.round(q96ToFdv(auctionInfo.clearingPrice, auctionInfo)) : 0;
+        if (clearingFdv > 0) {
+          state.impliedFdv = clearingFdv;
           // Track FDV history (last 20 observations)
           state.fdvHistory.push(state.impliedFdv);
           if (state.fdvHistory.length > 20) state.fdvHistory.shift();
@@ -190,85 +492,125 @@ export async function runStrategy(params: StrategyParams): Promise<void> {
 
         addLog(
           state,
-          `Watching: ${blocksLeft} blocks left, ${bids.length} bids, clearing FDV: $${state.impliedFdv || "n/a"}`,
+          `Watching: ${blocksLeft} blocks left, ${state.totalBids} bids, clearing FDV: $${state.impliedFdv || "n/a"}`,
           "info"
         );
 
-        // Transition to bidding when ≤15 blocks (~30s) remain
-        if (blocksLeft <= 15) {
+        // Transition to bidding when ≤15 blocks (~30s) remain, or the strategy's own window
+        if (blocksLeft <= (state.bidWindowBlocks ?? DEFAULT_BID_WINDOW_BLOCKS)) {
           state.status = "bidding";
-          markDirty();
+          env.markDirty();
           addLog(state, `Entering bid window (${blocksLeft} blocks left)`, "info");
           break;
         }
 
         // Wait — just observing, no urgency
         const delay = getPollInterval("watching", blocksLeft);
-        await new Promise((r) => setTimeout(r, delay));
+        await env.sleep(delay);
       } catch (err: any) {
         addLog(state, `Watch error: ${err.message}`, "error");
-        await new Promise((r) => setTimeout(r, 5000));
+        await env.sleep(5000);
       }
     }
 
     if (state.status === "done") return; // Cancelled or auction ended
 
     // ── Phase 3: BIDDING — place single optimized bid ──
-    let bidAttempts = 0;
-
-    while (state.status === "bidding" && bidAttempts < state.maxBidAttempts) {
+    while (state.status === "bidding" && state.bidAttempts < state.maxBidAttempts) {
+      const attemptsBefore = state.bidAttempts;
       try {
-        const [currentBlock, auctionInfo] = await Promise.all([
-          getCurrentBlock(),
-          getAuction(auctionAddress),
+        const [currentBlock, bids, auctionInfo] = await Promise.all([
+          env.getCurrentBlock(),
+          env.getAuctionBids(auctionAddress).catch(() => null),
+          env.getAuction(auctionAddress),
         ]);
 
         // Check if auction ended
         if (currentBlock.blockNumber >= endBlock) {
           addLog(state, "Auction ended", "info");
           state.status = "done";
-          markDirty();
+          env.markDirty();
           break;
         }
 
         const blocksLeft = endBlock - currentBlock.blockNumber;
 
-        // Refresh clearing price
-        const clearingQ96 = parseFloat((auctionInfo as any).clearingPrice || "0");
-        if (clearingQ96 > 0) {
-          state.impliedFdv = Math.round(q96ToFdv(clearingQ96, auctionInfo));
-        }
+        // Refresh clearing price, verified against the contract
+        const clearingPrice = await verifiedClearingPrice(state, auctionInfo, env);
+        // FDV is 0 when a chain-only read lacks the token economics; keep the last known value
+        const clearingFdv = clearingPrice ? Math.round(q96ToFdv(clearingPrice, auctionInfo)) : 0;
+        if (clearingPrice) state.clearingPrice = clearingPrice.toString();
+        if (clearingFdv > 0) state.impliedFdv = clearingFdv;
+
+        if (bids) state.totalBids = bids.length;
+
+        if (state.ladder) {
+          addLog(
+            state,
+            `Ladder attempt ${state.bidAttempts + 1}/${state.maxBidAttempts} (clearing: $${state.impliedFdv || "n/a"}, ${blocksLeft} blocks left)`,
+            "info"
+          );
+          state.bidAttempts++;
+          env.markDirty();
+
+          const complete = await placeLadder(state, state.ladder, bidder, bidUrgency(blocksLeft), env);
+          if (complete) {
+            state.status = "done";
+            env.markDirty();
+            addLog(state, `Strategy complete — all ${state.ladder.length} rungs placed`, "info");
+            break;
+          }
+          if ((state.status as string) === "done") break; // AuctionEnded (set by placeLadder)
 
-        // Calculate target FDV
-        let targetFdv: number;
-        if (state.impliedFdv > 0) {
-          // Bid 15% above clearing, capped at max
-          targetFdv = Math.min(Math.ceil(state.impliedFdv * 1.15), maxFdvUsd);
-        } else {
-          // No clearing data — bid at floor + 5% buffer
-          targetFdv = Math.ceil(minFdvUsd * 1.05);
+          if (state.bidAttempts < state.maxBidAttempts) {
+            addLog(state, `Retrying unplaced rungs in 2s...`, "info");
+            await env.sleep(2000);
+          }
+          continue;
         }
+
+        // Calculate target FDV with the strategy's pricing policy
+        const quote = priceBid(state.pricing, {
+          impliedFdv: state.impliedFdv,
+          fdvHistory: state.fdvHistory,
+          totalBids: state.totalBids,
+          blocksLeft,
+          minFdvUsd,
+          maxFdvUsd,
+          bidBook: bids ? toBookBids(bids, auctionInfo) : [],
+          supplyShare: supplyShare(auctionInfo),
+        });
+        const targetFdv = quote.targetFdv;
         state.currentFdv = targetFdv;
+        state.predictedFdv = quote.predictedFdv || undefined;
 
         addLog(
           state,
-          `Bidding attempt ${bidAttempts + 1}/${state.maxBidAttempts}: ${amount} USDC @ $${targetFdv} FDV (clearing: $${state.impliedFdv || "n/a"}, ${blocksLeft} blocks left)`,
+          `Bidding attempt ${state.bidAttempts + 1}/${state.maxBidAttempts}: ${amount} USDC @ $${targetFdv} FDV (clearing: $${state.impliedFdv || "n/a"}, ${quote.reason}, ${blocksLeft} blocks left)`,
           "info"
         );
 
-        const ok = await placeBid(state, {
-          bidder,
-          auctionAddress,
-          maxFdvUsd: targetFdv,
-          amount,
-        });
+        // Count the attempt before submitting so a restart mid-bid can't exceed the budget
+        state.bidAttempts++;
+        env.markDirty();
 
-        bidAttempts++;
+        const ok = await placeBid(
+          state,
+          {
+            bidder,
+            auctionAddress,
+            maxFdvUsd: targetFdv,
+            capFdvUsd: maxFdvUsd,
+            amount,
+          },
+          bidUrgency(blocksLeft),
+          env
+        );
 
         if (ok) {
           // Bid placed successfully — we're done
           state.status = "done";
-          markDirty();
+          env.markDirty();
           addLog(state, "Strategy complete — bid placed", "info");
           break;
         }
@@ -276,15 +618,20 @@ export async function runStrategy(params: StrategyParams): Promise<void> {
         if ((state.status as string) === "done") break; // AuctionEnded (set by placeBid)
 
         // Bid failed (e.g. below clearing) — retry with bumped FDV if we have attempts left
-        if (bidAttempts < state.maxBidAttempts) {
+        if (state.bidAttempts < state.maxBidAttempts) {
           addLog(state, `Retrying in 2s...`, "info");
-          await new Promise((r) => setTimeout(r, 2000));
+          await env.sleep(2000);
         }
       } catch (err: any) {
-        addLog(state, `Bid error: ${err.message}`, "error");
-        bidAttempts++;
-        if (bidAttempts < state.maxBidAttempts) {
-          await new Promise((r) => setTimeout(r, 2000));
+        // Errors before submit (reads, clearing-price cross-check, quote) use up an attempt too,
+        // so a persistent failure ends the strategy instead of retrying forever
+        if (state.bidAttempts === attemptsBefore) {
+          state.bidAttempts++;
+          env.markDirty();
+        }
+        addLog(state, `Bid error (attempt ${state.bidAttempts}/${state.maxBidAttempts}): ${err.message}`, "error");
+        if (state.bidAttempts < state.maxBidAttempts) {
+          await env.sleep(2000);
         }
       }
     }
@@ -292,27 +639,67 @@ export async function runStrategy(params: StrategyParams): Promise<void> {
     // If we exhausted attempts without a successful bid
     if (state.status === "bidding") {
       state.status = "done";
-      markDirty();
-      addLog(state, `Strategy ended — ${bidAttempts} bid attempts exhausted`, "error");
+      env.markDirty();
+      addLog(state, `Strategy ended — ${state.bidAttempts} bid attempts exhausted`, "error");
+    }
+
+    if (state.ladder) {
+      for (const rung of state.ladder) {
+        if (rung.status === "pending") rung.status = "failed";
+      }
+      env.markDirty();
     }
+    if (needsSettlement(state)) await settleBids(state, env);
   } catch (err: any) {
     state.status = "failed";
     addLog(state, `Strategy failed: ${err.message}`, "error");
-    markDirty();
+    env.markDirty();
     throw err;
+  } finally {
+    env.releaseAllowance(auctionAddress, "strategy");
   }
 }
 
+/**
+ * Clearing price to bid against: the higher of the API's and the contract's,
+ * since the contract rejects bids at or below its own. Discrepancies are logged.
+ */
+async function verifiedClearingPrice(
+  state: StrategyState,
+  auctionInfo: AuctionInfo,
+  env: StrategyEnv
+): Promise<bigint | null> {
+  try {
+    const check = await env.crossCheckAuction(state.auctionAddress, auctionInfo);
+    if (check.discrepancies.length > 0) {
+      addLog(state, `API/chain mismatch — ${check.discrepancies.join("; ")}`, "error");
+    }
+    return check.clearingPrice;
+  } catch (err: any) {
+    // RPC trouble shouldn't stop a bid the API can still price
+    console.error(`[strategy:${state.auctionAddress.slice(0, 8)}] Cross-check failed: ${err.message}`);
+    return auctionInfo.clearingPrice;
+  }
+}
+
+/** Tip harder as the auction closes — a bid that misses the end block is wasted */
+function bidUrgency(blocksLeft: number): Urgency {
+  return blocksLeft <= 5 ? "critical" : "high";
+}
+
 async function placeBid(
   state: StrategyState,
-  params: BuildBidTxParams
+  params: BuildBidTxParams,
+  urgency: Urgency,
+  env: StrategyEnv
 ): Promise<boolean> {
   try {
     addLog(state, `Bidding ${params.amount} USDC @ $${params.maxFdvUsd} FDV`, "bid");
-    const result = await submitBid(params);
+    const result = await env.submitBid(params, { urgency });
     state.bidsPlaced++;
     state.lastBidFdv = result.actualFdv;
-    // Update currentFdv if bid.ts bumped it due to Q96 alignment
+    state.lastBidPriceQ96 = result.maxPriceQ96;
+    // Update currentFdv if tick alignment moved the bid up
     if (result.actualFdv > state.currentFdv) {
       state.currentFdv = result.actualFdv;
     }
@@ -320,15 +707,15 @@ async function placeBid(
     return true;
   } catch (err: any) {
     const msg = err.message || String(err);
-    if (msg.includes("BidMustBeAboveClearingPrice")) {
+    if (err instanceof BidBelowClearingPriceError) {
       // Bump FDV 20% for retry
       const bumpedFdv = Math.min(Math.ceil(state.currentFdv * 1.20), state.maxFdvUsd);
       addLog(state, `Bid below clearing price (FDV $${state.currentFdv}) — bumping to $${bumpedFdv} for retry`, "error");
       state.currentFdv = bumpedFdv;
-    } else if (msg.includes("AuctionEnded")) {
+    } else if (err instanceof AuctionEndedError) {
       addLog(state, `Auction ended`, "error");
       state.status = "done";
-      markDirty();
+      env.markDirty();
     } else {
       addLog(state, `Bid failed: ${msg.slice(0, 200)}`, "error");
     }
@@ -336,31 +723,251 @@ async function placeBid(
   }
 }
 
+// ─── Ladder mode ───
+
+/**
+ * Place every pending rung at its multiple of the current clearing FDV.
+ * Returns true once all rungs are placed; failed rungs stay pending for the next attempt.
+ */
+async function placeLadder(
+  state: StrategyState,
+  rungs: LadderRungState[],
+  bidder: string,
+  urgency: Urgency,
+  env: StrategyEnv
+): Promise<boolean> {
+  // No clearing data yet — price rungs off the floor
+  const base = state.impliedFdv > 0 ? state.impliedFdv : state.minFdvUsd;
+
+  for (const [i, rung] of rungs.entries()) {
+    if (rung.status !== "pending") continue;
+
+    const targetFdv =
+      rung.multiple === "max" ? state.maxFdvUsd : Math.min(Math.ceil(base * rung.multiple), state.maxFdvUsd);
+    rung.targetFdv = targetFdv;
+    state.currentFdv = targetFdv;
+    const label = `Rung ${i + 1}/${rungs.length}`;
+
+    try {
+      addLog(state, `${label}: bidding ${rung.amount} USDC @ $${targetFdv} FDV`, "bid");
+      const result = await env.submitBid(
+        {
+          bidder,
+          auctionAddress: state.auctionAddress,
+          maxFdvUsd: targetFdv,
+          capFdvUsd: state.maxFdvUsd,
+          amount: rung.amount,
+        },
+        { urgency }
+      );
+      rung.status = "placed";
+      rung.actualFdv = result.actualFdv;
+      rung.maxPriceQ96 = result.maxPriceQ96;
+      rung.txHashes = result.txHashes;
+      rung.error = null;
+      state.bidsPlaced++;
+      state.lastBidFdv = result.actualFdv;
+      addLog(state, `${label} confirmed @ $${result.actualFdv} FDV`, "bid");
+    } catch (err: any) {
+      const msg = err.message || String(err);
+      rung.error = msg.slice(0, 200);
+      if (err instanceof AuctionEndedError) {
+        addLog(state, `Auction ended`, "error");
+        state.status = "done";
+        env.markDirty();
+        return false;
+      }
+      if (err instanceof BidBelowClearingPriceError) {
+        addLog(state, `${label} below clearing price (FDV $${targetFdv}) — will retry at fresh clearing`, "error");
+      } else {
+        addLog(state, `${label} failed: ${rung.error}`, "error");
+      }
+    }
+    env.markDirty();
+  }
+
+  return rungs.every((r) => r.status === "placed");
+}
+
+// ─── Settlement ───
+
+function needsSettlement(state: StrategyState): boolean {
+  return (
+    state.status === "done" &&
+    !!state.bidder &&
+    !!state.endBlock &&
+    !state.settlement &&
+    state.bidsPlaced > 0
+  );
+}
+
+/** Wait for the auction to end, then read back how our bids filled */
+async function settleBids(state: StrategyState, env: StrategyEnv = liveEnv): Promise<void> {
+  const endBlock = state.endBlock!;
+  for (;;) {
+    try {
+      const block = await env.getCurrentBlock();
+      if (block.blockNumber >= endBlock) break;
+    } catch {
+      // Transient error, keep polling
+    }
+    await env.sleep(10_000);
+  }
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    try {
+      const [auctionInfo, userBids] = await Promise.all([
+        env.getAuction(state.auctionAddress),
+        env.getUserBids(state.bidder!),
+      ]);
+      // The book is only needed to split fills at the clearing tick
+      const book = await env.getAuctionBids(state.auctionAddress).catch(() => null);
+      const settlement = computeSettlement(state, auctionInfo, userBids, book);
+      state.settlement = settlement;
+      env.markDirty();
+      addLog(state, describeSettlement(settlement), "info");
+      if (state.ladder) {
+        const placed = state.ladder.filter((r) => r.status === "placed");
+        const filled = placed.filter((r) => r.fill === "filled" || r.fill === "partial").length;
+        addLog(state, `Ladder fills: ${filled}/${placed.length} placed rungs filled`, "info");
+      }
+      return;
+    } catch (err: any) {
+      addLog(state, `Settlement check error: ${err.message}`, "error");
+      await env.sleep(10_000);
+    }
+  }
+}
+
 /**
- * Convert a Q96 price to implied FDV in USD.
- *
- * The Q96 clearing/floor prices are linearly proportional to token price.
- * We derive the conversion factor from the floor price and the minimum raise:
- *   floor_FDV = (requiredCurrencyRaised / auctionAmount) * totalSupply
- *   implied_FDV = clearingPrice * (floor_FDV / floorPrice)
+ * Bids above the final clearing price fill in full and bids below it are
+ * refunded. Bids at the clearing tick share what supply is left after the
+ * bids above, pro rata. Every filled bid pays the clearing price.
  */
-function q96ToFdv(q96Price: number, auctionInfo: any): number {
-  const floorPrice = parseFloat(auctionInfo.floorPrice || "0");
-  if (floorPrice <= 0) return 0;
+function computeSettlement(
+  state: StrategyState,
+  auctionInfo: AuctionInfo,
+  userBids: UserBid[],
+  book: AuctionBid[] | null
+): BidSettlement {
+  const clearing = auctionInfo.clearingPrice ?? auctionInfo.floorPrice;
+  const clearingFdv = q96ToFdv(clearing, auctionInfo);
+  const supply = Number(auctionInfo.totalSupply) / 10 ** auctionInfo.tokenDecimals;
+  const tokenPrice = supply > 0 ? clearingFdv / supply : 0;
+  const tickShare = clearingTickShare(auctionInfo, clearing, tokenPrice, book);
+
+  const ours = findOurBids(state, userBids);
+  let amountBid = 0;
+  let filledAmount = 0;
+  let knownAmount = 0;
+  for (const bid of ours) {
+    const amount = Number(bid.amountBid) / 1e6;
+    const fill = bidFill(bid, clearing, tickShare);
+    amountBid += amount;
+    if (fill !== "unknown") knownAmount += amount;
+    if (fill === "filled") filledAmount += amount;
+    if (fill === "partial") filledAmount += amount * tickShare!;
+
+    for (const rung of state.ladder ?? []) {
+      if (rung.status === "placed" && rung.maxPriceQ96 === bid.maxPrice?.toString()) rung.fill = fill;
+    }
+  }
+  for (const rung of state.ladder ?? []) {
+    if (rung.status === "placed" && rung.fill === "pending") rung.fill = "unknown";
+  }
 
-  const requiredRaised = parseFloat(auctionInfo.requiredCurrencyRaised || "0");
-  const auctionAmount = parseFloat(auctionInfo.auctionAmount || "0");
-  const totalSupply = parseFloat(auctionInfo.totalSupply || "0");
-  const tokenDecimals = parseInt(auctionInfo.tokenDecimals || "18");
-  const currencyDecimals = 6; // USDC
+  const tokensAllocated = tokenPrice > 0 ? filledAmount / tokenPrice : 0;
+  let status: BidSettlement["status"] = "unknown";
+  if (knownAmount > 0) {
+    if (filledAmount === 0) status = "outbid";
+    else status = filledAmount < knownAmount ? "partial" : "filled";
+  }
 
-  if (auctionAmount <= 0 || totalSupply <= 0 || requiredRaised <= 0) return 0;
+  return {
+    status,
+    checkedAt: Date.now(),
+    bids: ours.length,
+    amountBid,
+    filledAmount: roundUsdc(filledAmount),
+    refundUsdc: roundUsdc(knownAmount - filledAmount),
+    tokensAllocated,
+    clearingFdv: Math.round(clearingFdv),
+    entryFdv: tokensAllocated > 0 ? Math.round((filledAmount / tokensAllocated) * supply) : null,
+  };
+}
 
-  // Convert to human-readable units
-  const requiredRaisedHuman = requiredRaised / 10 ** currencyDecimals;
-  const auctionAmountHuman = auctionAmount / 10 ** tokenDecimals;
-  const totalSupplyHuman = totalSupply / 10 ** tokenDecimals;
+/** Our bids on this auction, matched by the prices we bid at when we know them */
+function findOurBids(state: StrategyState, userBids: UserBid[]): UserBid[] {
+  const auction = state.auctionAddress.toLowerCase();
+  const onAuction = userBids.filter((b) => b.auction.toLowerCase() === auction);
+  const prices = new Set<string>();
+  for (const rung of state.ladder ?? []) {
+    if (rung.status === "placed" && rung.maxPriceQ96) prices.add(rung.maxPriceQ96);
+  }
+  if (state.lastBidPriceQ96) prices.add(state.lastBidPriceQ96);
+  // Strategies from before prices were recorded: take every bid on the auction
+  if (prices.size === 0) return onAuction;
+  return onAuction.filter((b) => b.maxPrice !== null && prices.has(b.maxPrice.toString()));
+}
+
+function bidFill(bid: UserBid, clearing: bigint, tickShare: number | null): LadderRungState["fill"] {
+  if (bid.maxPrice === null) return bid.isFilled ? "filled" : "unknown";
+  if (bid.maxPrice > clearing) return "filled";
+  if (bid.maxPrice < clearing) return "unfilled";
+  if (tickShare === null) return "unknown";
+  return tickShare >= 1 ? "filled" : tickShare > 0 ? "partial" : "unfilled";
+}
+
+/** Share of each clearing-tick bid that fills; null when the book is unavailable */
+function clearingTickShare(
+  auctionInfo: AuctionInfo,
+  clearing: bigint,
+  tokenPrice: number,
+  book: AuctionBid[] | null
+): number | null {
+  if (!book || tokenPrice <= 0) return null;
+  let above = 0;
+  let atTick = 0;
+  for (const b of book) {
+    const usd = Number(b.amountBid) / 1e6;
+    if (b.maxPrice > clearing) above += usd;
+    else if (b.maxPrice === clearing) atTick += usd;
+  }
+  if (atTick === 0) return null;
+  const sold = Number(auctionInfo.auctionAmount) / 10 ** auctionInfo.tokenDecimals;
+  const leftForTick = sold - above / tokenPrice;
+  return Math.min(1, Math.max(0, leftForTick / (atTick / tokenPrice)));
+}
+
+/** Round to USDC's 6 decimals */
+function roundUsdc(n: number): number {
+  return Math.round(n * 1e6) / 1e6;
+}
+
+function describeSettlement(s: BidSettlement): string {
+  const fdv = `$${s.clearingFdv.toLocaleString()} FDV`;
+  switch (s.status) {
+    case "filled":
+      return `Settled: filled ${s.filledAmount} USDC → ${Math.round(s.tokensAllocated).toLocaleString()} tokens @ ${fdv}`;
+    case "partial":
+      return `Settled: partial fill ${s.filledAmount.toFixed(2)}/${s.amountBid} USDC → ${Math.round(s.tokensAllocated).toLocaleString()} tokens @ ${fdv}, ${s.refundUsdc.toFixed(2)} USDC refunded`;
+    case "outbid":
+      return `Settled: outbid at ${fdv} — ${s.refundUsdc} USDC refunded`;
+    default:
+      return s.bids === 0 ? "Settled: none of our bids found on the auction" : `Settled: fill unknown for ${s.bids} bids at ${fdv}`;
+  }
+}
+
+/** Convert the raw bid book into USD amounts and FDVs for the pricing policy */
+function toBookBids(bids: AuctionBid[], auctionInfo: AuctionInfo): BookBid[] {
+  return bids.map((b) => ({
+    fdv: q96ToFdv(b.maxPrice, auctionInfo),
+    amountUsd: Number(b.amountBid) / 1e6,
+  }));
+}
 
-  const floorFdv = (requiredRaisedHuman / auctionAmountHuman) * totalSupplyHuman;
-  return q96Price * (floorFdv / floorPrice);
+/** Fraction of total supply sold in the auction (both amounts share the token's decimals) */
+function supplyShare(auctionInfo: AuctionFields): number {
+  const { auctionAmount, totalSupply } = auctionInfo;
+  return totalSupply > 0n ? Number(auctionAmount) / Number(totalSupply) : 0;
 }
@@ -1,4 +1,4 @@
-import { type Hash, type Address, erc20Abi, maxUint256 } from "viem";
+import { type Hash, type Address, encodeFunctionData, erc20Abi, maxUint256 } from "viem";
 import {
   createConfig,
   getQuote,
@@ -8,7 +8,10 @@ import {
   kyberswap,
   lifi,
 } from "@spandex/core";
-import { getPublicClient, getWalletClient, getAccount, USDC_BASE } from "./config.js";
+import { getPublicClient, getAccount, isPaperMode, USDC_BASE } from "./config.js";
+import { gasCostEth, sendAndConfirm, sendTx, waitForTx } from "./tx-manager.js";
+import { decodeRevert } from "./reverts.js";
+import { recordPaperSwap } from "./paper.js";
 import { baseScanTxUrl } from "./utils.js";
 
 const BASE_CHAIN_ID = 8453;
@@ -42,7 +45,6 @@ async function ensureApproval(
   amount: bigint
 ): Promise<void> {
   const publicClient = getPublicClient();
-  const walletClient = getWalletClient();
   const account = getAccount();
 
   const allowance = await publicClient.readContract({
@@ -55,18 +57,12 @@ async function ensureApproval(
   if (allowance >= amount) { _lastApprovalGasEth = 0; return; }
 
   console.log(`  Approving ${spender.slice(0, 10)}... (max uint256)`);
-  const hash = await walletClient.writeContract({
-    address: token,
-    abi: erc20Abi,
-    functionName: "approve",
-    args: [spender, maxUint256],
-    account,
-    chain: walletClient.chain,
+  const receipt = await sendAndConfirm({
+    to: token,
+    data: encodeFunctionData({ abi: erc20Abi, functionName: "approve", args: [spender, maxUint256] }),
+    label: "approve for swap",
   });
-
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
-  if (receipt.status === "reverted") throw new Error(`Approve reverted: ${hash}`);
-  _lastApprovalGasEth = Number(receipt.gasUsed * (receipt.effectiveGasPrice ?? 0n)) / 1e18;
+  _lastApprovalGasEth = gasCostEth(receipt);
   console.log(`  Approved in block ${receipt.blockNumber} (gas: ${_lastApprovalGasEth.toFixed(6)} ETH)`);
 
   // Poll until RPC reflects the new allowance (up to 15s)
@@ -101,7 +97,6 @@ export async function swapExactInputSingle(
 ): Promise<{ hash: Hash; amountOut: bigint; gasCostEth: number }> {
   const config = getSpandexConfig();
   const publicClient = getPublicClient();
-  const walletClient = getWalletClient();
   const account = getAccount();
 
   const swap = {
@@ -145,6 +140,12 @@ export async function swapExactInputSingle(
     console.log(`  Best (raw): ${bestQuote.provider} → ${Number(outputAmount) / 1e6} USDC`);
   }
 
+  if (isPaperMode()) {
+    // Fill at the best quote against the virtual ledger; no approval or swap is sent
+    const trade = recordPaperSwap(tokenIn, tokenOut, amountIn, outputAmount);
+    return { hash: trade.hash as Hash, amountOut: outputAmount, gasCostEth: 0 };
+  }
+
   // Approve the router/aggregator to spend our tokens
   const approvalTarget = bestQuote.approval?.spender || bestQuote.approvalAddress || bestQuote.txData?.to;
   if (approvalTarget) {
@@ -153,7 +154,6 @@ export async function swapExactInputSingle(
 
   // Estimate gas explicitly to avoid viem over-estimation
   // Retry up to 3 times on failure (handles post-approval RPC sync delay)
-  const nonce = await publicClient.getTransactionCount({ address: account.address });
   let gasEstimate: bigint | null = null;
   for (let attempt = 0; attempt < 3; attempt++) {
     try {
@@ -165,31 +165,31 @@ export async function swapExactInputSingle(
       });
       break;
     } catch (e: any) {
-      if (attempt === 2) throw e;
+      const revert = decodeRevert(e, `swap via ${bestQuote.provider}`);
+      if (attempt === 2) throw revert ?? e;
       const wait = (attempt + 1) * 3;
-      console.log(`  Gas estimation failed (attempt ${attempt + 1}/3), retrying in ${wait}s... (${e.message?.slice(0, 60)})`);
+      console.log(`  Gas estimation failed (attempt ${attempt + 1}/3), retrying in ${wait}s... (${(revert ?? e).message?.slice(0, 60)})`);
       await new Promise((r) => setTimeout(r, wait * 1000));
     }
   }
 
-  const hash = await walletClient.sendTransaction({
+  const sent = await sendTx({
     to: bestQuote.txData.to as Address,
     data: bestQuote.txData.data as `0x${string}`,
     value: bestQuote.txData.value ? BigInt(bestQuote.txData.value) : 0n,
     gas: gasEstimate! + gasEstimate! / 5n, // 20% buffer
-    nonce,
-    account,
-    chain: walletClient.chain,
+    urgency: "high", // Aggregator quotes go stale in seconds
+    label: "swap",
   });
+  const hash = sent.hash;
 
   console.log(`  Swap TX: ${hash}`);
   console.log(`  ${baseScanTxUrl(hash)}`);
 
-  const receipt = await publicClient.waitForTransactionReceipt({ hash });
-  if (receipt.status === "reverted") throw new Error(`Swap reverted: ${hash}`);
+  const receipt = await waitForTx(sent);
 
   // Calculate gas cost (swap + any approval)
-  const swapGasEth = Number(receipt.gasUsed * (receipt.effectiveGasPrice ?? 0n)) / 1e18;
+  const swapGasEth = gasCostEth(receipt);
   const totalGasEth = swapGasEth + _lastApprovalGasEth;
   _lastApprovalGasEth = 0;
   console.log(`  Swap confirmed in block ${receipt.blockNumber} (gas: ${totalGasEth.toFixed(6)} ETH)`);
@@ -211,7 +211,8 @@ export async function swapExactInputSingle(
     console.log(`  Actual received: ${actualOut} (quoted: ${outputAmount})`);
   }
 
-  return { hash, amountOut: actualOut, gasCostEth: totalGasEth };
+  // A replacement may have mined instead of the original hash
+  return { hash: receipt.transactionHash, amountOut: actualOut, gasCostEth: totalGasEth };
 }
 
 /**
@@ -223,41 +224,64 @@ export async function getTokenPrice(
   tokenDecimals: number = 18,
   _fee: number = 3000
 ): Promise<number> {
-  const config = getSpandexConfig();
-  const account = getAccount();
   const oneToken = 10n ** BigInt(tokenDecimals);
+  const quotes = await sellQuotes(token, oneToken);
+
+  // Try USD pricing metadata first
+  const pricing = getPricing(quotes);
+  if (pricing.inputToken?.usdPrice) {
+    return pricing.inputToken.usdPrice;
+  }
+
+  // Fallback: best raw quote output
+  return Number(bestOutput(quotes)) / 1e6;
+}
+
+/**
+ * USDC received for selling `amountIn` of a token at the best aggregator
+ * quote, and the price impact against the one-token price from getTokenPrice.
+ */
+export async function quoteSell(
+  token: Address,
+  amountIn: bigint,
+  tokenDecimals: number = 18,
+  spotPrice?: number
+): Promise<{ usdcOut: number; impactPct: number }> {
+  const [quotes, price] = await Promise.all([
+    sellQuotes(token, amountIn),
+    spotPrice !== undefined ? Promise.resolve(spotPrice) : getTokenPrice(token, tokenDecimals),
+  ]);
+  const usdcOut = Number(bestOutput(quotes)) / 1e6;
+  const atSpot = (Number(amountIn) / 10 ** tokenDecimals) * price;
+  const impactPct = atSpot > 0 ? Math.max(0, (1 - usdcOut / atSpot) * 100) : 0;
+  return { usdcOut, impactPct };
+}
 
+async function sellQuotes(token: Address, amountIn: bigint) {
   const swap = {
     chainId: BASE_CHAIN_ID,
     inputToken: token,
     outputToken: USDC_BASE,
     mode: "exactIn" as const,
-    inputAmount: oneToken,
+    inputAmount: amountIn,
     slippageBps: 100,
-    swapperAccount: account.address,
+    swapperAccount: getAccount().address,
   };
 
-  const quotes = await getRawQuotes({ config, swap });
-  const successful = quotes.filter((q) => q.success);
-
-  if (successful.length === 0) {
+  const quotes = await getRawQuotes({ config: getSpandexConfig(), swap });
+  if (!quotes.some((q) => q.success)) {
     throw new Error(`No price quotes available for token ${token}`);
   }
+  return quotes;
+}
 
-  // Try USD pricing metadata first
-  const pricing = getPricing(quotes);
-  if (pricing.inputToken?.usdPrice) {
-    return pricing.inputToken.usdPrice;
-  }
-
-  // Fallback: best raw quote output
-  const best = successful.reduce((a: any, b: any) => {
-    const aOut = BigInt(a.outputAmount || "0");
-    const bOut = BigInt(b.outputAmount || "0");
-    return bOut > aOut ? b : a;
-  });
-
-  return Number(BigInt((best as any).outputAmount || "0")) / 1e6;
+function bestOutput(quotes: Awaited<ReturnType<typeof sellQuotes>>): bigint {
+  return quotes
+    .filter((q) => q.success)
+    .reduce((best, q: any) => {
+      const out = BigInt(q.outputAmount || "0");
+      return out > best ? out : best;
+    }, 0n);
 }
 
 /**
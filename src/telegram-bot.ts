@@ -1,4 +1,6 @@
 import { Bot } from "grammy";
+import { isPaperMode } from "./config.js";
+import { PAPER_LABEL } from "./notify.js";
 
 const API_BASE = `http://127.0.0.1:${process.env.PORT || 3000}`;
 
@@ -14,6 +16,11 @@ async function api(path: string, method = "GET", body?: unknown): Promise<any> {
   return res.json();
 }
 
+/** Every reply in paper mode says so up front */
+function labelled(text: string): string {
+  return isPaperMode() ? `${PAPER_LABEL}\n\n${text}` : text;
+}
+
 function fmtNum(n: number): string {
   if (n >= 1_000_000) return (n / 1_000_000).toFixed(2) + "M";
   if (n >= 1_000) return (n / 1_000).toFixed(1) + "K";
@@ -27,6 +34,29 @@ function fmtUsd(n: number): string {
   return "$" + n.toFixed(2);
 }
 
+function fmtStopLoss(multiple?: number, trailingPct?: number): string {
+  return [multiple != null ? `${multiple}x` : "", trailingPct != null ? `trailing ${trailingPct}%` : ""]
+    .filter(Boolean)
+    .join(" / ");
+}
+
+function fmtTranche(t: any): string {
+  let text: string;
+  if (t.trigger === "time") {
+    const ms = t.afterMs;
+    text = ms % 86_400_000 === 0 ? `${ms / 86_400_000}d` : ms % 3_600_000 === 0 ? `${ms / 3_600_000}h` : `${Math.round(ms / 60_000)}m`;
+  } else if (t.trigger === "liquidity") {
+    text = `${fmtUsd(t.minLiquidityUsd)} liquidity`;
+  } else {
+    text = t.trailingPct != null ? `${t.targetMultiple}x~${t.trailingPct}%` : `${t.targetMultiple}x`;
+  }
+  if (t.status === "pending" && t.armedAt) text += ` (armed, peak ${t.peakMultiple.toFixed(2)}x)`;
+  if (t.status === "pending" && t.targetRaw) {
+    text += ` (selling, ${Number((BigInt(t.soldRaw ?? "0") * 100n) / BigInt(t.targetRaw))}% in ${t.fills?.length ?? 0} chunks)`;
+  }
+  return text;
+}
+
 function fmtTime(seconds: number): string {
   if (seconds <= 0) return "now";
   const h = Math.floor(seconds / 3600);
@@ -74,6 +104,29 @@ async function resolveAuction(input: string): Promise<string | null> {
   return match ? match.auction : null;
 }
 
+/** Exit strategies are keyed by token: an auction resolves to the token it sold, any other address is a token we hold */
+async function resolveExitTarget(input: string): Promise<{ auctionAddress?: string; tokenAddress?: string } | null> {
+  if (!input) return null;
+  const lower = input.toLowerCase();
+  const exits = await api("/api/exit-strategies");
+  const running = Array.isArray(exits) ? exits.find((e: any) => e.tokenSymbol?.toLowerCase() === lower) : undefined;
+  if (running) return { tokenAddress: running.tokenAddress };
+  if (input.startsWith("0x") && input.length > 10) {
+    if (launchesCache.length === 0) {
+      launchesCache = await api("/api/launches");
+    }
+    const launch = launchesCache.find((l: any) => l.auction.toLowerCase() === lower || l.token?.toLowerCase() === lower);
+    return launch ? { auctionAddress: launch.auction } : { tokenAddress: input };
+  }
+  const auction = await resolveAuction(input);
+  return auction ? { auctionAddress: auction } : null;
+}
+
+function exitName(e: any): string {
+  const match = e.auctionAddress && launchesCache.find((l: any) => l.auction === e.auctionAddress);
+  return match ? match.tokenSymbol : e.tokenSymbol || shortAddr(e.tokenAddress);
+}
+
 export function startTelegramBot(): void {
   const token = process.env.TELEGRAM_BOT_TOKEN;
   if (!token) {
@@ -91,37 +144,40 @@ export function startTelegramBot(): void {
     { command: "strategies", description: "Show active strategies" },
     { command: "exits", description: "Show exit strategies" },
     { command: "trades", description: "Show trading strategies" },
+    { command: "allowances", description: "Show USDC pre-approvals" },
+    { command: "claims", description: "Show claims and refunds" },
+    { command: "ledger", description: "Show refunds from failed auctions" },
     { command: "help", description: "Show all commands" },
   ]).catch((err) => console.error("[telegram] setMyCommands failed:", err.message));
 
   bot.command("start", (ctx) =>
     ctx.reply(
-      "Flow Terminal Bot\n\nSend commands like you would in the terminal, or use the / menu."
+      labelled("Flow Terminal Bot\n\nSend commands like you would in the terminal, or use the / menu.")
     )
   );
 
   // Handle slash commands — strip the / and route to handleCommand
-  for (const cmd of ["auctions", "wallet", "status", "strategies", "exits", "trades", "help"]) {
+  for (const cmd of ["auctions", "wallet", "status", "strategies", "exits", "trades", "allowances", "claims", "ledger", "paper", "help"]) {
     bot.command(cmd, async (ctx) => {
       try {
         const args = ctx.match ? `${cmd} ${ctx.match}` : cmd;
         const reply = await handleCommand(args);
-        await ctx.reply(reply, { parse_mode: "Markdown" });
+        await ctx.reply(labelled(reply), { parse_mode: "Markdown" });
       } catch (err: any) {
-        await ctx.reply(`Error: ${err.message}`);
+        await ctx.reply(labelled(`Error: ${err.message}`));
       }
     });
   }
 
   // Commands that take arguments
-  for (const cmd of ["watch", "unwatch", "info", "arm", "disarm", "bid", "strategy", "cancel", "exit", "exit-cancel", "launch", "claim", "claim-all", "trade", "trade-cancel", "trade-remove", "trade-pause", "trade-resume", "liquidate"]) {
+  for (const cmd of ["watch", "unwatch", "info", "arm", "disarm", "bid", "strategy", "cancel", "exit", "exit-edit", "exit-cancel", "launch", "claim", "claim-all", "trade", "trade-cancel", "trade-remove", "trade-pause", "trade-resume", "trade-exit", "liquidate"]) {
     bot.command(cmd.replace("-", "_"), async (ctx) => {
       try {
         const args = ctx.match ? `${cmd} ${ctx.match}` : cmd;
         const reply = await handleCommand(args);
-        await ctx.reply(reply, { parse_mode: "Markdown" });
+        await ctx.reply(labelled(reply), { parse_mode: "Markdown" });
       } catch (err: any) {
-        await ctx.reply(`Error: ${err.message}`);
+        await ctx.reply(labelled(`Error: ${err.message}`));
       }
     });
   }
@@ -133,9 +189,9 @@ export function startTelegramBot(): void {
 
     try {
       const reply = await handleCommand(raw);
-      await ctx.reply(reply, { parse_mode: "Markdown" });
+      await ctx.reply(labelled(reply), { parse_mode: "Markdown" });
     } catch (err: any) {
-      await ctx.reply(`Error: ${err.message}`);
+      await ctx.reply(labelled(`Error: ${err.message}`));
     }
   });
 
@@ -168,6 +224,15 @@ export function startTelegramBot(): void {
   console.log("[telegram] Bot started");
 }
 
+/** Remove `--flag <value>` from args and return the value (undefined when absent, "" when the value is missing) */
+function takeFlag(args: string[], flag: string): string | undefined {
+  const i = args.indexOf(flag);
+  if (i === -1) return undefined;
+  const value = args[i + 1] ?? "";
+  args.splice(i, 2);
+  return value;
+}
+
 async function handleCommand(raw: string): Promise<string> {
   const parts = raw.split(/\s+/);
   const cmd = parts[0].toLowerCase();
@@ -180,17 +245,21 @@ async function handleCommand(raw: string): Promise<string> {
         "`auctions` — list all auctions",
         "`watch <id>` — watch auction",
         "`unwatch` — stop watching",
-        "`strategy <id> <min> <max> <amt> [exit] [sl]` — bid strategy",
+        "`strategy <id> <min> <max> <amt> [exit] [sl] [--pricing p] [--ladder l] [--window n] [--impact pct]` — bid strategy (p: fixed, trend, max; l: 40@1.1x,30@1.5x,30@max; n: bid window in blocks; pct: exit price-impact cap)",
         "`strategies` — show active strategies",
         "`cancel <id>` — cancel strategy",
         "`arm <id> <fdv> <amt>` — schedule bid",
         "`disarm [id]` — remove armed bid",
         "`bid <id> <fdv> <amt>` — bid now",
-        "`exit <id> [profile] [sl]` — exit strategy",
+        "`exit <id> [profile] [sl] [--impact pct]` — exit strategy (trailing: `50@3x~20%` tranches, sl `~25%`; time `25@1h`; liquidity `25@$50k`)",
+        "`exit <token> [profile] [sl] --entry <price>|--cost <usd>` — exit strategy on any token held",
         "`exits` — list exit strategies",
+        "`exit-edit <id> [--add t] [--remove n,n] [--set n=t] [--tranches t] [--stop sl|none] [--impact pct|none] [--top-up tokens]` — edit a running exit strategy (n: tranche number in `exits`)",
         "`launch <name> <symbol>` — launch token",
         "`claim <id>` — claim/exit a bid",
         "`claim-all` — claim all claimable bids",
+        "`claims` — claims and refunds sent (auto-claim status)",
+        "`ledger` — refunds from failed auctions",
         "",
         "*Trading*",
         "`trade dca <token> <amt> <interval> [budget] [sl%]`",
@@ -201,9 +270,14 @@ async function handleCommand(raw: string): Promise<string> {
         "`trade-remove <id>` — remove finished strategy",
         "`trade-pause <id>` — pause",
         "`trade-resume <id>` — resume",
+        "`trade-exit <id> [profile] [sl] [--impact pct]` — stop the strategy, exit its position in tranches",
+        "`backtest <id> [--slippage bps] [--gas eth] [--capital usd]` — replay a strategy over its price history",
         "",
         "`status` — agent state",
         "`wallet` — wallet balances",
+        "`allowances` — USDC pre-approvals per auction",
+        "`allowances revoke <id>` — revoke an allowance now",
+        "`paper` — paper-mode virtual ledger",
         "`info <id>` — auction details",
       ].join("\n");
 
@@ -240,13 +314,80 @@ async function handleCommand(raw: string): Promise<string> {
       const w = await api("/api/wallet");
       if (w.error) throw new Error(w.error);
       return [
-        "*Wallet*",
+        w.paper ? "*Wallet (paper ledger)*" : "*Wallet*",
         `\`${w.address}\``,
         `ETH: ${parseFloat(w.ethBalance).toFixed(6)}`,
         `USDC: ${parseFloat(w.usdcBalance).toFixed(2)}`,
       ].join("\n");
     }
 
+    case "paper": {
+      const ledger = await api("/api/paper");
+      if (ledger.error) throw new Error(ledger.error);
+      const usdc = Number(ledger.balances["0x833589fcd6edb6e08f4c7c32d4f71b54bda02913"] ?? 0) / 1e6;
+      const eth = Number(ledger.balances.eth ?? 0) / 1e18;
+      const open = ledger.bids.filter((b: any) => b.status === "open").length;
+      return [
+        "*Paper ledger*",
+        `USDC: ${usdc.toFixed(2)}`,
+        `ETH: ${eth.toFixed(6)}`,
+        `Bids: ${ledger.bids.length} (${open} open), swaps: ${ledger.trades.length}`,
+      ].join("\n");
+    }
+
+    case "allowances": {
+      if (parts[1]?.toLowerCase() === "revoke") {
+        const id = parts[2];
+        if (!id) return "Usage: `allowances revoke <auction>`";
+        const addr = await resolveAuction(id);
+        if (!addr) return `Could not find auction: ${id}`;
+        const data = await api(`/api/allowances/${addr}/revoke`, "POST");
+        if (data.error) throw new Error(data.error);
+        return `Allowance for ${shortAddr(data.spender)}: ${data.status}`;
+      }
+      const allowances = await api("/api/allowances");
+      if (allowances.error) throw new Error(allowances.error);
+      if (!Array.isArray(allowances) || allowances.length === 0) return "No tracked allowances";
+      const lines = ["*Allowances*", ""];
+      for (const a of allowances) {
+        const match = launchesCache.find((l: any) => l.auction?.toLowerCase() === a.spender.toLowerCase());
+        const name = match ? match.tokenSymbol : shortAddr(a.spender);
+        const onchain = a.onchainRaw === null ? "?" : (Number(a.onchainRaw) / 1e6).toFixed(2);
+        const needs = Object.entries(a.needs).map(([k, v]) => `${k} ${v}`).join(", ") || "none";
+        lines.push(`*${name}* ${onchain} USDC — ${a.status}, needs: ${needs}${a.endBlock ? `, ends #${a.endBlock}` : ""}`);
+        if (a.error) lines.push(`  ${a.error}`);
+      }
+      return lines.join("\n");
+    }
+
+    case "claims": {
+      const data = await api("/api/claims");
+      if (data.error) throw new Error(data.error);
+      const lines = [`*Claims* (auto-claim ${data.autoClaim ? "on" : "off"})`, ""];
+      if (data.claims.length === 0) lines.push("No claims yet");
+      for (const c of data.claims) {
+        const match = launchesCache.find((l: any) => l.auction?.toLowerCase() === c.auctionAddress.toLowerCase());
+        const name = match ? match.tokenSymbol : shortAddr(c.auctionAddress);
+        lines.push(`*${name}* bid ${c.bidId} — ${c.status}${c.method ? ` (${c.method})` : ""}${c.auto ? " — auto" : ""}`);
+        if (c.error) lines.push(`  ${c.error} (${c.attempts} attempts)`);
+      }
+      return lines.join("\n");
+    }
+
+    case "ledger": {
+      const data = await api("/api/ledger");
+      if (data.error) throw new Error(data.error);
+      if (data.entries.length === 0) return "Ledger is empty";
+      const lines = ["*Portfolio ledger*", ""];
+      for (const e of data.entries.slice(0, 20)) {
+        const match = launchesCache.find((l: any) => l.auction?.toLowerCase() === e.auctionAddress.toLowerCase());
+        const name = match ? match.tokenSymbol : shortAddr(e.auctionAddress);
+        lines.push(`${new Date(e.time).toLocaleDateString()} — ${e.kind} *${name}* +${fmtUsd(e.usdc)}`);
+      }
+      lines.push("", `Total refunded: ${fmtUsd(data.refundedUsdc)}`);
+      return lines.join("\n");
+    }
+
     case "status": {
       const agent = await api("/api/agent");
       const lines = ["*Status:* " + agent.status];
@@ -361,14 +502,20 @@ async function handleCommand(raw: string): Promise<string> {
     }
 
     case "strategy": {
-      const id = parts[1],
-        minFdv = parts[2],
-        maxFdv = parts[3],
-        amt = parts[4];
-      const exitProf = parts[5] || undefined;
-      const stopLoss = parts[6] ? Number(parts[6]) : undefined;
-      if (!id || !minFdv || !maxFdv || !amt)
-        return "Usage: `strategy <auction> <minFdv> <maxFdv> <amount> [exit] [stop-loss]`";
+      // Optional --pricing <policy> / --ladder <rungs> / --window <blocks> / --impact <pct> may appear anywhere after the command
+      const args = parts.slice();
+      const pricing = takeFlag(args, "--pricing");
+      const ladder = takeFlag(args, "--ladder");
+      const bidWindow = takeFlag(args, "--window");
+      const impact = takeFlag(args, "--impact");
+      const id = args[1],
+        minFdv = args[2],
+        maxFdv = args[3],
+        amt = args[4];
+      const exitProf = args[5] || undefined;
+      const stopLoss = args[6] || undefined;
+      if (!id || !minFdv || !maxFdv || !amt || pricing === "" || ladder === "" || bidWindow === "" || impact === "")
+        return "Usage: `strategy <auction> <minFdv> <maxFdv> <amount> [exit] [stop-loss] [--pricing fixed|trend|max] [--ladder 40@1.1x,30@1.5x,30@max] [--window 15] [--impact 2]`";
       const addr = await resolveAuction(id);
       if (!addr) return `Could not find auction: ${id}`;
       const body: any = {
@@ -379,12 +526,21 @@ async function handleCommand(raw: string): Promise<string> {
       };
       if (exitProf) body.exitProfile = exitProf;
       if (stopLoss != null) body.stopLoss = stopLoss;
+      if (pricing) body.pricing = pricing;
+      if (ladder) body.ladder = ladder;
+      if (bidWindow) body.bidWindowBlocks = Number(bidWindow);
+      if (impact) body.maxImpactPct = impact;
       const data = await api("/api/strategy", "POST", body);
       if (data.error) throw new Error(data.error);
       const match = launchesCache.find((l: any) => l.auction === addr);
-      let msg = `\u2705 Strategy started on *${match ? match.tokenSymbol : shortAddr(addr)}*\nFDV range: ${fmtUsd(Number(minFdv))} → ${fmtUsd(Number(maxFdv))}\nAmount: ${amt} USDC\nMode: watch-then-bid (single bid in final ~30s)`;
+      let msg = `\u2705 Strategy started on *${match ? match.tokenSymbol : shortAddr(addr)}*\nFDV range: ${fmtUsd(Number(minFdv))} → ${fmtUsd(Number(maxFdv))}\nAmount: ${amt} USDC`;
+      msg += data.ladder
+        ? `\nMode: ladder (${data.ladder.split(",").length} bids placed in the final ${data.bidWindowBlocks} blocks)`
+        : `\nMode: watch-then-bid (single bid in final ${data.bidWindowBlocks} blocks)`;
       if (exitProf) msg += `\nExit: ${exitProf}`;
-      if (stopLoss != null) msg += `\nStop-loss: ${stopLoss}x`;
+      if (stopLoss != null) msg += `\nStop-loss: ${fmtStopLoss(data.stopLoss, data.trailingStopPct)}`;
+      if (data.maxImpactPct != null) msg += `\nExit max impact: ${data.maxImpactPct}%`;
+      msg += data.ladder ? `\nLadder: ${data.ladder}` : `\nPricing: ${data.pricing}`;
       return msg;
     }
 
@@ -409,6 +565,20 @@ async function handleCommand(raw: string): Promise<string> {
         lines.push(
           `${icon} *${name}* ${s.status} — FDV: ${fmtUsd(s.currentFdv)} — ${s.bidsPlaced} bids`
         );
+        (s.ladder || []).forEach((r: any, i: number) => {
+          const at = r.multiple === "max" ? "max" : `${r.multiple}x`;
+          let line = `   ${i + 1}. ${r.pct}%@${at} — ${r.amount} USDC — ${r.status}`;
+          if (r.actualFdv) line += ` @ ${fmtUsd(r.actualFdv)}`;
+          if (r.fill !== "pending") line += ` — ${r.fill}`;
+          lines.push(line);
+        });
+        if (s.settlement) {
+          const st = s.settlement;
+          let line = `   Settled: ${st.status} — ${fmtUsd(st.filledAmount)}/${fmtUsd(st.amountBid)} filled`;
+          if (st.tokensAllocated > 0) line += ` — ${fmtNum(st.tokensAllocated)} tokens @ ${fmtUsd(st.entryFdv)}`;
+          if (st.refundUsdc > 0) line += ` — refund ${fmtUsd(st.refundUsdc)}`;
+          lines.push(line);
+        }
       });
       return lines.join("\n");
     }
@@ -429,10 +599,11 @@ async function handleCommand(raw: string): Promise<string> {
       if (!input) return "Usage: `info <symbol | # | addr>`";
       const addr = await resolveAuction(input);
       if (!addr) return `Could not find auction: ${input}`;
-      const [info, bids, block] = await Promise.all([
+      const [info, bids, block, safety] = await Promise.all([
         api(`/api/auction/${addr}`),
         api(`/api/auction/${addr}/bids`),
         api("/api/block"),
+        api(`/api/auction/${addr}/safety`).catch(() => null),
       ]);
       if (info.error) throw new Error(info.error);
 
@@ -458,22 +629,36 @@ async function handleCommand(raw: string): Promise<string> {
       ];
       if (fdv) lines.push(`FDV: ${fmtUsd(fdv)}`);
       lines.push(`Blocks: ${start} → ${end}`);
+      if (safety && !safety.error) {
+        lines.push(`Safety: ${safety.riskLevel ?? "no verdict"}`);
+        for (const warning of safety.warnings) lines.push(`\u26A0 ${warning}`);
+      }
       return lines.join("\n");
     }
 
     case "exit": {
-      const exitId = parts[1];
-      const exitProfile = parts[2] || "moderate";
-      const stopLoss = parts[3] ? Number(parts[3]) : undefined;
-      if (!exitId) return "Usage: `exit <auction> [profile] [stop-loss]`";
-      const addr = await resolveAuction(exitId);
-      if (!addr) return `Could not find auction: ${exitId}`;
-      const body: any = { auctionAddress: addr, profileOrCustom: exitProfile };
+      const args = parts.slice();
+      const impact = takeFlag(args, "--impact");
+      const entry = takeFlag(args, "--entry");
+      const cost = takeFlag(args, "--cost");
+      const exitId = args[1];
+      const exitProfile = args[2] || "moderate";
+      const stopLoss = args[3] || undefined;
+      if (!exitId || impact === "" || entry === "" || cost === "")
+        return "Usage: `exit <auction|token> [profile] [stop-loss] [--impact <pct>] [--entry <price> | --cost <usd>]`";
+      const target = await resolveExitTarget(exitId);
+      if (!target) return `Could not find auction: ${exitId}`;
+      const body: any = { ...target, profileOrCustom: exitProfile };
       if (stopLoss != null) body.stopLoss = stopLoss;
+      if (impact) body.maxImpactPct = impact;
+      if (entry) body.entryPrice = entry;
+      if (cost) body.costBasis = cost;
       const data = await api("/api/exit-strategy", "POST", body);
       if (data.error) throw new Error(data.error);
-      const match = launchesCache.find((l: any) => l.auction === addr);
-      return `\u2705 Exit strategy started on *${match ? match.tokenSymbol : shortAddr(addr)}*\nProfile: ${exitProfile}\nEntry FDV: ${fmtUsd(data.entryFdv)}`;
+      let msg = `\u2705 Exit strategy started on *${data.tokenSymbol}*\nProfile: ${exitProfile}\nEntry: $${data.entryPrice.toPrecision(4)} (FDV ${fmtUsd(data.entryFdv)})`;
+      if (stopLoss != null) msg += `\nStop-loss: ${fmtStopLoss(data.stopLoss, data.trailingStopPct)}`;
+      if (data.maxImpactPct != null) msg += `\nMax impact: ${data.maxImpactPct}%`;
+      return msg;
     }
 
     case "exits": {
@@ -482,13 +667,41 @@ async function handleCommand(raw: string): Promise<string> {
         return "No active exit strategies";
       const lines = ["*Exit Strategies*", ""];
       exits.forEach((e: any) => {
-        const match = launchesCache.find(
-          (l: any) => l.auction === e.auctionAddress
-        );
-        const name = match ? match.tokenSymbol : shortAddr(e.auctionAddress);
+        const origin = e.origin === "trading" ? `trade ${e.tradingStrategyId}` : e.origin;
         lines.push(
-          `*${name}* ${e.profileName} ${e.status.toUpperCase()} — ${e.currentMultiple.toFixed(2)}x — realized: ${fmtUsd(e.totalUsdcRealized)}`
+          `*${exitName(e)}* (${origin}) ${e.profileName} ${e.status.toUpperCase()} — ${e.currentMultiple.toFixed(2)}x — realized: ${fmtUsd(e.totalUsdcRealized)}`
         );
+        const extras: string[] = [];
+        if (e.peakMultiple) extras.push(`peak ${e.peakMultiple.toFixed(2)}x`);
+        if (e.stopLossMultiple != null || e.trailingStopPct != null) {
+          let stop = `stop-loss ${fmtStopLoss(e.stopLossMultiple, e.trailingStopPct)}`;
+          if (e.trailingStopPct != null && e.peakMultiple) {
+            stop += ` @ ${(e.peakMultiple * (1 - e.trailingStopPct / 100)).toFixed(2)}x`;
+          }
+          extras.push(stop);
+        }
+        if (e.maxImpactPct != null) extras.push(`max impact ${e.maxImpactPct}%`);
+        if (e.liquidityUsd != null) extras.push(`liquidity ${fmtUsd(e.liquidityUsd)}`);
+        if (extras.length > 0) lines.push(`   ${extras.join(" — ")}`);
+        e.tranches.forEach((t: any, i: number) => {
+          const icon = t.status === "executed" ? "\u2713" : t.status === "skipped" ? "\u2717" : "\u25CB";
+          let line = `   ${icon} ${i + 1}. ${t.pctToSell}% @ ${fmtTranche(t)}`;
+          const fills: any[] = t.fills ?? [];
+          if (t.status === "executed") line += ` → $${t.usdcReceived}${fills.length > 1 ? ` in ${fills.length} chunks` : ""}`;
+          lines.push(line);
+          if (fills.length > 1 || (t.status === "pending" && fills.length > 0)) {
+            fills.forEach((f, i) =>
+              lines.push(`      chunk ${i + 1}: ${f.amount} → $${f.usdcReceived.toFixed(2)} (${f.impactPct.toFixed(2)}% impact)`)
+            );
+          }
+        });
+        if (e.stopSell) {
+          const stop = e.stopSell;
+          const done = Number((BigInt(stop.soldRaw) * 100n) / BigInt(stop.targetRaw));
+          lines.push(
+            `   ${stop.trailing ? "Trailing stop" : "Stop-loss"} @ ${stop.multiple.toFixed(2)}x → $${stop.usdcReceived.toFixed(2)} (${done}% sold in ${stop.fills.length} chunks)`
+          );
+        }
       });
       return lines.join("\n");
     }
@@ -540,11 +753,41 @@ async function handleCommand(raw: string): Promise<string> {
       return msg;
     }
 
+    case "exit-edit": {
+      const args = parts.slice();
+      const flags: Record<string, string | undefined> = {};
+      for (const flag of ["--add", "--remove", "--set", "--tranches", "--stop", "--impact", "--top-up"]) flags[flag] = takeFlag(args, flag);
+      const values = Object.values(flags);
+      if (!args[1] || values.every((v) => v === undefined) || values.includes(""))
+        return "Usage: `exit-edit <auction|token> [--add 25@1h] [--remove 3] [--set 2=30@4x] [--tranches 50@4x,50@8x] [--stop ~20%|none] [--impact 2|none] [--top-up 1000]`";
+      const target = await resolveExitTarget(args[1]);
+      if (!target) return `Could not find auction: ${args[1]}`;
+      const body: any = {};
+      if (flags["--add"]) body.add = flags["--add"];
+      if (flags["--remove"]) body.remove = flags["--remove"].split(",").map(Number);
+      if (flags["--set"]) {
+        body.set = Object.fromEntries(flags["--set"].split(",").map((pair) => pair.split("=")));
+      }
+      if (flags["--tranches"]) body.tranches = flags["--tranches"];
+      if (flags["--stop"]) body.stopLoss = flags["--stop"];
+      if (flags["--impact"]) body.maxImpactPct = flags["--impact"];
+      if (flags["--top-up"]) body.topUp = flags["--top-up"];
+      const data = await api(`/api/exit-strategy/${target.tokenAddress ?? target.auctionAddress}`, "PATCH", body);
+      if (data.error) throw new Error(data.error);
+      const lines = [
+        `\u2705 Exit strategy on *${exitName(data)}* updated`,
+        data.log[data.log.length - 1].message,
+      ];
+      data.tranches.forEach((t: any, i: number) => lines.push(`   ${i + 1}. ${t.pctToSell}% @ ${fmtTranche(t)} — ${t.status}`));
+      return lines.join("\n");
+    }
+
     case "exit-cancel": {
       const id = parts[1];
-      if (!id) return "Usage: `exit-cancel <auction>`";
-      const addr = await resolveAuction(id);
-      if (!addr) return `Could not find auction: ${id}`;
+      if (!id) return "Usage: `exit-cancel <auction|token>`";
+      const target = await resolveExitTarget(id);
+      if (!target) return `Could not find auction: ${id}`;
+      const addr = (target.tokenAddress ?? target.auctionAddress)!;
       const data = await api(`/api/exit-strategy/${addr}/cancel`, "POST");
       if (data.error) throw new Error(data.error);
       return `Cancelled exit strategy on ${shortAddr(addr)}`;
@@ -682,6 +925,29 @@ async function handleCommand(raw: string): Promise<string> {
       return lines.join("\n");
     }
 
+    case "backtest": {
+      const args = parts.slice();
+      const slippage = takeFlag(args, "--slippage");
+      const gas = takeFlag(args, "--gas");
+      const capital = takeFlag(args, "--capital");
+      const id = args[1];
+      if (!id || slippage === "" || gas === "" || capital === "")
+        return "Usage: `backtest <strategy-id> [--slippage bps] [--gas eth-per-swap] [--capital usdc]`";
+      const body: any = { strategyId: id };
+      if (slippage) body.slippageBps = Number(slippage);
+      if (gas) body.gasEthPerSwap = Number(gas);
+      if (capital) body.capital = Number(capital);
+      const bt = await api("/api/backtest", "POST", body);
+      if (bt.error) throw new Error(bt.error);
+      const pnlStr = bt.pnl >= 0 ? `+${fmtUsd(bt.pnl)}` : `-${fmtUsd(Math.abs(bt.pnl))}`;
+      return [
+        `*Backtest* \`${id}\` — ${bt.type} ${bt.tokenSymbol}`,
+        `${bt.points} prices over ${((bt.to - bt.from) / 3_600_000).toFixed(1)}h, ended ${bt.status}`,
+        `PnL: ${pnlStr} (${bt.pnlPct.toFixed(2)}%) | Max drawdown: ${bt.maxDrawdownPct.toFixed(2)}%`,
+        `Trades: ${bt.tradeCount} (${bt.buys} buys, ${bt.sells} sells) | Gas: ${fmtUsd(bt.gasUsd)}`,
+      ].join("\n");
+    }
+
     case "trade-cancel": {
       const id = parts[1];
       if (!id) return "Usage: `trade-cancel <id>`";
@@ -714,6 +980,19 @@ async function handleCommand(raw: string): Promise<string> {
       return `Resumed trading strategy \`${id}\``;
     }
 
+    case "trade-exit": {
+      const args = parts.slice();
+      const impact = takeFlag(args, "--impact");
+      const id = args[1];
+      if (!id || impact === "") return "Usage: `trade-exit <id> [profile] [stop-loss] [--impact <pct>]`";
+      const body: any = { profileOrCustom: args[2] || "moderate" };
+      if (args[3]) body.stopLoss = args[3];
+      if (impact) body.maxImpactPct = impact;
+      const data = await api(`/api/trading-strategy/${id}/exit`, "POST", body);
+      if (data.error) throw new Error(data.error);
+      return `\u2705 Trading strategy \`${id}\` stopped — exit strategy on ${data.attached}`;
+    }
+
     case "liquidate": {
       const data = await api("/api/trading/liquidate", "POST");
       if (data.error) throw new Error(data.error);
@@ -0,0 +1,262 @@
+import type { PricePoint, RiskLimits, StrategyStatus, StrategyType, Trade, TradingStrategyState } from "./types.js";
+import { runTick, type EvaluateFn, type TickEnv } from "./engine.js";
+import { USDC_BASE } from "../config.js";
+import { createDcaState, dcaEvaluate } from "./strategies/dca.js";
+import { createTwapState, twapEvaluate } from "./strategies/twap.js";
+import { createMeanReversionState, meanReversionEvaluate } from "./strategies/mean-reversion.js";
+
+// ─── Backtesting ───
+//
+// Runs an evaluator through the engine's own tick — risk checks, trade caps
+// and position accounting included — over a stored price series. Every point
+// is one tick at that point's time. Trades fill at the point's price less
+// slippage and pay a fixed gas cost per swap; nothing touches the chain.
+
+const HISTORY_WINDOW_MS = 24 * 3_600_000; // the live tracker keeps ~24h
+const MAX_CURVE_POINTS = 500;
+
+export const BACKTEST_EVALUATORS: Record<StrategyType, EvaluateFn> = {
+  dca: dcaEvaluate,
+  twap: twapEvaluate,
+  "mean-reversion": meanReversionEvaluate,
+};
+
+export interface BacktestOptions {
+  /** Starting USDC; buys beyond it are skipped like a live buy with an empty wallet (default 1000) */
+  capital?: number;
+  /** Slippage on every fill in basis points (default 50) */
+  slippageBps?: number;
+  /** Gas per swap in ETH (default 0.00001) */
+  gasEthPerSwap?: number;
+  /** Converts gas to USD for PnL (default 3000) */
+  ethPriceUsd?: number;
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  /** USDC cash + position at market - gas spent */
+  equity: number;
+}
+
+export interface BacktestResult {
+  type: StrategyType;
+  tokenSymbol: string;
+  from: number;
+  to: number;
+  points: number;
+  capital: number;
+  finalEquity: number;
+  pnl: number;
+  pnlPct: number;
+  realized: number;
+  unrealized: number;
+  gasUsd: number;
+  maxDrawdownPct: number;
+  tradeCount: number;
+  buys: number;
+  sells: number;
+  /** Strategy status at the end of the series (paused = max drawdown hit, done = stop-loss or complete) */
+  status: StrategyStatus;
+  trades: Trade[];
+  /** Downsampled to at most 500 points */
+  equityCurve: EquityPoint[];
+  log: TradingStrategyState["log"];
+}
+
+/**
+ * Build a fresh strategy of the given type for a backtest starting at `now`.
+ * Params use the same names as the trading strategy API, so a live
+ * strategy's params can be passed straight back in.
+ */
+export function createBacktestState(
+  type: StrategyType,
+  token: { tokenAddress: string; tokenSymbol: string; tokenDecimals: number },
+  params: Record<string, any>,
+  riskLimits: Partial<RiskLimits> | undefined,
+  now: number
+): TradingStrategyState {
+  const id = `backtest-${type}`;
+  switch (type) {
+    case "dca":
+      if (!params.amountPerBuy || !params.intervalMs) throw new Error("DCA requires params.amountPerBuy and params.intervalMs");
+      return createDcaState(
+        {
+          ...token,
+          amountPerBuy: Number(params.amountPerBuy),
+          intervalMs: Number(params.intervalMs),
+          totalBudget: params.totalBudget ? Number(params.totalBudget) : undefined,
+          riskLimits,
+        },
+        id,
+        now
+      );
+    case "twap":
+      if (!params.totalAmount || !params.durationMs || !params.chunks) {
+        throw new Error("TWAP requires params.totalAmount, params.durationMs, and params.chunks");
+      }
+      return createTwapState(
+        {
+          ...token,
+          totalAmount: Number(params.totalAmount),
+          durationMs: Number(params.durationMs),
+          chunks: Number(params.chunks),
+          riskLimits,
+        },
+        id,
+        now
+      );
+    case "mean-reversion":
+      if (!params.amountPerTrade || !params.emaPeriodMinutes || !params.buyThresholdPct || !params.sellThresholdPct) {
+        throw new Error("Mean-reversion requires params.amountPerTrade, emaPeriodMinutes, buyThresholdPct, sellThresholdPct");
+      }
+      return createMeanReversionState(
+        {
+          ...token,
+          amountPerTrade: Number(params.amountPerTrade),
+          emaPeriodMinutes: Number(params.emaPeriodMinutes),
+          buyThresholdPct: Number(params.buyThresholdPct),
+          sellThresholdPct: Number(params.sellThresholdPct),
+          cooldownMs: params.cooldownMs ? Number(params.cooldownMs) : undefined,
+          riskLimits,
+        },
+        id,
+        now
+      );
+    default:
+      throw new Error(`Unknown strategy type: ${type}`);
+  }
+}
+
+/** Run a strategy over a price series, oldest point first */
+export async function runBacktest(
+  state: TradingStrategyState,
+  evaluate: EvaluateFn,
+  series: PricePoint[],
+  options: BacktestOptions = {}
+): Promise<BacktestResult> {
+  if (series.length < 2) throw new Error("Backtest needs at least 2 price points");
+  const capital = options.capital ?? 1000;
+  const slippage = (options.slippageBps ?? 50) / 10_000;
+  const gasEthPerSwap = options.gasEthPerSwap ?? 0.00001;
+  const ethPriceUsd = options.ethPriceUsd ?? 3000;
+  const tokenScale = 10 ** state.tokenDecimals;
+
+  let cash = capital;
+  let gasUsd = 0;
+  let price = series[0].price;
+  let swaps = 0;
+
+  const swap: TickEnv["swap"] = async (tokenIn, _tokenOut, amountIn) => {
+    swaps++;
+    gasUsd += gasEthPerSwap * ethPriceUsd;
+    let amountOut: bigint;
+    if (tokenIn.toLowerCase() === USDC_BASE.toLowerCase()) {
+      const usdc = Number(amountIn) / 1e6;
+      cash -= usdc;
+      amountOut = BigInt(Math.floor((usdc / price) * (1 - slippage) * tokenScale));
+    } else {
+      const usdc = (Number(amountIn) / tokenScale) * price * (1 - slippage);
+      cash += usdc;
+      amountOut = BigInt(Math.floor(usdc * 1e6));
+    }
+    return { hash: `backtest-${swaps}`, amountOut, gasCostEth: gasEthPerSwap };
+  };
+
+  const curve: EquityPoint[] = [];
+  let windowStart = 0;
+  for (let i = 0; i < series.length; i++) {
+    const point = series[i];
+    price = point.price;
+    while (series[windowStart].timestamp < point.timestamp - HISTORY_WINDOW_MS) windowStart++;
+
+    if (state.status === "running") {
+      await runTick(state, evaluate, {
+        now: point.timestamp,
+        price,
+        history: series.slice(windowStart, i + 1),
+        usdcAvailable: async () => cash,
+        swap,
+        notify: async () => {},
+        markDirty: () => {},
+        // Simulated trades stay in the result's log, stamped with simulated time
+        print: () => {},
+      });
+    }
+    curve.push({ timestamp: point.timestamp, equity: cash + state.position.tokenBalance * price - gasUsd });
+  }
+
+  const finalEquity = curve[curve.length - 1].equity;
+  const unrealized = state.position.tokenBalance * price - state.position.tokenBalance * state.position.avgEntryPrice;
+  return {
+    type: state.type,
+    tokenSymbol: state.tokenSymbol,
+    from: series[0].timestamp,
+    to: series[series.length - 1].timestamp,
+    points: series.length,
+    capital,
+    finalEquity,
+    pnl: finalEquity - capital,
+    pnlPct: ((finalEquity - capital) / capital) * 100,
+    realized: state.pnl.realized,
+    unrealized,
+    gasUsd,
+    maxDrawdownPct: maxDrawdown(curve),
+    tradeCount: state.trades.length,
+    buys: state.trades.filter((t) => t.side === "buy").length,
+    sells: state.trades.filter((t) => t.side === "sell").length,
+    status: state.status,
+    trades: state.trades,
+    equityCurve: downsample(curve, MAX_CURVE_POINTS),
+    log: state.log,
+  };
+}
+
+/**
+ * Parse "timestamp,price" rows. Timestamps may be unix seconds, unix
+ * milliseconds or ISO dates; a header row and blank lines are skipped.
+ */
+export function parsePriceCsv(csv: string): PricePoint[] {
+  const points: PricePoint[] = [];
+  for (const [i, line] of csv.split(/\r?\n/).entries()) {
+    const row = line.trim();
+    if (!row) continue;
+    const [rawTime, rawPrice] = row.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+    const price = Number(rawPrice);
+    const timestamp = parseTimestamp(rawTime);
+    if (timestamp === null || !Number.isFinite(price) || price <= 0) {
+      if (points.length === 0 && i === 0) continue; // header
+      throw new Error(`CSV line ${i + 1}: expected "timestamp,price", got "${row.slice(0, 60)}"`);
+    }
+    points.push({ timestamp, price });
+  }
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+// ─── Internals ───
+
+function parseTimestamp(raw: string | undefined): number | null {
+  if (!raw) return null;
+  if (/^\d+(\.\d+)?$/.test(raw)) {
+    const n = Number(raw);
+    return n < 1e12 ? Math.round(n * 1000) : Math.round(n);
+  }
+  const parsed = Date.parse(raw);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/** Largest peak-to-trough fall in equity, as a percentage of the peak */
+function maxDrawdown(curve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const { equity } of curve) {
+    peak = Math.max(peak, equity);
+    if (peak > 0) worst = Math.max(worst, ((peak - equity) / peak) * 100);
+  }
+  return worst;
+}
+
+function downsample(curve: EquityPoint[], max: number): EquityPoint[] {
+  if (curve.length <= max) return curve;
+  const step = (curve.length - 1) / (max - 1);
+  return Array.from({ length: max }, (_, i) => curve[Math.round(i * step)]);
+}
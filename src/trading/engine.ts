@@ -1,4 +1,4 @@
-import { type Address, erc20Abi } from "viem";
+import { type Address } from "viem";
 import type {
   TradingStrategyState,
   Trade,
@@ -6,19 +6,15 @@ import type {
   StrategyType,
   PricePoint,
 } from "./types.js";
-import { getPublicClient, getAccount, USDC_BASE } from "../config.js";
+import { USDC_BASE } from "../config.js";
 import { swapExactInputSingle } from "../swap.js";
+import { getTokenBalance } from "../wallet.js";
 import { baseScanTxUrl } from "../utils.js";
-import { markDirty, registerCollector } from "../persistence.js";
+import { markDirty, registerCollector, registerSchema } from "../persistence.js";
+import { eachRecord, validateShape } from "../storage/validate.js";
 import { sendTelegramMessage } from "../notify.js";
-import {
-  startTracking,
-  stopTracking,
-  getPrice,
-  getHistory,
-  ema as getEma,
-  sma as getSma,
-} from "./price-tracker.js";
+import { startTracking, stopTracking, getPrice, getHistory, emaAt, smaAt } from "./price-tracker.js";
+import { getExitStrategy, resolveTranches, runExitStrategy } from "../exit-strategy.js";
 
 const POLL_INTERVAL_MS = 30_000;
 const MAX_SINGLE_TRADE_USDC = 500;
@@ -33,8 +29,61 @@ let nextStrategyNum = 1;
 registerCollector(() => ({
   section: "Trading Strategies",
   data: Array.from(tradingStrategies.values()),
+  key: (s: TradingStrategyState) => s.id,
+  series: { field: "priceHistory", time: (p: PricePoint) => p.timestamp },
 }));
 
+registerSchema("Trading Strategies", {
+  migrations: [
+    // v1: totalGasCostEth was added after the first strategies were persisted
+    eachRecord((s) => {
+      s.totalGasCostEth ??= 0;
+      s.priceHistory ??= [];
+      s.trades ??= [];
+      s.pnl ??= { realized: 0, unrealized: 0 };
+      s.log ??= [];
+      return s;
+    }),
+  ],
+  validate: (record) => {
+    const problems = validateShape(record, {
+      id: "string",
+      type: ["dca", "twap", "mean-reversion"],
+      status: ["running", "paused", "done", "failed"],
+      tokenAddress: "string",
+      tokenSymbol: "string",
+      tokenDecimals: "number",
+      position: "object",
+      priceHistory: "array",
+      trades: "array",
+      pnl: "object",
+      totalGasCostEth: "number",
+      riskLimits: "object",
+      params: "object",
+      log: "array",
+      exitAttachedAt: "number?",
+    });
+    if (problems.length > 0) return problems;
+    const s = record as TradingStrategyState;
+    for (const p of validateShape(s.position, {
+      tokenBalance: "number",
+      avgEntryPrice: "number",
+      totalInvested: "number",
+      totalRealized: "number",
+    })) {
+      problems.push(`position.${p}`);
+    }
+    for (const p of validateShape(s.riskLimits, {
+      maxPositionUsdc: "number",
+      stopLossPercent: "number",
+      maxDrawdownPercent: "number",
+    })) {
+      problems.push(`riskLimits.${p}`);
+    }
+    return problems;
+  },
+});
+
 // ─── Public API ───
 
 export function getTradingStrategies(): TradingStrategyState[] {
@@ -127,6 +176,8 @@ export interface Signal {
 }
 
 export interface Indicators {
+  /** Time of this tick — evaluators use it instead of Date.now() so backtests can run on a simulated clock */
+  now: number;
   price: number;
   ema: (periodMinutes: number) => number | null;
   sma: (periodMinutes: number) => number | null;
@@ -138,6 +189,49 @@ export type EvaluateFn = (
   indicators: Indicators
 ) => Signal | null;
 
+/**
+ * Where a tick gets its price and sends its trades. Live ticks read the
+ * price tracker and swap through the aggregators; the backtester feeds a
+ * stored series and fills trades itself.
+ */
+export interface TickEnv {
+  now: number;
+  /** Latest price, null before the first one arrives */
+  price: number | null;
+  history: PricePoint[];
+  usdcAvailable: () => Promise<number>;
+  swap: (
+    tokenIn: Address,
+    tokenOut: Address,
+    amountIn: bigint
+  ) => Promise<{ hash: string; amountOut: bigint; gasCostEth: number }>;
+  notify: (message: string) => Promise<unknown>;
+  markDirty: () => void;
+  /** Where log lines go besides the strategy's own log: the console when live, nowhere in backtests */
+  print: (line: string) => void;
+}
+
+/** The part of a tick's environment a trade needs */
+type TradeEnv = Omit<TickEnv, "price" | "history">;
+
+/** Swap execution shared by live ticks and manual sells */
+const liveTrading: Omit<TradeEnv, "now"> = {
+  usdcAvailable: async () => Number(await getTokenBalance(USDC_BASE)) / 1e6,
+  swap: swapExactInputSingle,
+  notify: sendTelegramMessage,
+  markDirty,
+  print: console.log,
+};
+
+function liveTickEnv(state: TradingStrategyState): TickEnv {
+  return {
+    ...liveTrading,
+    now: Date.now(),
+    price: getPrice(state.tokenAddress),
+    history: getHistory(state.tokenAddress),
+  };
+}
+
 // ─── Core Loop ───
 
 export function runTradingStrategy(
@@ -168,7 +262,7 @@ function startStrategyLoop(
     }
 
     try {
-      await tick(state, evaluate);
+      await runTick(state, evaluate, liveTickEnv(state));
     } catch (err: any) {
       addLog(state, `Tick error: ${err.message}`, "error");
     }
@@ -189,16 +283,18 @@ function stopStrategyLoop(id: string): void {
   }
 }
 
-async function tick(
+/** One evaluation: risk checks, then the strategy's signal, then the trade */
+export async function runTick(
   state: TradingStrategyState,
-  evaluate: EvaluateFn
+  evaluate: EvaluateFn,
+  env: TickEnv
 ): Promise<void> {
   // Get current price
-  const currentPrice = getPrice(state.tokenAddress);
+  const currentPrice = env.price;
   if (currentPrice == null) return; // no price yet
 
   // Sync price history from tracker into state (for persistence)
-  state.priceHistory = getHistory(state.tokenAddress);
+  state.priceHistory = env.history;
 
   // Update unrealized PnL
   const currentValue = state.position.tokenBalance * currentPrice;
@@ -218,12 +314,13 @@ async function tick(
       addLog(
         state,
         `STOP-LOSS triggered at $${currentPrice.toFixed(6)} (${limits.stopLossPercent}% below avg entry $${state.position.avgEntryPrice.toFixed(6)})`,
-        "trade"
+        "trade",
+        env
       );
-      await executeSell(state, state.position.tokenBalance, currentPrice, "stop-loss");
+      await executeSell(state, state.position.tokenBalance, currentPrice, "stop-loss", env);
       state.status = "done";
-      addLog(state, "Strategy stopped by stop-loss", "info");
-      markDirty();
+      addLog(state, "Strategy stopped by stop-loss", "info", env);
+      env.markDirty();
       return;
     }
   }
@@ -236,19 +333,21 @@ async function tick(
       addLog(
         state,
         `MAX DRAWDOWN hit: ${drawdownPct.toFixed(1)}% (limit: ${limits.maxDrawdownPercent}%)`,
-        "trade"
+        "trade",
+        env
       );
       state.status = "paused";
-      markDirty();
+      env.markDirty();
       return;
     }
   }
 
   // Build indicators
   const indicators: Indicators = {
+    now: env.now,
     price: currentPrice,
-    ema: (period) => getEma(state.tokenAddress, period),
-    sma: (period) => getSma(state.tokenAddress, period),
+    ema: (period) => emaAt(env.history, period, env.now),
+    sma: (period) => smaAt(env.history, period, env.now),
     history: state.priceHistory,
   };
 
@@ -268,13 +367,13 @@ async function tick(
   }
 
   if (signal.side === "buy") {
-    await executeBuy(state, cappedAmount, currentPrice);
+    await executeBuy(state, cappedAmount, currentPrice, env);
   } else {
     // Sell: convert USDC amount to token amount
     const tokenAmount = cappedAmount / currentPrice;
     const sellAmount = Math.min(tokenAmount, state.position.tokenBalance);
     if (sellAmount > 0) {
-      await executeSell(state, sellAmount, currentPrice, "signal");
+      await executeSell(state, sellAmount, currentPrice, "signal", env);
     }
   }
 }
@@ -284,30 +383,23 @@ async function tick(
 async function executeBuy(
   state: TradingStrategyState,
   amountUsdc: number,
-  currentPrice: number
+  currentPrice: number,
+  env: TradeEnv
 ): Promise<void> {
-  const publicClient = getPublicClient();
-  const account = getAccount();
 
   // Check USDC balance
-  const usdcBalance = await publicClient.readContract({
-    address: USDC_BASE,
-    abi: erc20Abi,
-    functionName: "balanceOf",
-    args: [account.address],
-  });
-  const usdcAvailable = Number(usdcBalance) / 1e6;
+  const usdcAvailable = await env.usdcAvailable();
 
   if (usdcAvailable < amountUsdc) {
-    addLog(state, `Insufficient USDC: need $${amountUsdc.toFixed(2)}, have $${usdcAvailable.toFixed(2)}`, "error");
+    addLog(state, `Insufficient USDC: need $${amountUsdc.toFixed(2)}, have $${usdcAvailable.toFixed(2)}`, "error", env);
     return;
   }
 
   const amountIn = BigInt(Math.floor(amountUsdc * 1e6));
-  addLog(state, `BUY $${amountUsdc.toFixed(2)} USDC → ${state.tokenSymbol}`, "trade");
+  addLog(state, `BUY $${amountUsdc.toFixed(2)} USDC → ${state.tokenSymbol}`, "trade", env);
 
   try {
-    const { hash, amountOut, gasCostEth } = await swapExactInputSingle(
+    const { hash, amountOut, gasCostEth } = await env.swap(
       USDC_BASE,
       state.tokenAddress as Address,
       amountIn
@@ -328,7 +420,7 @@ async function executeBuy(
 
     // Record trade
     const trade: Trade = {
-      timestamp: Date.now(),
+      timestamp: env.now,
       side: "buy",
       amountUsdc,
       amountToken: tokenReceived,
@@ -341,22 +433,23 @@ async function executeBuy(
     addLog(
       state,
       `BUY OK: ${formatNum(tokenReceived)} ${state.tokenSymbol} @ $${effectivePrice.toFixed(6)} [${hash.slice(0, 10)}] (gas: ${gasCostEth.toFixed(5)} ETH)`,
-      "trade"
+      "trade",
+      env
     );
-    markDirty();
+    env.markDirty();
 
     // Telegram alert
     const pnlPct = state.position.avgEntryPrice > 0
       ? ((currentPrice - state.position.avgEntryPrice) / state.position.avgEntryPrice * 100)
       : 0;
     const posValue = state.position.tokenBalance * currentPrice;
-    await sendTelegramMessage(
+    await env.notify(
       `\uD83D\uDFE2 ${state.type.toUpperCase()} BUY: $${amountUsdc.toFixed(2)} USDC \u2192 ${formatNum(tokenReceived)} ${state.tokenSymbol} @ $${effectivePrice.toFixed(6)}\n` +
       `Position: ${formatNum(state.position.tokenBalance)} ${state.tokenSymbol} ($${posValue.toFixed(2)}) | Avg entry: $${state.position.avgEntryPrice.toFixed(6)} | PnL: ${pnlPct >= 0 ? "+" : ""}${pnlPct.toFixed(1)}%\n` +
       `[tx](${baseScanTxUrl(hash)})`
     );
   } catch (err: any) {
-    addLog(state, `BUY FAILED: ${err.message}`, "error");
+    addLog(state, `BUY FAILED: ${err.message}`, "error", env);
   }
 }
 
@@ -364,7 +457,8 @@ async function executeSell(
   state: TradingStrategyState,
   tokenAmount: number,
   currentPrice: number,
-  reason: string
+  reason: string,
+  env: TradeEnv
 ): Promise<void> {
   const amountIn = BigInt(
     Math.floor(tokenAmount * 10 ** state.tokenDecimals)
@@ -373,11 +467,12 @@ async function executeSell(
   addLog(
     state,
     `SELL ${formatNum(tokenAmount)} ${state.tokenSymbol} (${reason})`,
-    "trade"
+    "trade",
+    env
   );
 
   try {
-    const { hash, amountOut, gasCostEth } = await swapExactInputSingle(
+    const { hash, amountOut, gasCostEth } = await env.swap(
       state.tokenAddress as Address,
       USDC_BASE,
       amountIn
@@ -400,7 +495,7 @@ async function executeSell(
 
     // Record trade
     const trade: Trade = {
-      timestamp: Date.now(),
+      timestamp: env.now,
       side: "sell",
       amountUsdc: usdcReceived,
       amountToken: tokenAmount,
@@ -413,22 +508,23 @@ async function executeSell(
     addLog(
       state,
       `SELL OK: ${formatNum(tokenAmount)} ${state.tokenSymbol} \u2192 $${usdcReceived.toFixed(2)} @ $${effectivePrice.toFixed(6)} [${hash.slice(0, 10)}] (gas: ${gasCostEth.toFixed(5)} ETH)`,
-      "trade"
+      "trade",
+      env
     );
-    markDirty();
+    env.markDirty();
 
     // Telegram alert
     const pnlPct = state.position.avgEntryPrice > 0
       ? ((currentPrice - state.position.avgEntryPrice) / state.position.avgEntryPrice * 100)
       : 0;
     const posValue = state.position.tokenBalance * currentPrice;
-    await sendTelegramMessage(
+    await env.notify(
       `\uD83D\uDD34 ${state.type.toUpperCase()} SELL: ${formatNum(tokenAmount)} ${state.tokenSymbol} \u2192 $${usdcReceived.toFixed(2)} USDC @ $${effectivePrice.toFixed(6)} (${reason})\n` +
       `Position: ${formatNum(state.position.tokenBalance)} ${state.tokenSymbol} ($${posValue.toFixed(2)}) | Avg entry: $${state.position.avgEntryPrice.toFixed(6)} | PnL: ${pnlPct >= 0 ? "+" : ""}${pnlPct.toFixed(1)}%\n` +
       `[tx](${baseScanTxUrl(hash)})`
     );
   } catch (err: any) {
-    addLog(state, `SELL FAILED: ${err.message}`, "error");
+    addLog(state, `SELL FAILED: ${err.message}`, "error", env);
   }
 }
 
@@ -436,6 +532,7 @@ async function executeSell(
 export async function sellStrategyPosition(id: string, pct: number): Promise<{ sold: string } | { error: string }> {
   const s = tradingStrategies.get(id);
   if (!s) return { error: "Strategy not found" };
+  if (s.exitAttachedAt) return { error: "Position was handed to an exit strategy — manage it with exits/exit-edit/exit-cancel" };
   if (s.position.tokenBalance <= 0) return { error: "No position to sell" };
   if (pct <= 0 || pct > 100) return { error: "Percentage must be 1-100" };
 
@@ -443,7 +540,7 @@ export async function sellStrategyPosition(id: string, pct: number): Promise<{ s
   const currentPrice = getPrice(s.tokenAddress) ?? s.position.avgEntryPrice;
   const label = pct === 100 ? "manual sell (all)" : `manual sell (${pct}%)`;
 
-  await executeSell(s, tokenAmount, currentPrice, label);
+  await executeSell(s, tokenAmount, currentPrice, label, { ...liveTrading, now: Date.now() });
 
   // If sold 100%, cancel the strategy
   if (pct === 100 && (s.status === "running" || s.status === "paused")) {
@@ -456,6 +553,76 @@ export async function sellStrategyPosition(id: string, pct: number): Promise<{ s
   return { sold: `${formatNum(tokenAmount)} ${s.tokenSymbol} (${pct}%)` };
 }
 
+export interface ExitPlan {
+  profileOrCustom: string;
+  stopLossMultiple?: number;
+  trailingStopPct?: number;
+  maxImpactPct?: number;
+}
+
+/**
+ * Hand a strategy's position to an exit plan: the strategy stops trading and
+ * an exit strategy sells the token from here, measuring multiples against the
+ * position's average entry price.
+ */
+export function attachExitPlan(id: string, plan: ExitPlan): { attached: string } | { error: string } {
+  const s = tradingStrategies.get(id);
+  if (!s) return { error: "Strategy not found" };
+  if (s.position.tokenBalance <= 0) return { error: "No position to exit" };
+  if (!(s.position.avgEntryPrice > 0)) return { error: "Position has no entry price" };
+  if (getExitStrategy(s.tokenAddress)?.status === "running") {
+    return { error: `An exit strategy is already running for ${s.tokenSymbol} — edit it with exit-edit` };
+  }
+  try {
+    resolveTranches(plan.profileOrCustom);
+  } catch (err: any) {
+    return { error: err.message };
+  }
+
+  if (s.status === "running" || s.status === "paused") {
+    s.status = "done";
+    stopStrategyLoop(id);
+  }
+
+  // Move the position out at cost: the exit strategy owns these tokens and
+  // tracks their PnL from here, so sells and liquidation here must not see them
+  const handedOff = s.position.tokenBalance;
+  const entryPrice = s.position.avgEntryPrice;
+  const costBasis = handedOff * entryPrice;
+  s.position.tokenBalance = 0;
+  s.position.totalRealized += costBasis;
+  s.pnl.realized = s.position.totalRealized - s.position.totalInvested;
+  s.pnl.unrealized = 0;
+  s.exitAttachedAt = Date.now();
+  addLog(
+    s,
+    `Position of ${formatNum(handedOff)} ${s.tokenSymbol} (cost $${costBasis.toFixed(2)}) handed to exit strategy (${plan.profileOrCustom}) — its PnL is tracked there`,
+    "info"
+  );
+  markDirty();
+
+  runExitStrategy({
+    tokenAddress: s.tokenAddress as Address,
+    tokenSymbol: s.tokenSymbol,
+    tokenDecimals: s.tokenDecimals,
+    tokenBalance: BigInt(Math.floor(handedOff * 10 ** s.tokenDecimals)),
+    entryPrice,
+    origin: "trading",
+    tradingStrategyId: s.id,
+    ...plan,
+  }).catch((err) => {
+    // Only setup errors reach here — take the position back
+    s.position.tokenBalance += handedOff;
+    s.position.totalRealized -= costBasis;
+    s.pnl.realized = s.position.totalRealized - s.position.totalInvested;
+    s.exitAttachedAt = undefined;
+    addLog(s, `Exit strategy failed to start: ${err.message} — position returned to this strategy`, "error");
+    markDirty();
+  });
+
+  return { attached: `${formatNum(handedOff)} ${s.tokenSymbol} @ $${entryPrice.toFixed(6)}` };
+}
+
 /** Cancel all strategies and sell all token positions back to USDC */
 export async function liquidateAll(): Promise<{ cancelled: number; sold: string[]; errors: string[] }> {
   const results = { cancelled: 0, sold: [] as string[], errors: [] as string[] };
@@ -475,7 +642,8 @@ export async function liquidateAll(): Promise<{ cancelled: number; sold: string[
   // Deduplicate by token address (multiple strategies may hold the same token)
   const positions = new Map<string, { balance: number; symbol: string; decimals: number; states: TradingStrategyState[] }>();
   for (const state of tradingStrategies.values()) {
-    if (state.position.tokenBalance > 0) {
+    // Positions handed to an exit strategy are sold by it, not here
+    if (state.position.tokenBalance > 0 && !state.exitAttachedAt) {
       const key = state.tokenAddress.toLowerCase();
       const existing = positions.get(key);
       if (existing) {
@@ -537,14 +705,16 @@ export async function liquidateAll(): Promise<{ cancelled: number; sold: string[
 
 // ─── Helpers ───
 
+/** Ticks and trades pass their env so log times follow its clock (backtests run on simulated time) */
 function addLog(
   state: TradingStrategyState,
   message: string,
-  type: "info" | "trade" | "error"
+  type: "info" | "trade" | "error",
+  env?: Pick<TickEnv, "now" | "print">
 ): void {
-  state.log.push({ time: Date.now(), message, type });
+  state.log.push({ time: env?.now ?? Date.now(), message, type });
   if (state.log.length > 100) state.log.shift();
-  console.log(`[trading:${state.id}] ${message}`);
+  (env?.print ?? console.log)(`[trading:${state.id}] ${message}`);
 }
 
 function formatNum(n: number): string {
@@ -83,9 +83,22 @@ export function getHistory(tokenAddress: string): PricePoint[] {
 export function ema(tokenAddress: string, periodMinutes: number): number | null {
   const entry = trackers.get(tokenAddress.toLowerCase());
   if (!entry || entry.history.length === 0) return null;
+  return emaAt(entry.history, periodMinutes, Date.now());
+}
+
+/**
+ * Simple moving average over the last `periodMinutes` of price data.
+ */
+export function sma(tokenAddress: string, periodMinutes: number): number | null {
+  const entry = trackers.get(tokenAddress.toLowerCase());
+  if (!entry || entry.history.length === 0) return null;
+  return smaAt(entry.history, periodMinutes, Date.now());
+}
 
-  const cutoff = Date.now() - periodMinutes * 60_000;
-  const points = entry.history.filter((p) => p.timestamp >= cutoff);
+/** EMA of any price series over the `periodMinutes` before `now` (the backtester passes a simulated clock) */
+export function emaAt(history: PricePoint[], periodMinutes: number, now: number): number | null {
+  const cutoff = now - periodMinutes * 60_000;
+  const points = history.filter((p) => p.timestamp >= cutoff && p.timestamp <= now);
   if (points.length < 2) return null;
 
   const k = 2 / (points.length + 1);
@@ -96,15 +109,10 @@ export function ema(tokenAddress: string, periodMinutes: number): number | null
   return emaVal;
 }
 
-/**
- * Simple moving average over the last `periodMinutes` of price data.
- */
-export function sma(tokenAddress: string, periodMinutes: number): number | null {
-  const entry = trackers.get(tokenAddress.toLowerCase());
-  if (!entry || entry.history.length === 0) return null;
-
-  const cutoff = Date.now() - periodMinutes * 60_000;
-  const points = entry.history.filter((p) => p.timestamp >= cutoff);
+/** SMA of any price series over the `periodMinutes` before `now` */
+export function smaAt(history: PricePoint[], periodMinutes: number, now: number): number | null {
+  const cutoff = now - periodMinutes * 60_000;
+  const points = history.filter((p) => p.timestamp >= cutoff && p.timestamp <= now);
   if (points.length === 0) return null;
 
   const sum = points.reduce((acc, p) => acc + p.price, 0);
@@ -15,7 +15,7 @@ const dcaEvaluate: EvaluateFn = (state, indicators) => {
   const params = state.params as unknown as DcaParams;
 
   // Check if enough time has elapsed since last buy
-  const now = Date.now();
+  const now = indicators.now;
   if (params.lastBuyTime > 0 && now - params.lastBuyTime < params.intervalMs) {
     return null;
   }
@@ -62,8 +62,13 @@ export interface StartDcaOptions {
 }
 
 export function startDca(opts: StartDcaOptions): TradingStrategyState {
-  const id = nextStrategyId();
+  const state = createDcaState(opts, nextStrategyId());
+  runTradingStrategy(state, dcaEvaluate);
+  return state;
+}
 
+/** Build a DCA strategy without starting it */
+export function createDcaState(opts: StartDcaOptions, id: string, now = Date.now()): TradingStrategyState {
   const riskLimits: RiskLimits = {
     maxPositionUsdc: opts.riskLimits?.maxPositionUsdc ?? 5000,
     stopLossPercent: opts.riskLimits?.stopLossPercent ?? 20,
@@ -97,12 +102,10 @@ export function startDca(opts: StartDcaOptions): TradingStrategyState {
   const intervalDesc = formatDuration(opts.intervalMs);
   const budgetDesc = opts.totalBudget ? ` | budget: $${opts.totalBudget}` : " | no budget limit";
   state.log.push({
-    time: Date.now(),
+    time: now,
     message: `DCA started: $${opts.amountPerBuy} every ${intervalDesc}${budgetDesc}`,
     type: "info",
   });
-
-  runTradingStrategy(state, dcaEvaluate);
   return state;
 }
 
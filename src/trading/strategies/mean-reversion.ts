@@ -21,7 +21,7 @@ const meanReversionEvaluate: EvaluateFn = (state, indicators) => {
   if (emaValue == null) return null; // still warming up
 
   // Cooldown check
-  const now = Date.now();
+  const now = indicators.now;
   if (params.lastTradeTime > 0 && now - params.lastTradeTime < params.cooldownMs) {
     return null;
   }
@@ -59,8 +59,17 @@ export interface StartMeanReversionOptions {
 export function startMeanReversion(
   opts: StartMeanReversionOptions
 ): TradingStrategyState {
-  const id = nextStrategyId();
+  const state = createMeanReversionState(opts, nextStrategyId());
+  runTradingStrategy(state, meanReversionEvaluate);
+  return state;
+}
 
+/** Build a mean-reversion strategy without starting it */
+export function createMeanReversionState(
+  opts: StartMeanReversionOptions,
+  id: string,
+  now = Date.now()
+): TradingStrategyState {
   const riskLimits: RiskLimits = {
     maxPositionUsdc: opts.riskLimits?.maxPositionUsdc ?? 5000,
     stopLossPercent: opts.riskLimits?.stopLossPercent ?? 25,
@@ -94,12 +103,10 @@ export function startMeanReversion(
   };
 
   state.log.push({
-    time: Date.now(),
+    time: now,
     message: `Mean-Reversion started: $${opts.amountPerTrade}/trade, ${opts.emaPeriodMinutes}min EMA, buy at -${opts.buyThresholdPct}%, sell at +${opts.sellThresholdPct}%`,
     type: "info",
   });
-
-  runTradingStrategy(state, meanReversionEvaluate);
   return state;
 }
 
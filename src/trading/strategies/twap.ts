@@ -20,7 +20,7 @@ const twapEvaluate: EvaluateFn = (state, indicators) => {
   if (params.chunksExecuted >= params.chunks) {
     state.status = "done";
     state.log.push({
-      time: Date.now(),
+      time: indicators.now,
       message: `TWAP complete: ${params.chunksExecuted}/${params.chunks} chunks executed`,
       type: "info",
     });
@@ -28,7 +28,7 @@ const twapEvaluate: EvaluateFn = (state, indicators) => {
   }
 
   // Check if next chunk is due
-  const now = Date.now();
+  const now = indicators.now;
   const nextChunkTime = params.startTime + (params.chunksExecuted + 1) * params.chunkInterval;
 
   if (now < nextChunkTime) return null;
@@ -40,17 +40,6 @@ const twapEvaluate: EvaluateFn = (state, indicators) => {
   return { side: "buy", amountUsdc: params.chunkSize };
 };
 
-export function parseDuration(input: string): number {
-  const match = input.match(/^(\d+)(m|h|d)$/i);
-  if (!match) throw new Error(`Invalid duration: ${input} (use 30m, 1h, 4h, 1d)`);
-  const val = parseInt(match[1]);
-  const unit = match[2].toLowerCase();
-  if (unit === "m") return val * 60_000;
-  if (unit === "h") return val * 3_600_000;
-  if (unit === "d") return val * 86_400_000;
-  throw new Error(`Invalid duration unit: ${unit}`);
-}
-
 export interface StartTwapOptions {
   tokenAddress: string;
   tokenSymbol: string;
@@ -62,8 +51,13 @@ export interface StartTwapOptions {
 }
 
 export function startTwap(opts: StartTwapOptions): TradingStrategyState {
-  const id = nextStrategyId();
+  const state = createTwapState(opts, nextStrategyId());
+  runTradingStrategy(state, twapEvaluate);
+  return state;
+}
 
+/** Build a TWAP strategy without starting it; chunks are scheduled from `now` */
+export function createTwapState(opts: StartTwapOptions, id: string, now = Date.now()): TradingStrategyState {
   const riskLimits: RiskLimits = {
     maxPositionUsdc: opts.riskLimits?.maxPositionUsdc ?? 5000,
     stopLossPercent: opts.riskLimits?.stopLossPercent ?? 20,
@@ -80,7 +74,7 @@ export function startTwap(opts: StartTwapOptions): TradingStrategyState {
     chunkSize,
     chunkInterval,
     chunksExecuted: 0,
-    startTime: Date.now(),
+    startTime: now,
     lastChunkTime: 0,
   };
 
@@ -103,12 +97,10 @@ export function startTwap(opts: StartTwapOptions): TradingStrategyState {
 
   const durationDesc = formatDuration(opts.durationMs);
   state.log.push({
-    time: Date.now(),
+    time: now,
     message: `TWAP started: $${opts.totalAmount} over ${durationDesc} in ${opts.chunks} chunks ($${chunkSize.toFixed(2)} each, every ${formatDuration(chunkInterval)})`,
     type: "info",
   });
-
-  runTradingStrategy(state, twapEvaluate);
   return state;
 }
 
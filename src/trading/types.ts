@@ -44,4 +44,6 @@ export interface TradingStrategyState {
   riskLimits: RiskLimits;
   params: Record<string, any>;  // strategy-specific
   log: Array<{ time: number; message: string; type: "info" | "trade" | "error" }>;
+  /** When the position was handed to an exit strategy */
+  exitAttachedAt?: number;
 }
@@ -0,0 +1,387 @@
+import { parseGwei, formatGwei, type Address, type Hash, type Hex, type TransactionReceipt } from "viem";
+import { getPublicClient, getWalletClient, getAccount, isPaperMode } from "./config.js";
+import { baseScanTxUrl } from "./utils.js";
+import { replayRevert, withRevertReason } from "./reverts.js";
+import { paperTxHash } from "./paper.js";
+
+// ─── Transaction manager: EIP-1559 fees, local nonces, replace-by-fee ───
+//
+// Every transaction the agent sends goes through here. Nonces are assigned
+// locally so dependent transactions (approve → bid) can be sent back to back
+// without waiting for the first to mine, and a transaction that sits in the
+// mempool too long is re-sent at the same nonce with a higher tip.
+
+/**
+ * How hard to compete for inclusion. "critical" is for the final blocks of
+ * an auction, "high" for time-sensitive trades, "normal" for everything else.
+ */
+export type Urgency = "normal" | "high" | "critical";
+
+interface UrgencyProfile {
+  /** Multiplier on the base priority fee */
+  tipMultiplier: number;
+  /** Replace the transaction if it hasn't mined after this long */
+  stuckAfterMs: number;
+}
+
+const URGENCY: Record<Urgency, UrgencyProfile> = {
+  normal: { tipMultiplier: 1, stuckAfterMs: 30_000 },
+  high: { tipMultiplier: 2, stuckAfterMs: 8_000 },
+  critical: { tipMultiplier: 4, stuckAfterMs: 4_000 }, // ~2 Base blocks
+};
+
+// Nodes require a replacement to raise both fees by at least 10%
+const REPLACEMENT_BUMP_PERCENT = 30n;
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+const MAX_REPLACEMENTS = 3;
+const RECEIPT_POLL_MS = 1_000;
+const RECEIPT_TIMEOUT_MS = 3 * 60_000;
+const GAS_BUFFER_PERCENT = 20n;
+
+// Optional fixed base tip; otherwise the node's suggestion is used
+const BASE_TIP = process.env.TX_PRIORITY_FEE_GWEI ? parseGwei(process.env.TX_PRIORITY_FEE_GWEI) : null;
+// Hard ceiling on maxFeePerGas, including every escalation (TX_MAX_FEE_GWEI, default 1 gwei).
+// A base fee above it fails the send; estimates and replacements above it are clamped with a warning.
+const MAX_FEE_CAP = parseGwei(process.env.TX_MAX_FEE_GWEI || "1");
+const MIN_TIP = parseGwei("0.001");
+
+export interface TxRequest {
+  to: Address;
+  data?: Hex;
+  value?: bigint;
+  /** Explicit gas limit — required when the call depends on an unmined transaction (estimation would revert) */
+  gas?: bigint;
+  urgency?: Urgency;
+  /** Short description for logs, e.g. "approve USDC" */
+  label: string;
+}
+
+export interface SentTx {
+  hash: Hash;
+  nonce: number;
+  label: string;
+}
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+interface PendingTx {
+  request: TxRequest;
+  nonce: number;
+  gas: bigint;
+  fees: Fees;
+  /** Every hash broadcast for this nonce, original first */
+  hashes: Hash[];
+  sentAt: number;
+  /** Set once a replacement was held back by the fee cap, so it's reported once */
+  capReached?: boolean;
+}
+
+// Pending transactions keyed by nonce (single signing account)
+const pending = new Map<number, PendingTx>();
+let nextNonce: number | null = null;
+let nonceLock: Promise<unknown> = Promise.resolve();
+
+export interface PendingTxInfo {
+  label: string;
+  nonce: number;
+  hashes: string[];
+  urgency: Urgency;
+  ageMs: number;
+  maxPriorityFeeGwei: string;
+}
+
+export function getPendingTxs(): PendingTxInfo[] {
+  return Array.from(pending.values()).map((p) => ({
+    label: p.request.label,
+    nonce: p.nonce,
+    hashes: p.hashes,
+    urgency: p.request.urgency ?? "normal",
+    ageMs: Date.now() - p.sentAt,
+    maxPriorityFeeGwei: formatGwei(p.fees.maxPriorityFeePerGas),
+  }));
+}
+
+// ─── Fees ───
+
+/**
+ * Fees for a new transaction. Throws when the current base fee is already at
+ * or above TX_MAX_FEE_GWEI, since a capped transaction could never be
+ * included; an estimate that only exceeds the cap through its tip or base fee
+ * headroom is clamped, with a warning.
+ */
+async function quoteFees(urgency: Urgency, label: string): Promise<Fees> {
+  const publicClient = getPublicClient();
+  const [estimate, block] = await Promise.all([publicClient.estimateFeesPerGas(), publicClient.getBlock()]);
+  const baseFee = block.baseFeePerGas ?? 0n;
+  if (baseFee >= MAX_FEE_CAP) {
+    throw new Error(
+      `${label}: base fee ${formatGwei(baseFee)} gwei is at or above the TX_MAX_FEE_GWEI cap of ${formatGwei(MAX_FEE_CAP)} gwei — not sent; raise the cap to compete`
+    );
+  }
+  const baseTip = BASE_TIP ?? estimate.maxPriorityFeePerGas;
+  let tip = (maxBig(baseTip, MIN_TIP) * BigInt(Math.round(URGENCY[urgency].tipMultiplier * 100))) / 100n;
+
+  // estimateFeesPerGas already leaves headroom for base fee growth; swap in our tip
+  let maxFee = estimate.maxFeePerGas - estimate.maxPriorityFeePerGas + tip;
+  if (maxFee > MAX_FEE_CAP) {
+    console.warn(
+      `[tx] ${label}: max fee ${formatGwei(maxFee)} gwei clamped to the TX_MAX_FEE_GWEI cap of ${formatGwei(MAX_FEE_CAP)} gwei (base fee ${formatGwei(baseFee)} gwei) — inclusion may be slow`
+    );
+    maxFee = MAX_FEE_CAP;
+  }
+  if (tip > maxFee) tip = maxFee;
+  return { maxFeePerGas: maxFee, maxPriorityFeePerGas: tip };
+}
+
+/**
+ * Replacement fees: 30% over the last send, clamped to the cap. Null when
+ * the cap leaves less than the 10% raise nodes accept as a replacement.
+ */
+function bumpFees(fees: Fees): Fees | null {
+  const raise = (v: bigint, percent: bigint) => (v * (100n + percent)) / 100n + 1n;
+  const maxFee = minBig(raise(fees.maxFeePerGas, REPLACEMENT_BUMP_PERCENT), MAX_FEE_CAP);
+  const tip = minBig(raise(fees.maxPriorityFeePerGas, REPLACEMENT_BUMP_PERCENT), maxFee);
+  if (maxFee < raise(fees.maxFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)) return null;
+  if (tip < raise(fees.maxPriorityFeePerGas, MIN_REPLACEMENT_BUMP_PERCENT)) return null;
+  return { maxFeePerGas: maxFee, maxPriorityFeePerGas: tip };
+}
+
+// ─── Nonces ───
+
+/** Run fn with exclusive access to the nonce counter */
+function withNonceLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = nonceLock.then(fn, fn);
+  nonceLock = run.catch(() => {});
+  return run;
+}
+
+async function syncNonce(): Promise<number> {
+  const account = getAccount();
+  nextNonce = await getPublicClient().getTransactionCount({ address: account.address, blockTag: "pending" });
+  return nextNonce;
+}
+
+function isNonceError(err: any): boolean {
+  const msg = String(err?.shortMessage || err?.message || err).toLowerCase();
+  return msg.includes("nonce too low") || msg.includes("nonce has already been used") || msg.includes("already known");
+}
+
+// ─── Sending ───
+
+/**
+ * Sign and broadcast a transaction without waiting for it to mine. Calls
+ * are serialized on the nonce counter, so two sendTx calls in a row get
+ * consecutive nonces and land in the order they were sent.
+ */
+export function sendTx(request: TxRequest): Promise<SentTx> {
+  if (isPaperMode()) return simulateTx(request);
+  return withNonceLock(async () => {
+    const urgency = request.urgency ?? "normal";
+    const gas = request.gas ?? (await estimateGas(request));
+    const fees = await quoteFees(urgency, request.label);
+
+    for (let attempt = 0; ; attempt++) {
+      const nonce = nextNonce ?? (await syncNonce());
+      try {
+        const hash = await broadcast(request, nonce, gas, fees);
+        nextNonce = nonce + 1;
+        pending.set(nonce, { request, nonce, gas, fees, hashes: [hash], sentAt: Date.now() });
+        console.log(
+          `[tx] ${request.label}: sent nonce ${nonce} (tip ${formatGwei(fees.maxPriorityFeePerGas)} gwei, ${urgency}) ${baseScanTxUrl(hash)}`
+        );
+        return { hash, nonce, label: request.label };
+      } catch (err: any) {
+        // Our counter drifted (tx sent elsewhere, or a restart) — resync once and retry
+        if (attempt === 0 && isNonceError(err)) {
+          await syncNonce();
+          continue;
+        }
+        // Nothing was broadcast, so the nonce is still free; resync lazily next time
+        nextNonce = null;
+        throw err;
+      }
+    }
+  });
+}
+
+async function estimateGas(request: TxRequest): Promise<bigint> {
+  try {
+    const estimate = await getPublicClient().estimateGas({
+      account: getAccount().address,
+      to: request.to,
+      data: request.data,
+      value: request.value ?? 0n,
+    });
+    return estimate + (estimate * GAS_BUFFER_PERCENT) / 100n;
+  } catch (err) {
+    // A failing estimate is almost always the call itself reverting
+    throw withRevertReason(err, request.label);
+  }
+}
+
+function broadcast(request: TxRequest, nonce: number, gas: bigint, fees: Fees): Promise<Hash> {
+  const walletClient = getWalletClient();
+  return walletClient.sendTransaction({
+    account: getAccount(),
+    chain: walletClient.chain,
+    to: request.to,
+    data: request.data,
+    value: request.value ?? 0n,
+    nonce,
+    gas,
+    maxFeePerGas: fees.maxFeePerGas,
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+  });
+}
+
+// ─── Confirmation & replacement ───
+
+/**
+ * Wait for a sent transaction (or one of its replacements) to mine. If it
+ * stays pending past its urgency's threshold, re-send it at the same nonce
+ * with fees raised by 30%, up to three times. Throws on revert or timeout.
+ */
+export async function waitForTx(sent: SentTx): Promise<TransactionReceipt> {
+  const simulated = paperReceipts.get(sent.hash);
+  if (simulated) {
+    paperReceipts.delete(sent.hash);
+    return simulated;
+  }
+  const publicClient = getPublicClient();
+  const tx = pending.get(sent.nonce);
+  const hashes = tx?.hashes ?? [sent.hash];
+  const stuckAfterMs = URGENCY[tx?.request.urgency ?? "normal"].stuckAfterMs;
+  const started = Date.now();
+  let lastSentAt = Date.now();
+  let replacements = 0;
+
+  try {
+    while (Date.now() - started < RECEIPT_TIMEOUT_MS) {
+      for (const hash of hashes) {
+        const receipt = await publicClient.getTransactionReceipt({ hash }).catch(() => null);
+        if (receipt) {
+          if (receipt.status === "reverted") throw await revertError(sent, tx?.request, receipt);
+          if (hash !== sent.hash) console.log(`[tx] ${sent.label}: replacement ${hash.slice(0, 10)} mined`);
+          return receipt;
+        }
+      }
+
+      if (tx && Date.now() - lastSentAt >= stuckAfterMs && replacements < MAX_REPLACEMENTS) {
+        lastSentAt = Date.now();
+        if (await replace(tx)) replacements++;
+      }
+      await new Promise((r) => setTimeout(r, RECEIPT_POLL_MS));
+    }
+    // It may have been dropped — resync so later transactions don't queue behind a nonce gap
+    nextNonce = null;
+    throw new Error(`${sent.label} not mined after ${RECEIPT_TIMEOUT_MS / 1000}s (nonce ${sent.nonce}, ${hashes.join(", ")})`);
+  } finally {
+    pending.delete(sent.nonce);
+  }
+}
+
+async function replace(tx: PendingTx): Promise<boolean> {
+  const fees = bumpFees(tx.fees);
+  if (!fees) {
+    if (!tx.capReached) {
+      tx.capReached = true;
+      console.error(
+        `[tx] ${tx.request.label}: stuck at nonce ${tx.nonce} (max fee ${formatGwei(tx.fees.maxFeePerGas)} gwei) and the TX_MAX_FEE_GWEI cap of ${formatGwei(MAX_FEE_CAP)} gwei leaves no room to replace it — waiting without escalation`
+      );
+    }
+    return false;
+  }
+  try {
+    const hash = await broadcast(tx.request, tx.nonce, tx.gas, fees);
+    tx.fees = fees;
+    tx.hashes.push(hash);
+    console.log(
+      `[tx] ${tx.request.label}: replaced nonce ${tx.nonce} (tip ${formatGwei(fees.maxPriorityFeePerGas)} gwei) ${baseScanTxUrl(hash)}`
+    );
+    return true;
+  } catch (err: any) {
+    // "nonce too low" means an earlier hash just mined — the next poll will find it
+    if (!isNonceError(err)) {
+      console.error(`[tx] ${tx.request.label}: replacement failed: ${err.shortMessage || err.message}`);
+    }
+    return false;
+  }
+}
+
+// ─── Paper mode ───
+
+// Synthetic receipts for simulated sends, collected by waitForTx
+const paperReceipts = new Map<Hash, TransactionReceipt>();
+const EMPTY_LOGS_BLOOM: Hex = `0x${"0".repeat(512)}`;
+
+/**
+ * Run the transaction as an eth_call instead of broadcasting it. A revert
+ * fails the send exactly as estimation would; otherwise the caller gets a
+ * hash whose receipt reports success at the current block with no gas spent.
+ */
+async function simulateTx(request: TxRequest): Promise<SentTx> {
+  const publicClient = getPublicClient();
+  const account = getAccount();
+  try {
+    await publicClient.call({ account: account.address, to: request.to, data: request.data, value: request.value });
+  } catch (err) {
+    throw withRevertReason(err, `${request.label} (paper)`);
+  }
+
+  const hash = paperTxHash(request.label);
+  const block = await publicClient.getBlock();
+  paperReceipts.set(hash, {
+    transactionHash: hash,
+    transactionIndex: 0,
+    blockHash: block.hash,
+    blockNumber: block.number,
+    status: "success",
+    type: "eip1559",
+    from: account.address,
+    to: request.to,
+    contractAddress: null,
+    gasUsed: 0n,
+    cumulativeGasUsed: 0n,
+    effectiveGasPrice: 0n,
+    logs: [],
+    logsBloom: EMPTY_LOGS_BLOOM,
+  });
+  console.log(`[tx] ${request.label}: simulated (paper mode), nothing broadcast`);
+  return { hash, nonce: -1, label: request.label };
+}
+
+/** Decoded reason for a mined revert when the replay reproduces it, else a generic error with the hash */
+async function revertError(sent: SentTx, request: TxRequest | undefined, receipt: TransactionReceipt): Promise<Error> {
+  const decoded = request
+    ? await replayRevert(
+        { from: receipt.from, to: request.to, data: request.data, value: request.value, blockNumber: receipt.blockNumber },
+        sent.label
+      )
+    : null;
+  if (decoded) {
+    decoded.message += ` (${receipt.transactionHash})`;
+    return decoded;
+  }
+  return new Error(`${sent.label} reverted: ${receipt.transactionHash}`);
+}
+
+/** Send and wait for the receipt */
+export async function sendAndConfirm(request: TxRequest): Promise<TransactionReceipt> {
+  return waitForTx(await sendTx(request));
+}
+
+/** ETH spent on gas by a receipt */
+export function gasCostEth(receipt: TransactionReceipt): number {
+  return Number(receipt.gasUsed * (receipt.effectiveGasPrice ?? 0n)) / 1e18;
+}
+
+function maxBig(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+function minBig(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
@@ -1,4 +1,4 @@
-import { getCurrentBlock } from "./api.js";
+import { getCurrentBlock, jsonReplacer } from "./api.js";
 
 const BASE_BLOCK_TIME_SECONDS = 2;
 
@@ -27,6 +27,18 @@ export function formatCountdown(seconds: number): string {
   return parts.join(" ");
 }
 
+/** Parse "30m", "1h", "4h" or "1d" into milliseconds */
+export function parseDuration(input: string): number {
+  const match = input.match(/^(\d+)(m|h|d)$/i);
+  if (!match) throw new Error(`Invalid duration: ${input} (use 30m, 1h, 4h, 1d)`);
+  const val = parseInt(match[1]);
+  const unit = match[2].toLowerCase();
+  if (unit === "m") return val * 60_000;
+  if (unit === "h") return val * 3_600_000;
+  if (unit === "d") return val * 86_400_000;
+  throw new Error(`Invalid duration unit: ${unit}`);
+}
+
 export function baseScanTxUrl(txHash: string): string {
   return `https://basescan.org/tx/${txHash}`;
 }
@@ -41,5 +53,5 @@ export async function getBlockTiming() {
 
 export function printJson(label: string, data: unknown) {
   console.log(`\n${label}:`);
-  console.log(JSON.stringify(data, null, 2));
+  console.log(JSON.stringify(data, jsonReplacer, 2));
 }
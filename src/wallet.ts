@@ -1,6 +1,33 @@
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
-import { formatEther, formatUnits, erc20Abi } from "viem";
-import { getPublicClient, getAccount, USDC_BASE } from "./config.js";
+import { formatEther, formatUnits, erc20Abi, type Address } from "viem";
+import { getPublicClient, getAccount, isPaperMode, USDC_BASE } from "./config.js";
+import { paperEthBalance, paperTokenBalance } from "./paper.js";
+
+/** Our raw token balance — from the virtual ledger in paper mode */
+export async function getTokenBalance(token: Address): Promise<bigint> {
+  if (isPaperMode()) return paperTokenBalance(token);
+  return getPublicClient().readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "balanceOf",
+    args: [getAccount().address],
+  });
+}
+
+/** A token's total supply in raw units */
+export async function getTokenSupply(token: Address): Promise<bigint> {
+  return getPublicClient().readContract({
+    address: token,
+    abi: erc20Abi,
+    functionName: "totalSupply",
+  });
+}
+
+/** Our ETH balance in wei — from the virtual ledger in paper mode */
+export async function getEthBalance(): Promise<bigint> {
+  if (isPaperMode()) return paperEthBalance();
+  return getPublicClient().getBalance({ address: getAccount().address });
+}
 
 export function generateWallet() {
   const privateKey = generatePrivateKey();
@@ -20,19 +47,9 @@ export async function showAddress() {
 
 export async function showBalance() {
   const account = getAccount();
-  const client = getPublicClient();
-
-  const [ethBalance, usdcBalance] = await Promise.all([
-    client.getBalance({ address: account.address }),
-    client.readContract({
-      address: USDC_BASE,
-      abi: erc20Abi,
-      functionName: "balanceOf",
-      args: [account.address],
-    }),
-  ]);
+  const [ethBalance, usdcBalance] = await Promise.all([getEthBalance(), getTokenBalance(USDC_BASE)]);
 
-  console.log(`Wallet: ${account.address}\n`);
+  console.log(`Wallet: ${account.address}${isPaperMode() ? " (paper)" : ""}\n`);
   console.log(`  ETH:  ${formatEther(ethBalance)}`);
   console.log(`  USDC: ${formatUnits(usdcBalance, 6)}`);
 }